@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Mock leaderboard server for the Antzer game
+ * Serves the leaderboard HTTP API from memory using the game's own LocalLeaderboardClient,
+ * so the HTTP client can be tried locally without a real backend.
+ * Run through `npm run leaderboard:mock`, which compiles the client first, then open the game
+ * with `?leaderboard=http://localhost:3001`. Set PORT to use another port.
+ */
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const COMPILED_DIR = path.join(__dirname, '..', '.leaderboard-mock');
+const PORT = Number(process.env.PORT) || 3001;
+const MAX_BODY_BYTES = 64 * 1024;
+
+const { LocalLeaderboardClient } = require(path.join(COMPILED_DIR, 'utils', 'local-leaderboard-client'));
+fs.rmSync(COMPILED_DIR, { recursive: true, force: true });
+
+const client = new LocalLeaderboardClient(false);
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+/**
+ * Send a JSON answer
+ */
+function sendJson(response, status, body) {
+  response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Read a request body as JSON
+ * @returns The parsed body, or undefined if it isn't valid JSON
+ */
+function readJson(request) {
+  return new Promise((resolve) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) request.destroy();
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch (error) {
+        resolve(undefined);
+      }
+    });
+  });
+}
+
+/**
+ * Read a whole-number query parameter, clamped to a range
+ */
+function readCount(url, name, fallback, max) {
+  const value = Number.parseInt(url.searchParams.get(name) ?? '', 10);
+  return Number.isInteger(value) ? Math.min(Math.max(value, 0), max) : fallback;
+}
+
+/**
+ * Route a request to the leaderboard
+ */
+async function handleRequest(request, response) {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS);
+    response.end();
+    return;
+  }
+
+  // POST /boards/:boardId/runs
+  if (request.method === 'POST' && parts.length === 3 && parts[0] === 'boards' && parts[2] === 'runs') {
+    const run = await readJson(request);
+    if (!run || run.boardId !== parts[1]) {
+      sendJson(response, 400, { errors: ['Body must be a run for this board'] });
+      return;
+    }
+
+    try {
+      const entry = await client.submit(run);
+      console.log(`✅ ${run.initials} submitted to ${run.boardId} - rank #${entry.rank}`);
+      sendJson(response, 201, { entry });
+    } catch (error) {
+      sendJson(response, 400, { errors: [error.message] });
+    }
+    return;
+  }
+
+  // GET /boards/:boardId/top?limit=N
+  if (request.method === 'GET' && parts.length === 3 && parts[0] === 'boards' && parts[2] === 'top') {
+    const entries = await client.getTop(parts[1], readCount(url, 'limit', 10, 100));
+    sendJson(response, 200, { entries });
+    return;
+  }
+
+  // GET /boards/:boardId/players/:playerId/around?radius=N
+  if (request.method === 'GET' && parts.length === 5 && parts[0] === 'boards' && parts[2] === 'players' && parts[4] === 'around') {
+    const entries = await client.getAroundPlayer(parts[1], parts[3], readCount(url, 'radius', 4, 50));
+    sendJson(response, 200, { entries });
+    return;
+  }
+
+  sendJson(response, 404, { errors: [`No route for ${request.method} ${url.pathname}`] });
+}
+
+http.createServer((request, response) => {
+  handleRequest(request, response).catch((error) => {
+    console.error('❌ Request failed:', error);
+    sendJson(response, 500, { errors: ['Internal server error'] });
+  });
+}).listen(PORT, () => {
+  console.log(`Mock leaderboard server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Level validation script for the Antzer game
+ * Runs validateLevel (including the reachability solver) over every built-in level and
+ * every level file in the manifest, and fails the build if any level is broken.
+ * Run through `npm run validate:levels`, which compiles the level modules first.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const COMPILED_DIR = path.join(__dirname, '..', '.levels-check');
+const LEVELS_DIR = path.join(__dirname, '..', 'src', 'assets', 'levels');
+
+const { getLevels } = require(path.join(COMPILED_DIR, 'config', 'level-registry'));
+const { parseLevelFile } = require(path.join(COMPILED_DIR, 'config', 'level-loader'));
+const { validateLevel } = require(path.join(COMPILED_DIR, 'config', 'level-config'));
+const { solveLevel } = require(path.join(COMPILED_DIR, 'game', 'level-solver'));
+
+/**
+ * Report a level's validation result
+ * @returns True if the level is valid
+ */
+function reportLevel(label, level, errors) {
+  if (errors.length > 0) {
+    console.error(`❌ ${label} rejected:`);
+    errors.forEach((error) => console.error(`  - ${error}`));
+    return false;
+  }
+
+  const { minMoves } = solveLevel(level);
+  console.log(`✅ ${label} (${level.name}) - solvable in ${minMoves} moves`);
+  return true;
+}
+
+let valid = true;
+
+getLevels().forEach((level) => {
+  valid = reportLevel(level.id, level, validateLevel(level)) && valid;
+});
+
+const manifest = JSON.parse(fs.readFileSync(path.join(LEVELS_DIR, 'manifest.json'), 'utf8'));
+manifest.levels.forEach((fileName) => {
+  const data = JSON.parse(fs.readFileSync(path.join(LEVELS_DIR, fileName), 'utf8'));
+  const result = parseLevelFile(data);
+  valid = reportLevel(fileName, result.level, result.errors) && valid;
+});
+
+fs.rmSync(COMPILED_DIR, { recursive: true, force: true });
+process.exit(valid ? 0 : 1);
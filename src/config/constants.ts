@@ -32,8 +32,20 @@ export enum AudioKeys {
  * Movement directions for game objects
  */
 export enum Direction {
+  DOWN = 'down',
   LEFT = 'left',
-  RIGHT = 'right'
+  RIGHT = 'right',
+  UP = 'up'
+}
+
+/**
+ * Ways to play the game
+ */
+export enum GameMode {
+  /** Hand-made and generated levels that end at an ant hill */
+  CAMPAIGN = 'campaign',
+  /** A level that keeps growing upwards ahead of a rising flood */
+  ENDLESS = 'endless'
 }
 
 /**
@@ -45,9 +57,11 @@ export enum ImageKeys {
   BACKGROUND = 'background',
   BACKGROUND_TILES = 'background-tiles',
   BUTTON = 'button',
+  CHECKPOINT = 'checkpoint',
   CHERRY = 'cherry',
   CONTROLS = 'controls',
   COOKIE = 'cookie',
+  FROG = 'frog',
   LEAF = 'leaf',
   LOG = 'log',
   LOGO = 'logo',
@@ -63,15 +77,44 @@ export enum SceneKeys {
   BOOT = 'BootScene',
   GAME = 'GameScene',
   GAME_OVER = 'GameOverScene',
+  HIGH_SCORE_ENTRY = 'HighScoreEntryScene',
+  HIGH_SCORES = 'HighScoresScene',
+  LEADERBOARD = 'LeaderboardScene',
+  LEVEL_COMPLETE = 'LevelCompleteScene',
+  LEVEL_EDITOR = 'LevelEditorScene',
+  LEVEL_SELECT = 'LevelSelectScene',
   LOADING = 'LoadingScene',
-  MENU = 'MenuScene'
+  MENU = 'MenuScene',
+  PAUSE = 'PauseScene',
+  REPLAY = 'ReplayScene',
+  SETTINGS = 'SettingsScene'
 }
 
+/**
+ * Version of the game, recorded in replays (keep in step with package.json)
+ */
+export const GAME_VERSION = '1.0.0';
+
 /**
  * Grid size in pixels for the game's grid-based movement system
  */
 export const GRID_SIZE = 48;
 
+/**
+ * Game canvas width in pixels
+ */
+export const GAME_WIDTH = 800;
+
+/**
+ * Game canvas height in pixels
+ */
+export const GAME_HEIGHT = 600;
+
+/**
+ * Lives the player starts a level with, unless the level sets its own
+ */
+export const DEFAULT_LIVES = 3;
+
 /**
  * Depth layer for sparkle particle effects
  */
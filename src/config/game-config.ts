@@ -1,9 +1,19 @@
 import Phaser from "phaser";
+import { GAME_HEIGHT, GAME_WIDTH } from "./constants";
 import { BootScene } from "../scenes/boot-scene";
 import { GameOverScene } from "../scenes/game-over-scene";
 import { GameScene } from "../scenes/game-scene";
+import { HighScoreEntryScene } from "../scenes/high-score-entry-scene";
+import { HighScoresScene } from "../scenes/high-scores-scene";
+import { LevelCompleteScene } from "../scenes/level-complete-scene";
+import { LeaderboardScene } from "../scenes/leaderboard-scene";
+import { LevelEditorScene } from "../scenes/level-editor-scene";
+import { LevelSelectScene } from "../scenes/level-select-scene";
 import { LoadingScene } from "../scenes/loading-scene";
 import { MenuScene } from "../scenes/menu-scene";
+import { PauseScene } from "../scenes/pause-scene";
+import { ReplayScene } from "../scenes/replay-scene";
+import { SettingsScene } from "../scenes/settings-scene";
 
 /**
  * @fileoverview Phaser game configuration for the Antzer game
@@ -17,6 +27,9 @@ import { MenuScene } from "../scenes/menu-scene";
 export const GameConfig: Phaser.Types.Core.GameConfig = {
   backgroundColor: '#000000',
   
+  input: {
+    gamepad: true
+  },
   fps: {
     deltaHistory: 10,
     forceSetTimeOut: false,
@@ -49,11 +62,11 @@ export const GameConfig: Phaser.Types.Core.GameConfig = {
       width: 400
     },
     mode: Phaser.Scale.FIT,
-    height: 600,
-    width: 800
+    height: GAME_HEIGHT,
+    width: GAME_WIDTH
   },
-  scene: [BootScene, LoadingScene, MenuScene, GameScene, GameOverScene],
+  scene: [BootScene, LoadingScene, MenuScene, LevelSelectScene, LevelEditorScene, HighScoresScene, SettingsScene, GameScene, PauseScene, ReplayScene, LevelCompleteScene, GameOverScene, HighScoreEntryScene, LeaderboardScene],
   type: Phaser.AUTO,
-  height: 600,
-  width: 800
+  height: GAME_HEIGHT,
+  width: GAME_WIDTH
 };
\ No newline at end of file
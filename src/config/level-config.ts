@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Level configuration types and helpers for the Antzer game
+ * Defines the LevelConfig interface shared by every level, along with the functions
+ * used to derive special positions from a level grid and validate its layout
+ */
+
+import { Direction } from './constants';
+import { solveLevel } from '../game/level-solver';
+
+/**
+ * Every character allowed in a level grid (see level1.ts for the legend)
+ */
+export const LEVEL_CHARACTERS = ['G', 'A', 'H', 'C', 'K', 'S', 'T', 'R', 'P', 'Y', 'N', 'W', 'L', 'F'] as const;
+
+/**
+ * Platform types that can be assigned to a water lane
+ */
+export type LanePlatform = 'log' | 'leaf';
+
+/**
+ * Obstacle types that can be assigned to a road lane
+ */
+export type LaneObstacle = 'poison' | 'spray' | 'nail';
+
+/**
+ * Per-row lane settings for water and road rows
+ * Every field is optional - rows without settings use the game's default lane behavior
+ */
+export interface LaneSettings {
+  /** Row index (0-based from top) these settings apply to */
+  row: number;
+  /** Direction platforms or obstacles move in */
+  direction?: Direction;
+  /** Movement speed in pixels per second */
+  speed?: number;
+  /** Platform type spawned in a water row */
+  platform?: LanePlatform;
+  /** Obstacle type used in a road row */
+  obstacle?: LaneObstacle;
+  /** Gap in pixels between neighbouring platforms or obstacles */
+  gap?: number;
+  /** Number of platforms or obstacles in the row */
+  count?: number;
+}
+
+/**
+ * Raw level definition authored by a level designer
+ * Contains the character grid and identifying metadata for a single level
+ */
+export interface LevelDefinition {
+  /** Unique level identifier used by the level registry and scene data */
+  id: string;
+  /** Human readable level name */
+  name: string;
+  /** Character grid where each character represents one grid cell (see level1.ts for the legend) */
+  grid: readonly string[];
+  /** Name of the level designer */
+  author?: string;
+  /** Target completion time in seconds used for star ratings */
+  parTimeSeconds?: number;
+  /** Per-row lane settings for water and road rows */
+  lanes?: readonly LaneSettings[];
+  /** Lives the player starts the level with (defaults to DEFAULT_LIVES) */
+  lives?: number;
+}
+
+/**
+ * Complete level configuration with all necessary game data
+ * Contains the level definition plus positions and dimensions computed from its grid
+ */
+export interface LevelConfig extends LevelDefinition {
+  /** Row index of ant starting position (0-based from top) */
+  antStartRow: number;
+  /** Column index of ant starting position (0-based from left) */
+  antStartCol: number;
+  /** Row index of ant hill goal position (0-based from top) */
+  antHillRow: number;
+  /** Column index of ant hill goal position (0-based from left) */
+  antHillCol: number;
+  /** Level width in grid cells */
+  width: number;
+  /** Level height in grid cells */
+  height: number;
+}
+
+/**
+ * Position information for special level elements
+ */
+interface LevelPositions {
+  /** Ant starting position */
+  antStart: { row: number; col: number };
+  /** Ant hill goal position */
+  antHill: { row: number; col: number };
+}
+
+/**
+ * Find positions of special characters in a level grid
+ * Scans the entire grid to locate the ant starting position and ant hill
+ *
+ * @param grid - The level character grid to scan
+ * @returns Object containing the row and column positions of special elements
+ */
+export function findLevelPositions(grid: readonly string[]): LevelPositions {
+  const positions: LevelPositions = {
+    antStart: { row: -1, col: -1 },
+    antHill: { row: -1, col: -1 }
+  };
+
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[row].length; col++) {
+      const char = grid[row][col];
+      if (char === 'A') {
+        positions.antStart = { row, col };
+      } else if (char === 'H') {
+        positions.antHill = { row, col };
+      }
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Build a complete level configuration from a level definition
+ * Positions and dimensions are automatically calculated from the level grid
+ *
+ * @param definition - The level definition to build the configuration from
+ * @returns The complete level configuration
+ */
+export function createLevelConfig(definition: LevelDefinition): LevelConfig {
+  const positions = findLevelPositions(definition.grid);
+
+  return {
+    ...definition,
+    antStartRow: positions.antStart.row,
+    antStartCol: positions.antStart.col,
+    antHillRow: positions.antHill.row,
+    antHillCol: positions.antHill.col,
+    width: definition.grid[0]?.length || 16,
+    height: definition.grid.length
+  };
+}
+
+/**
+ * Validate a level configuration for consistency, required elements, and winnability
+ * Checks for missing required elements and dimension consistency, then plays out the
+ * lane timings to prove the ant hill can be reached from the ant start
+ *
+ * @param level - The level configuration to validate
+ * @returns Array of error messages, empty if validation passes
+ */
+export function validateLevel(level: LevelConfig): string[] {
+  const errors: string[] = [];
+
+  // Check that ant start position was found
+  if (level.antStartRow === -1 || level.antStartCol === -1) {
+    errors.push("Ant start position 'A' not found in level definition");
+  }
+
+  // Check that ant hill position was found
+  if (level.antHillRow === -1 || level.antHillCol === -1) {
+    errors.push("Ant hill position 'H' not found in level definition");
+  }
+
+  // Check level dimensions consistency
+  for (let i = 0; i < level.grid.length; i++) {
+    if (level.grid[i].length !== level.width) {
+      errors.push(`Row ${i} has ${level.grid[i].length} characters, expected ${level.width}`);
+    }
+  }
+
+  // Check every character is part of the level legend
+  for (let i = 0; i < level.grid.length; i++) {
+    [...level.grid[i]].forEach((char, col) => {
+      if (!(LEVEL_CHARACTERS as readonly string[]).includes(char)) {
+        errors.push(`Row ${i} has unknown character '${char}' at column ${col}`);
+      }
+    });
+  }
+
+  // Only solve levels whose layout is well-formed
+  if (errors.length === 0) {
+    const solution = solveLevel(level);
+    if (!solution.solvable) {
+      errors.push('Ant hill cannot be reached from the ant start position');
+      if (solution.blockedRow !== null) {
+        errors.push(`Row ${solution.blockedRow} can never be crossed`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Level file loader for the Antzer game
+ * Parses and checks plain-data level files (JSON) so level designers can ship levels
+ * without touching TypeScript. LoadingScene fetches the files listed in the level
+ * manifest and registers every level that passes these checks.
+ *
+ * **Level file format (schema version 1):**
+ * ```json
+ * {
+ *   "schemaVersion": 1,
+ *   "id": "level-3",
+ *   "name": "Puddle Jumper",
+ *   "author": "Level Designer",
+ *   "parTimeSeconds": 75,
+ *   "lives": 3,
+ *   "grid": ["GGGGGGHGGGGGGGGG", "WWWWWWWWWWWWWWWW", "GGGGGGAGGGGGGGGG"],
+ *   "lanes": [{ "row": 1, "direction": "left", "speed": 30, "platform": "leaf" }]
+ * }
+ * ```
+ */
+
+import { Direction } from './constants';
+import {
+  createLevelConfig,
+  LaneObstacle,
+  LanePlatform,
+  LaneSettings,
+  LevelConfig,
+  LevelDefinition,
+  validateLevel
+} from './level-config';
+
+/**
+ * Current version of the level file schema
+ */
+export const LEVEL_SCHEMA_VERSION = 1;
+
+/**
+ * Path of the manifest listing every level file to load, relative to the game root
+ */
+export const LEVEL_MANIFEST_PATH = 'assets/levels/manifest.json';
+
+/**
+ * Directory holding the level files listed in the manifest
+ */
+export const LEVEL_FILES_PATH = 'assets/levels/';
+
+const LANE_DIRECTIONS: readonly string[] = [Direction.LEFT, Direction.RIGHT];
+const LANE_PLATFORMS: readonly LanePlatform[] = ['log', 'leaf'];
+const LANE_OBSTACLES: readonly LaneObstacle[] = ['poison', 'spray', 'nail'];
+
+/**
+ * Shape of a level file as stored on disk
+ */
+export interface LevelFileData {
+  /** Version of the level file schema the file was written against */
+  schemaVersion: number;
+  /** Unique level identifier */
+  id: string;
+  /** Human readable level name */
+  name: string;
+  /** Name of the level designer */
+  author?: string;
+  /** Target completion time in seconds */
+  parTimeSeconds?: number;
+  /** Lives the player starts the level with */
+  lives?: number;
+  /** Character grid, one string per row */
+  grid: string[];
+  /** Per-row lane settings */
+  lanes?: LaneSettings[];
+}
+
+/**
+ * Shape of the level manifest file
+ */
+export interface LevelManifest {
+  /** Level file names, relative to LEVEL_FILES_PATH, in play order */
+  levels: string[];
+}
+
+/**
+ * Result of parsing a level file
+ */
+export interface LevelLoadResult {
+  /** The parsed level, present only when the file has no errors */
+  level?: LevelConfig;
+  /** Every problem found in the file, empty if the file is valid */
+  errors: string[];
+}
+
+/**
+ * Parse and check a level file
+ * Reports every schema problem at once, then runs the standard level validation
+ *
+ * @param data - The parsed JSON contents of the level file
+ * @returns The level configuration when valid, plus any errors found
+ */
+export function parseLevelFile(data: unknown): LevelLoadResult {
+  const result = readLevelFile(data);
+  if (!result.level) {
+    return result;
+  }
+
+  const validationErrors = validateLevel(result.level);
+  return validationErrors.length > 0 ? { errors: validationErrors } : result;
+}
+
+/**
+ * Read a level file, checking only its schema
+ * Used by the level editor to open levels that are still being worked on; use
+ * parseLevelFile for levels that will be played
+ *
+ * @param data - The parsed JSON contents of the level file
+ * @returns The level configuration when the schema is valid, plus any schema errors found
+ */
+export function readLevelFile(data: unknown): LevelLoadResult {
+  if (!isRecord(data)) {
+    return { errors: ['Level file must contain a JSON object'] };
+  }
+
+  if (data.schemaVersion !== LEVEL_SCHEMA_VERSION) {
+    return {
+      errors: [`Unsupported schemaVersion ${JSON.stringify(data.schemaVersion)}, expected ${LEVEL_SCHEMA_VERSION}`]
+    };
+  }
+
+  const errors: string[] = [];
+
+  if (typeof data.id !== 'string' || data.id.trim() === '') {
+    errors.push("'id' must be a non-empty string");
+  }
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    errors.push("'name' must be a non-empty string");
+  }
+  if (data.author !== undefined && typeof data.author !== 'string') {
+    errors.push("'author' must be a string");
+  }
+  if (data.parTimeSeconds !== undefined && !isPositiveNumber(data.parTimeSeconds)) {
+    errors.push("'parTimeSeconds' must be a positive number");
+  }
+  if (data.lives !== undefined && (!Number.isInteger(data.lives) || (data.lives as number) < 1)) {
+    errors.push("'lives' must be a whole number, 1 or more");
+  }
+
+  const grid = data.grid;
+  const gridIsValid = Array.isArray(grid) && grid.length > 0 && grid.every(row => typeof row === 'string');
+  if (!gridIsValid) {
+    errors.push("'grid' must be a non-empty array of strings");
+  }
+
+  if (data.lanes !== undefined) {
+    if (!Array.isArray(data.lanes)) {
+      errors.push("'lanes' must be an array");
+    } else {
+      data.lanes.forEach((lane, index) => {
+        errors.push(...checkLaneSettings(lane, index, gridIsValid ? (grid as string[]).length : 0));
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const level = createLevelConfig({
+    id: data.id as string,
+    name: data.name as string,
+    author: data.author as string | undefined,
+    parTimeSeconds: data.parTimeSeconds as number | undefined,
+    lives: data.lives as number | undefined,
+    grid: grid as string[],
+    lanes: data.lanes as LaneSettings[] | undefined
+  });
+
+  return { level, errors: [] };
+}
+
+/**
+ * Convert a level definition into level file data, ready to be saved as JSON
+ * Optional fields are only written when the level sets them
+ *
+ * @param level - The level definition to convert
+ * @returns Level file data for the current schema version
+ */
+export function createLevelFileData(level: LevelDefinition): LevelFileData {
+  return {
+    schemaVersion: LEVEL_SCHEMA_VERSION,
+    id: level.id,
+    name: level.name,
+    ...(level.author !== undefined && { author: level.author }),
+    ...(level.parTimeSeconds !== undefined && { parTimeSeconds: level.parTimeSeconds }),
+    ...(level.lives !== undefined && { lives: level.lives }),
+    grid: [...level.grid],
+    ...(level.lanes && level.lanes.length > 0 && { lanes: level.lanes.map(lane => ({ ...lane })) })
+  };
+}
+
+/**
+ * Check a single lane settings entry
+ * @param lane - The lane entry from the level file
+ * @param index - Position of the entry in the lanes array (for error messages)
+ * @param rowCount - Number of rows in the level grid
+ * @returns Array of error messages for this entry
+ */
+function checkLaneSettings(lane: unknown, index: number, rowCount: number): string[] {
+  const label = `lanes[${index}]`;
+
+  if (!isRecord(lane)) {
+    return [`${label} must be an object`];
+  }
+
+  const errors: string[] = [];
+
+  if (!Number.isInteger(lane.row) || (lane.row as number) < 0 || (rowCount > 0 && (lane.row as number) >= rowCount)) {
+    errors.push(`${label}.row must be a row index between 0 and ${Math.max(0, rowCount - 1)}`);
+  }
+  if (lane.direction !== undefined && !LANE_DIRECTIONS.includes(lane.direction as string)) {
+    errors.push(`${label}.direction must be one of ${LANE_DIRECTIONS.join(', ')}`);
+  }
+  if (lane.speed !== undefined && !isPositiveNumber(lane.speed)) {
+    errors.push(`${label}.speed must be a positive number`);
+  }
+  if (lane.platform !== undefined && !LANE_PLATFORMS.includes(lane.platform as LanePlatform)) {
+    errors.push(`${label}.platform must be one of ${LANE_PLATFORMS.join(', ')}`);
+  }
+  if (lane.obstacle !== undefined && !LANE_OBSTACLES.includes(lane.obstacle as LaneObstacle)) {
+    errors.push(`${label}.obstacle must be one of ${LANE_OBSTACLES.join(', ')}`);
+  }
+  if (lane.gap !== undefined && (typeof lane.gap !== 'number' || lane.gap < 0)) {
+    errors.push(`${label}.gap must be a number of pixels, 0 or more`);
+  }
+  if (lane.count !== undefined && (!Number.isInteger(lane.count) || (lane.count as number) < 1)) {
+    errors.push(`${label}.count must be a whole number, 1 or more`);
+  }
+
+  return errors;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a value is a finite number greater than zero
+ */
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Level registry for the Antzer game
+ * Holds every playable level in campaign order and resolves levels by id
+ * GameScene receives a level id through its scene data and looks the level up here
+ */
+
+import { LevelConfig } from './level-config';
+import { LEVEL_1_CONFIG } from './level1';
+import { LEVEL_2_CONFIG } from './level2';
+
+/**
+ * All registered levels in play order
+ */
+const levels: LevelConfig[] = [LEVEL_1_CONFIG, LEVEL_2_CONFIG];
+
+/**
+ * Id of the level played when no level id is provided
+ */
+export const DEFAULT_LEVEL_ID = LEVEL_1_CONFIG.id;
+
+/**
+ * Get a registered level by id
+ * @param id - The level id to look up
+ * @returns The level configuration, or undefined if no level has this id
+ */
+export function getLevel(id: string): LevelConfig | undefined {
+  return levels.find(level => level.id === id);
+}
+
+/**
+ * Get all registered levels in play order
+ * @returns Read-only list of level configurations
+ */
+export function getLevels(): readonly LevelConfig[] {
+  return levels;
+}
+
+/**
+ * Get the level that follows the given level in play order
+ * @param id - The id of the current level
+ * @returns The next level configuration, or undefined if this is the last level
+ */
+export function getNextLevel(id: string): LevelConfig | undefined {
+  const index = levels.findIndex(level => level.id === id);
+  return index >= 0 ? levels[index + 1] : undefined;
+}
+
+/**
+ * Register a level, replacing any existing level with the same id
+ * New levels are appended to the end of the play order
+ * @param level - The level configuration to register
+ */
+export function registerLevel(level: LevelConfig): void {
+  const existingIndex = levels.findIndex(existing => existing.id === level.id);
+
+  if (existingIndex >= 0) {
+    levels[existingIndex] = level;
+  } else {
+    levels.push(level);
+  }
+}
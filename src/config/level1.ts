@@ -1,9 +1,11 @@
 /**
  * @fileoverview Level 1 configuration for the Antzer game
- * Contains the level layout, character mappings, and validation functions
+ * Contains the level layout and character mappings, registered in the level registry
  * Uses a grid-based system where each character represents one game cell
  */
 
+import { createLevelConfig, LevelConfig } from './level-config';
+
 /**
  * Level 1 grid definition using character-based mapping
  * Each character represents one grid cell in the game world
@@ -14,6 +16,8 @@
  * - `H` = Ant hill goal (player must reach this)
  * - `C` = Cherry collectible (10 points, on grass)
  * - `K` = Cookie collectible (20 points, on grass)
+ * - `S` = Checkpoint (on grass) - the ant respawns here after losing a life
+ * - `T` = Frog (deadly, starts on grass) - hops one row up or down every few seconds
  * - `R` = Road terrain (safe unless obstacle present)
  * - `P` = Poison obstacle (deadly, appears on road)
  * - `Y` = Spray obstacle (deadly, appears on road)
@@ -52,8 +56,8 @@ export const LEVEL_1 = [
   'GGGCGGGGGGCGGGGG',
   // Row 10 (safe grass with collectibles)
   'GGGCGGGGGGCGGGKG',
-  // Row 11 (safe grass)
-  'GCGGGGGGGGGGGGCG',
+  // Row 11 (safe grass with checkpoint)
+  'GCGGGGGSGGGGGGCG',
   
   // SECTION 2 - Repeat pattern with variations
   // Row 12 (water - logs spawn dynamically moving right)
@@ -74,8 +78,8 @@ export const LEVEL_1 = [
   'GGGCGGGGGGCGGGGG',
   // Row 20 (safe grass with collectibles)
   'GGGCGGGGGGCGGGKG',
-  // Row 21 (safe grass)
-  'GCGGGGGGGGGGGGCG',
+  // Row 21 (safe grass with checkpoint)
+  'GCGGGGGSGGGGGGCG',
   
   // SECTION 3 - More challenging section
   // Row 22 (water - logs spawn dynamically moving right)
@@ -100,8 +104,8 @@ export const LEVEL_1 = [
   'GGGCGGGGGGCGGGGG',
   // Row 32 (safe grass with collectibles)
   'GGGCGGGGGGCGGGKG',
-  // Row 33 (safe grass)
-  'GCGGGGGGGGGGGGCG',
+  // Row 33 (safe grass with checkpoint)
+  'GCGGGGGSGGGGGGCG',
   
   // SECTION 4 - Final challenging section before goal
   // Row 34 (water - logs spawn dynamically moving right)
@@ -136,92 +140,13 @@ export const LEVEL_1 = [
   'GGGCGGAGGGGGGGKG'
 ];
 
-/**
- * Position information for special level elements
- */
-interface LevelPositions {
-  /** Ant starting position */
-  antStart: { row: number; col: number };
-  /** Ant hill goal position */
-  antHill: { row: number; col: number };
-}
-
-/**
- * Find positions of special characters in the level grid
- * Scans the entire level to locate the ant starting position and ant hill
- * 
- * @returns Object containing the row and column positions of special elements
- */
-export function findLevelPositions(): LevelPositions {
-  const positions: LevelPositions = {
-    antStart: { row: -1, col: -1 },
-    antHill: { row: -1, col: -1 }
-  };
-  
-  for (let row = 0; row < LEVEL_1.length; row++) {
-    for (let col = 0; col < LEVEL_1[row].length; col++) {
-      const char = LEVEL_1[row][col];
-      if (char === 'A') {
-        positions.antStart = { row, col };
-      } else if (char === 'H') {
-        positions.antHill = { row, col };
-      }
-    }
-  }
-  
-  return positions;
-}
-
-/**
- * Level configuration object containing computed positions and dimensions
- * Automatically calculated from the level grid definition
- */
-const levelPositions = findLevelPositions();
-
 /**
  * Complete level 1 configuration with all necessary game data
- * Contains positions, dimensions, and metadata for level initialization
- */
-export const LEVEL_1_CONFIG = {
-  /** Row index of ant starting position (0-based from top) */
-  antStartRow: levelPositions.antStart.row,
-  /** Column index of ant starting position (0-based from left) */
-  antStartCol: levelPositions.antStart.col,
-  /** Row index of ant hill goal position (0-based from top) */
-  antHillRow: levelPositions.antHill.row,
-  /** Column index of ant hill goal position (0-based from left) */
-  antHillCol: levelPositions.antHill.col,
-  /** Level width in grid cells */
-  width: LEVEL_1[0]?.length || 16,
-  /** Level height in grid cells */
-  height: LEVEL_1.length
-};
-
-/**
- * Validate the level configuration for consistency and required elements
- * Checks for missing required elements and dimension consistency
- * 
- * @returns Array of error messages, empty if validation passes
+ * Positions and dimensions are automatically calculated from the level grid definition
  */
-export function validateLevel(): string[] {
-  const errors: string[] = [];
-  
-  // Check that ant start position was found
-  if (LEVEL_1_CONFIG.antStartRow === -1 || LEVEL_1_CONFIG.antStartCol === -1) {
-    errors.push("Ant start position 'A' not found in level definition");
-  }
-  
-  // Check that ant hill position was found
-  if (LEVEL_1_CONFIG.antHillRow === -1 || LEVEL_1_CONFIG.antHillCol === -1) {
-    errors.push("Ant hill position 'H' not found in level definition");
-  }
-  
-  // Check level dimensions consistency
-  for (let i = 0; i < LEVEL_1.length; i++) {
-    if (LEVEL_1[i].length !== LEVEL_1_CONFIG.width) {
-      errors.push(`Row ${i} has ${LEVEL_1[i].length} characters, expected ${LEVEL_1_CONFIG.width}`);
-    }
-  }
-  
-  return errors;
-}
\ No newline at end of file
+export const LEVEL_1_CONFIG: LevelConfig = createLevelConfig({
+  id: 'level-1',
+  name: 'Backyard Dash',
+  grid: LEVEL_1,
+  parTimeSeconds: 90
+});
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Level 2 configuration for the Antzer game
+ * Contains the level layout for the second campaign level, registered in the level registry
+ * Uses the same character legend as level 1 (see level1.ts)
+ */
+
+import { createLevelConfig, LevelConfig } from './level-config';
+
+/**
+ * Level 2 grid definition using character-based mapping
+ * Each character represents one grid cell in the game world
+ *
+ * **Level Layout:**
+ * - Rows 0-1: Goal area with ant hill and collectibles
+ * - Rows 2-5: Wide water crossing
+ * - Rows 7-10: Four-lane road
+ * - Rows 12-18: Double water crossing split by a narrow safe strip
+ * - Rows 20-21: Short road before the starting area
+ * - Rows 22-23: Starting area
+ */
+export const LEVEL_2 = [
+  // Row 0 (top - goal area with ant hill)
+  'GGGGGGGGGHGGGGGG',
+  // Row 1 (safe grass with cookies and cherries)
+  'GKGGGCGGGGGCGGKG',
+  // Rows 2-5 (wide water crossing)
+  'WWWWWWWWWWWWWWWW',
+  'WWWWWWWWWWWWWWWW',
+  'WWWWWWWWWWWWWWWW',
+  'WWWWWWWWWWWWWWWW',
+  // Row 6 (safe middle zone)
+  'GGCGGGGGGGGGCGGG',
+  // Rows 7-10 (four-lane road with mixed obstacles)
+  'RRNRRRRNRRRRRNRR',
+  'RYRRRYRRRRYRRRRR',
+  'RRRPRRRRRPRRRRPR',
+  'RNRRRRNRRRRRNRRR',
+  // Row 11 (safe grass with cherries)
+  'GCGGGGGGGGGGGGCG',
+  // Rows 12-14 (first water crossing)
+  'WWWWWWWWWWWWWWWW',
+  'WWWWWWWWWWWWWWWW',
+  'WWWWWWWWWWWWWWWW',
+  // Row 15 (narrow safe strip with cookies)
+  'GGGKGGGGGGGKGGGG',
+  // Rows 16-18 (second water crossing)
+  'WWWWWWWWWWWWWWWW',
+  'WWWWWWWWWWWWWWWW',
+  'WWWWWWWWWWWWWWWW',
+  // Row 19 (safe grass with cherries)
+  'GCGGGGGCGGGGGGCG',
+  // Rows 20-21 (short road)
+  'RPRRRPRRRRPRRRRR',
+  'RRYRRRRYRRRRYRRR',
+  // Row 22 (starting area with cherries)
+  'GGGCGGGGGGCGGGGG',
+  // Row 23 (bottom - ant starting position)
+  'GGGGGGAGGGGGGGCG'
+];
+
+/**
+ * Complete level 2 configuration with all necessary game data
+ * Positions and dimensions are automatically calculated from the level grid definition
+ */
+export const LEVEL_2_CONFIG: LevelConfig = createLevelConfig({
+  id: 'level-2',
+  name: 'Sprinkler Canals',
+  grid: LEVEL_2,
+  parTimeSeconds: 60
+});
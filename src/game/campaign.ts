@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Campaign run state for the Antzer game
+ * Tracks the score and time carried forward as the player advances through the registered levels
+ */
+
+/**
+ * State of a campaign run, passed between scenes as the player advances level by level
+ */
+export interface CampaignRun {
+  /** Score carried forward from completed levels */
+  score: number;
+  /** Play time of completed levels in milliseconds */
+  elapsedMs: number;
+  /** Number of levels completed during this run */
+  levelsCompleted: number;
+}
+
+/**
+ * Create the state for a new campaign run
+ * @returns A campaign run with no completed levels
+ */
+export function createCampaignRun(): CampaignRun {
+  return { score: 0, elapsedMs: 0, levelsCompleted: 0 };
+}
@@ -3,13 +3,12 @@
  * Handles grid-based collision detection, platform interactions, and collectible collection
  */
 
-import Phaser from 'phaser';
-import { GRID_SIZE } from '../config/constants';
 import { GridSystem, GridObjectType, CellType } from './grid-system';
+import { FIXED_STEP_SECONDS } from './fixed-timestep';
+import { canFrogOccupy } from './frog';
+import { getEntityColumns, isFrogEntity, isPlatformEntity, MovingEntity } from './lane-layout';
 import { LevelAnalyzer } from './level-analyzer';
-import { Player } from '../objects/player';
 
-const FRAME_RATE = 60;
 const CHERRY_POINTS = 10;
 const COOKIE_POINTS = 20;
 
@@ -28,51 +27,51 @@ export interface CollisionResult {
   platformMovement?: {
     deltaX: number;
   };
+  checkpoint?: {
+    row: number;
+    col: number;
+  };
 }
 
 /**
  * Collision manager class that handles all collision detection and response logic.
- * 
+ *
  * This class provides:
  * - Grid-based collision detection for player safety
  * - Platform collision detection for water traversal
  * - Collectible collection handling
  * - Win/death condition detection
  * - Dynamic object position updates in the grid system
- * 
+ *
  * The collision manager works closely with the GridSystem to provide
- * accurate, frame-by-frame collision detection for the Frogger-style gameplay.
+ * accurate, step-by-step collision detection for the Frogger-style gameplay.
+ * It works on plain entity and player positions, so it runs without a renderer.
  */
 export class CollisionManager {
   /** Reference to the game's grid system */
   private gridSystem: GridSystem;
-  /** Reference to the platforms physics group */
-  private platforms: Phaser.Physics.Arcade.Group;
   /** Level analyzer for dynamic row type detection */
   private levelAnalyzer: LevelAnalyzer;
 
   /**
    * Creates a new CollisionManager instance
    * @param gridSystem - The grid system to use for collision detection
-   * @param platforms - The physics group containing platform objects
+   * @param levelAnalyzer - Analyzer for every row in the grid system
    */
-  constructor(gridSystem: GridSystem, platforms: Phaser.Physics.Arcade.Group) {
+  constructor(gridSystem: GridSystem, levelAnalyzer: LevelAnalyzer) {
     this.gridSystem = gridSystem;
-    this.platforms = platforms;
-    this.levelAnalyzer = new LevelAnalyzer();
+    this.levelAnalyzer = levelAnalyzer;
   }
 
   /**
-   * Performs comprehensive collision detection for the player
-   * @param player - The player object to check collisions for
+   * Performs comprehensive collision detection for a living player
+   * @param x - World x position of the player
+   * @param y - World y position of the player
+   * @param entities - Every moving platform and obstacle
    * @returns CollisionResult containing information about any collisions detected
    */
-  public checkPlayerCollision(player: Player): CollisionResult {
-    if (player.isPlayerDead()) {
-      return { isDead: false, isWin: false };
-    }
-
-    const { row, col } = this.gridSystem.getPlayerGridPosition(player.x, player.y);
+  public checkPlayerCollision(x: number, y: number, entities: readonly MovingEntity[]): CollisionResult {
+    const { row, col } = this.gridSystem.getPlayerGridPosition(x, y);
     const cell = this.gridSystem.getCell(row, col);
 
     if (!cell) {
@@ -81,14 +80,15 @@ export class CollisionManager {
 
     // Handle collectibles
     if (cell.object === GridObjectType.CHERRY || cell.object === GridObjectType.COOKIE) {
-      const points = cell.object === GridObjectType.CHERRY ? CHERRY_POINTS : COOKIE_POINTS;
+      const type = cell.object;
+      const points = type === GridObjectType.CHERRY ? CHERRY_POINTS : COOKIE_POINTS;
       this.gridSystem.setCell(row, col, GridObjectType.NONE); // Remove collectible
-      
+
       return {
         isDead: false,
         isWin: false,
         collectible: {
-          type: cell.object,
+          type,
           points,
           row,
           col
@@ -96,6 +96,11 @@ export class CollisionManager {
       };
     }
 
+    // Handle checkpoints (always on grass, so always safe)
+    if (cell.object === GridObjectType.CHECKPOINT) {
+      return { isDead: false, isWin: false, checkpoint: { row, col } };
+    }
+
     // Handle ant hill (win condition)
     if (cell.object === GridObjectType.ANT_HILL) {
       return { isDead: false, isWin: true };
@@ -103,7 +108,7 @@ export class CollisionManager {
 
     // Special handling for water - check if player is on a platform
     if (cell.type === CellType.WATER) {
-      const platformResult = this.checkPlatformCollision(row, col);
+      const platformResult = this.checkPlatformCollision(row, col, entities);
       if (platformResult.isOnPlatform) {
         return {
           isDead: false,
@@ -123,12 +128,14 @@ export class CollisionManager {
 
   /**
    * Updates the positions of obstacle objects in the grid system.
-   * Clears old positions and sets new positions based on current sprite locations.
-   * @param obstacles - The physics group containing obstacle objects
+   * Clears old positions and sets new positions based on current entity locations.
+   * Frogs are tracked in whichever row they are on, grass or road.
+   * @param entities - Every moving platform and obstacle
    */
-  public updateObstaclePositions(obstacles: Phaser.Physics.Arcade.Group): void {
+  public updateObstaclePositions(entities: readonly MovingEntity[]): void {
     const roadRows = this.levelAnalyzer.getRoadRows();
-    
+    const frogs = entities.filter(isFrogEntity);
+
     // Clear all obstacles from road rows
     roadRows.forEach(rowInfo => {
       this.gridSystem.clearObjectsInRow(rowInfo.index, [
@@ -138,26 +145,26 @@ export class CollisionManager {
       ]);
     });
 
-    // Re-add obstacles based on current sprite positions
-    obstacles.getChildren().forEach((obstacle) => {
-      const obstacleSprite = obstacle as any;
-      const row = Math.floor(obstacleSprite.y / GRID_SIZE);
-      const col = Math.floor(obstacleSprite.x / GRID_SIZE);
-
-      if (this.levelAnalyzer.isRoadRow(row) && col >= 0 && col < this.gridSystem.getGridWidth()) {
-        // Determine actual obstacle type based on texture
-        let objectType = GridObjectType.POISON; // Default
-
-        if (obstacleSprite.texture && obstacleSprite.texture.key) {
-          switch (obstacleSprite.texture.key) {
-            case 'poison': objectType = GridObjectType.POISON; break;
-            case 'spray': objectType = GridObjectType.SPRAY; break;
-            case 'nail': objectType = GridObjectType.NAIL; break;
-            default: objectType = GridObjectType.POISON; break;
-          }
-        }
+    // Frogs hop one row at a time, so the cell a frog left is in its row or a neighbouring one
+    new Set(frogs.flatMap(frog => [frog.row - 1, frog.row, frog.row + 1])).forEach(row => {
+      this.gridSystem.clearObjectsInRow(row, [GridObjectType.FROG]);
+    });
+
+    // Re-add obstacles based on current entity positions
+    entities.filter(entity => !isPlatformEntity(entity) && !isFrogEntity(entity)).forEach(entity => {
+      const { leftCol: col } = getEntityColumns(entity, entity.x);
+
+      if (this.levelAnalyzer.isRoadRow(entity.row) && col >= 0 && col < this.gridSystem.getGridWidth()) {
+        this.gridSystem.setCell(entity.row, col, entity.objectType);
+      }
+    });
 
-        this.gridSystem.setCell(row, col, objectType);
+    // Frogs go in last, so an obstacle passing under a frog never hides it
+    frogs.forEach(frog => {
+      const { leftCol: col } = getEntityColumns(frog, frog.x);
+
+      if (canFrogOccupy(this.gridSystem.getCell(frog.row, col))) {
+        this.gridSystem.setCell(frog.row, col, GridObjectType.FROG);
       }
     });
   }
@@ -165,30 +172,28 @@ export class CollisionManager {
   /**
    * Updates the positions of platform objects in the grid system.
    * Handles the dynamic positioning of logs and leaves in water areas.
+   * @param entities - Every moving platform and obstacle
    */
-  public updatePlatformPositions(): void {
+  public updatePlatformPositions(entities: readonly MovingEntity[]): void {
     const waterRows = this.levelAnalyzer.getWaterRows();
-    
+    const platforms = entities.filter(isPlatformEntity);
+
     // Update platform positions in grid for water rows
     waterRows.forEach(rowInfo => {
       // Clear old platform positions
       this.gridSystem.clearObjectsInRow(rowInfo.index, [GridObjectType.LOG, GridObjectType.LEAF]);
 
-      // Add platforms based on current sprite positions
-      this.platforms.getChildren().forEach((platform) => {
-        const platformSprite = platform as Phaser.Physics.Arcade.Sprite;
-        const platformRow = Math.floor(platformSprite.y / GRID_SIZE);
-
-        if (platformRow === rowInfo.index) {
-          const platformType = rowInfo.index % 2 === 0 ? GridObjectType.LOG : GridObjectType.LEAF;
-          
-          // Platform spans multiple columns
-          const leftCol = Math.max(0, Math.floor((platformSprite.x - platformSprite.displayWidth / 2) / GRID_SIZE));
-          const rightCol = Math.min(this.gridSystem.getGridWidth() - 1, Math.floor((platformSprite.x + platformSprite.displayWidth / 2) / GRID_SIZE));
-
-          for (let col = leftCol; col <= rightCol; col++) {
-            this.gridSystem.setCell(platformRow, col, platformType);
-          }
+      // Add platforms based on current entity positions
+      platforms.filter(platform => platform.row === rowInfo.index).forEach(platform => {
+        const platformType = rowInfo.platformType === 'log' ? GridObjectType.LOG : GridObjectType.LEAF;
+
+        // Platform spans multiple columns
+        const { leftCol, rightCol } = getEntityColumns(platform, platform.x);
+        const firstCol = Math.max(0, leftCol);
+        const lastCol = Math.min(this.gridSystem.getGridWidth() - 1, rightCol);
+
+        for (let col = firstCol; col <= lastCol; col++) {
+          this.gridSystem.setCell(rowInfo.index, col, platformType);
         }
       });
     });
@@ -198,29 +203,28 @@ export class CollisionManager {
    * Checks if the player is currently on a platform and calculates movement
    * @param row - The grid row to check
    * @param col - The grid column to check
+   * @param entities - Every moving platform and obstacle
    * @returns Object containing platform collision information
    * @private
    */
-  private checkPlatformCollision(row: number, col: number): { isOnPlatform: boolean; deltaX: number } {
+  private checkPlatformCollision(
+    row: number,
+    col: number,
+    entities: readonly MovingEntity[]
+  ): { isOnPlatform: boolean; deltaX: number } {
     let isOnPlatform = false;
     let deltaX = 0;
 
-    this.platforms.getChildren().forEach((platform) => {
-      const platformSprite = platform as Phaser.Physics.Arcade.Sprite;
-      const platformRow = Math.floor(platformSprite.y / GRID_SIZE);
-
+    entities.filter(isPlatformEntity).forEach(platform => {
       // Check if platform overlaps with player's grid position
-      if (platformRow === row) {
+      if (platform.row === row) {
         // Platform spans multiple columns, check if player is within platform width
-        const platformLeftCol = Math.floor((platformSprite.x - platformSprite.displayWidth / 2) / GRID_SIZE);
-        const platformRightCol = Math.floor((platformSprite.x + platformSprite.displayWidth / 2) / GRID_SIZE);
+        const { leftCol, rightCol } = getEntityColumns(platform, platform.x);
 
-        if (col >= platformLeftCol && col <= platformRightCol) {
+        if (col >= leftCol && col <= rightCol) {
           isOnPlatform = true;
-          // Calculate platform movement
-          if (platformSprite.body && platformSprite.body.velocity) {
-            deltaX = platformSprite.body.velocity.x / FRAME_RATE;
-          }
+          // Calculate platform movement over one gameplay step
+          deltaX = platform.velocity * FIXED_STEP_SECONDS;
         }
       }
     });
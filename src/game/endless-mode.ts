@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Endless mode scenery for the Antzer game
+ * Draws the sections an endless run adds above the player, clears away the rows it recycles
+ * below them, and shows the rising flood
+ */
+
+import Phaser from 'phaser';
+import { GAME_HEIGHT, GRID_SIZE } from '../config/constants';
+import { LevelConfig } from '../config/level-config';
+import { GridSystem } from './grid-system';
+import { MovingEntity } from './lane-layout';
+import { LevelBuilder } from './level-builder';
+
+const FLOOD_COLOR = 0x1e5aa8;
+const FLOOD_ALPHA = 0.75;
+/** Above moving objects, below the UI */
+const FLOOD_DEPTH = 300;
+
+/**
+ * Groups that sections add their objects to
+ */
+export interface EndlessGroups {
+  obstacles: Phaser.GameObjects.Group;
+  collectibles: Phaser.Physics.Arcade.Group;
+  platforms: Phaser.GameObjects.Group;
+}
+
+/**
+ * Endless mode controller that keeps the scene in step with an endless run.
+ *
+ * This class provides:
+ * - Background tiles, collectibles, and lane sprites for every section the run adds
+ * - Removal of the tiles and sprites on rows the run recycles
+ * - The flood overlay, drawn from the run's flood line down
+ * - Camera bounds that follow the rows currently in the grid
+ *
+ * The rules of the run (sections, recycling, and the flood) live in EndlessRun.
+ */
+export class EndlessController {
+  /** Reference to the Phaser scene */
+  private scene: Phaser.Scene;
+  /** Grid system the run adds sections to */
+  private gridSystem: GridSystem;
+  /** Groups that sections add their objects to */
+  private groups: EndlessGroups;
+  /** Background tiles of every section still in the grid */
+  private backgroundTiles: Phaser.GameObjects.Image[] = [];
+  /** Flood overlay drawn from the flood line down */
+  private flood!: Phaser.GameObjects.Rectangle;
+
+  /**
+   * Creates a new EndlessController instance
+   * @param scene - The Phaser scene the level is drawn in
+   * @param gridSystem - Grid system of the run
+   * @param groups - Groups that sections add their objects to
+   */
+  constructor(scene: Phaser.Scene, gridSystem: GridSystem, groups: EndlessGroups) {
+    this.scene = scene;
+    this.gridSystem = gridSystem;
+    this.groups = groups;
+  }
+
+  /**
+   * Creates the flood
+   * @param startTiles - Background tiles of the starting level, recycled along with its rows
+   * @param floodY - World y position of the flood line
+   */
+  public create(startTiles: Phaser.GameObjects.Image[], floodY: number): void {
+    this.backgroundTiles.push(...startTiles);
+    this.flood = this.scene.add.rectangle(0, floodY, this.scene.cameras.main.width, GAME_HEIGHT, FLOOD_COLOR, FLOOD_ALPHA)
+      .setOrigin(0, 0)
+      .setDepth(FLOOD_DEPTH);
+  }
+
+  /**
+   * Moves the flood overlay to the flood line
+   * @param floodY - World y position of the flood line
+   */
+  public setFloodY(floodY: number): void {
+    this.flood.setY(floodY);
+  }
+
+  /**
+   * Draws a section the run has added
+   * @param section - The section's level configuration
+   * @param firstRow - Grid row of the section's top row
+   * @param entities - The section's moving platforms and obstacles
+   */
+  public addSection(section: LevelConfig, firstRow: number, entities: readonly MovingEntity[]): void {
+    const levelBuilder = new LevelBuilder(this.scene, this.gridSystem, section, firstRow);
+    this.backgroundTiles.push(...levelBuilder.createBackground());
+    levelBuilder.createStaticObjects(this.groups.collectibles);
+    levelBuilder.createLaneObjects(entities, this.groups.obstacles, this.groups.platforms);
+
+    this.updateCameraBounds();
+  }
+
+  /**
+   * Removes the tiles and sprites on every row the run has recycled
+   * @param lowestKeptRow - The lowest row still in the grid
+   */
+  public recycleRows(lowestKeptRow: number): void {
+    const recycledY = (lowestKeptRow + 1) * GRID_SIZE;
+    const isRecycled = (object: Phaser.GameObjects.GameObject) =>
+      (object as Phaser.GameObjects.Sprite).y >= recycledY;
+
+    [this.groups.obstacles, this.groups.collectibles, this.groups.platforms].forEach(group => {
+      group.getChildren().filter(isRecycled).forEach(child => {
+        this.scene.tweens.killTweensOf(child);
+        child.destroy();
+      });
+    });
+
+    this.backgroundTiles = this.backgroundTiles.filter(tile => {
+      if (isRecycled(tile)) {
+        tile.destroy();
+        return false;
+      }
+      return true;
+    });
+
+    this.updateCameraBounds();
+  }
+
+  /**
+   * Fits the camera bounds to the rows currently in the grid
+   * @private
+   */
+  private updateCameraBounds(): void {
+    const camera = this.scene.cameras.main;
+
+    camera.setBounds(
+      0,
+      this.gridSystem.getTopRow() * GRID_SIZE,
+      camera.width,
+      this.gridSystem.getGridHeight() * GRID_SIZE
+    );
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Endless mode rules for the Antzer game
+ * Keeps generating level sections above the player as they climb, recycles rows far below them,
+ * and raises a flood from the bottom of the level that forces the player to keep moving up
+ */
+
+import { GAME_HEIGHT, GRID_SIZE } from '../config/constants';
+import { createLevelConfig, LevelConfig } from '../config/level-config';
+import { SeededRandom } from '../utils/seeded-random';
+import { GridSystem } from './grid-system';
+import { LevelAnalyzer } from './level-analyzer';
+import { generateSection } from './level-generator';
+
+/** Points awarded for each new row climbed */
+export const POINTS_PER_ROW = 10;
+
+/** Rows of level kept generated above the highest row the player has reached */
+const GENERATE_AHEAD_ROWS = 24;
+/** Rows kept below the flood line, enough that the camera never shows past the bottom of the grid */
+const RECYCLE_MARGIN_ROWS = Math.ceil(GAME_HEIGHT / GRID_SIZE);
+
+/** Section difficulty at the start of a run */
+const START_DIFFICULTY = 0.1;
+/** Rows climbed before sections reach full difficulty */
+const DIFFICULTY_RAMP_ROWS = 150;
+
+/** Flood speed in pixels per second when the run starts */
+const FLOOD_START_SPEED = 8;
+/** Flood speed gained per second of play */
+const FLOOD_ACCELERATION = 0.1;
+const FLOOD_MAX_SPEED = 40;
+/** Rows the flood may fall behind the highest row reached before it catches up */
+const FLOOD_MAX_LAG_ROWS = 8;
+/** Rows the flood drops below a respawning ant */
+const FLOOD_RESPAWN_ROWS = 2;
+
+/**
+ * Grass rows the run starts on, with the ant near the bottom
+ */
+const START_ROWS = [
+  'GGGGGGGGGGGGGGGG',
+  'GGGGCGGGGGGGCGGG',
+  'GGGGGGGGGGGGGGGG',
+  'GGGGGGGAGGGGGGGG',
+  'GGGGGGGGGGGGGGGG'
+];
+
+/**
+ * Callbacks told when an endless run changes the rows of the grid
+ */
+export interface EndlessRunCallbacks {
+  /** Called after a section has been added to the grid and the row analysis */
+  onSectionAdded: (section: LevelConfig, firstRow: number) => void;
+  /** Called after every row below `lowestKeptRow` has been removed */
+  onRowsRecycled: (lowestKeptRow: number) => void;
+}
+
+/**
+ * Create the level an endless run starts on
+ * Generated sections are added above it as the run goes on
+ */
+export function createEndlessLevel(): LevelConfig {
+  return createLevelConfig({
+    id: 'endless',
+    name: 'Endless',
+    grid: START_ROWS
+  });
+}
+
+/**
+ * Endless run class that grows and shrinks the level around the player.
+ *
+ * This class provides:
+ * - Generation of new sections above the player, harder the higher they climb
+ * - Recycling of rows (grid cells and row analysis) below the flood
+ * - A flood that rises from the bottom, speeds up over time, and never falls far behind
+ * - Tracking of the distance climbed for scoring
+ *
+ * Rows above the starting level have negative indices, so the grid can grow without bound.
+ */
+export class EndlessRun {
+  /** Grid system the sections are added to */
+  private gridSystem: GridSystem;
+  /** Analyzer shared with the collision manager, kept in step with the grid */
+  private levelAnalyzer: LevelAnalyzer;
+  /** Random number generator every section is built from */
+  private random: SeededRandom;
+  /** Callbacks told about added and recycled rows */
+  private callbacks: EndlessRunCallbacks;
+
+  /** Row the player started on */
+  private startRow: number;
+  /** Highest (smallest) row the player has reached */
+  private highestRow: number;
+  /** World y position of the flood line */
+  private floodY: number;
+  /** Time since the run started in milliseconds */
+  private elapsedMs: number = 0;
+  /** Number of sections generated so far */
+  private sectionCount: number = 0;
+
+  /**
+   * Creates a new EndlessRun instance
+   * @param gridSystem - Grid system holding the starting level
+   * @param levelAnalyzer - Analyzer for the starting level, shared with the collision manager
+   * @param startRow - Row the player starts on
+   * @param random - Gameplay stream the sections are generated from
+   * @param callbacks - Callbacks told about added and recycled rows
+   */
+  constructor(
+    gridSystem: GridSystem,
+    levelAnalyzer: LevelAnalyzer,
+    startRow: number,
+    random: SeededRandom,
+    callbacks: EndlessRunCallbacks
+  ) {
+    this.gridSystem = gridSystem;
+    this.levelAnalyzer = levelAnalyzer;
+    this.random = random;
+    this.callbacks = callbacks;
+    this.startRow = startRow;
+    this.highestRow = startRow;
+    this.floodY = (gridSystem.getBottomRow() + 1) * GRID_SIZE;
+  }
+
+  /**
+   * Raises the flood, generates sections ahead of the player, and recycles rows below the flood
+   * @param deltaMs - Time since the last update in milliseconds
+   */
+  public update(deltaMs: number): void {
+    this.elapsedMs += deltaMs;
+
+    this.raiseFlood(deltaMs);
+    this.generateAhead();
+    this.recycleRows();
+  }
+
+  /**
+   * Adds sections above the grid until it reaches far enough above the player
+   */
+  public generateAhead(): void {
+    while (this.gridSystem.getTopRow() > this.highestRow - GENERATE_AHEAD_ROWS) {
+      const rowsClimbed = this.getRowsClimbed();
+      const difficulty = START_DIFFICULTY + (1 - START_DIFFICULTY) * Math.min(1, rowsClimbed / DIFFICULTY_RAMP_ROWS);
+      const section = generateSection(this.random, difficulty, `endless-${this.sectionCount++}`);
+      const firstRow = this.gridSystem.getTopRow() - section.height;
+
+      this.gridSystem.addRows(firstRow, section.grid);
+      this.levelAnalyzer.appendLevel(section, firstRow);
+      this.callbacks.onSectionAdded(section, firstRow);
+    }
+  }
+
+  /**
+   * Records the row the player is on
+   * @param row - The player's current row
+   * @returns Number of rows climbed above the previous highest row
+   */
+  public recordPlayerRow(row: number): number {
+    const climbed = Math.max(0, this.highestRow - row);
+    this.highestRow = Math.min(this.highestRow, row);
+    return climbed;
+  }
+
+  /**
+   * Gets the number of rows climbed from the start of the run
+   */
+  public getRowsClimbed(): number {
+    return this.startRow - this.highestRow;
+  }
+
+  /**
+   * Gets the world y position of the flood line
+   */
+  public getFloodY(): number {
+    return this.floodY;
+  }
+
+  /**
+   * Checks whether a world position is under the flood
+   * @param y - World y position to check
+   * @returns True if the flood has reached the position
+   */
+  public isFlooded(y: number): boolean {
+    return y >= this.floodY;
+  }
+
+  /**
+   * Lowers the flood below a row, so a respawning ant isn't caught again straight away
+   * @param row - The row the ant respawns on
+   */
+  public recedeFlood(row: number): void {
+    this.floodY = Math.max(this.floodY, (row + FLOOD_RESPAWN_ROWS) * GRID_SIZE);
+  }
+
+  /**
+   * Moves the flood line up at a speed that grows over time
+   * @param deltaMs - Time since the last update in milliseconds
+   * @private
+   */
+  private raiseFlood(deltaMs: number): void {
+    const speed = Math.min(FLOOD_MAX_SPEED, FLOOD_START_SPEED + FLOOD_ACCELERATION * this.elapsedMs / 1000);
+    this.floodY -= speed * deltaMs / 1000;
+
+    // Catch up with a player who has climbed far ahead, so they can never rest for long
+    this.floodY = Math.min(this.floodY, (this.highestRow + FLOOD_MAX_LAG_ROWS) * GRID_SIZE);
+  }
+
+  /**
+   * Removes every row far enough below the flood that it can no longer be seen
+   * @private
+   */
+  private recycleRows(): void {
+    const lowestKeptRow = Math.floor(this.floodY / GRID_SIZE) + RECYCLE_MARGIN_ROWS;
+    if (lowestKeptRow >= this.gridSystem.getBottomRow()) return;
+
+    this.gridSystem.removeRowsBelow(lowestKeptRow);
+    this.levelAnalyzer.removeRowsBelow(lowestKeptRow);
+    this.callbacks.onRowsRecycled(lowestKeptRow);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Fixed-step game clock
+ * Turns the real time between rendered frames into a whole number of equal gameplay steps,
+ * so the game plays the same at any display refresh rate
+ */
+
+/** Length of a gameplay step in milliseconds */
+export const FIXED_STEP_MS = 1000 / 60;
+
+/** Length of a gameplay step in seconds, for converting velocities to movement per step */
+export const FIXED_STEP_SECONDS = FIXED_STEP_MS / 1000;
+
+/** Most steps run for a single rendered frame, so a long stall doesn't freeze the game catching up */
+const MAX_STEPS_PER_FRAME = 8;
+
+/**
+ * Fixed timestep class that accumulates real time and hands it out as gameplay steps.
+ *
+ * Time left over after the last whole step is carried into the next frame, and tells
+ * the renderer how far the next step has got so it can draw between steps.
+ */
+export class FixedTimestep {
+  /** Real time not yet used up by a step */
+  private accumulatorMs: number = 0;
+
+  /**
+   * Adds the real time since the last frame
+   * @param deltaMs - Milliseconds since the last rendered frame
+   * @returns Number of steps to run this frame
+   */
+  public advance(deltaMs: number): number {
+    this.accumulatorMs += deltaMs;
+
+    let steps = Math.floor(this.accumulatorMs / FIXED_STEP_MS);
+    if (steps > MAX_STEPS_PER_FRAME) {
+      // Drop the time that can't be caught up on rather than running ever more steps; level times
+      // count steps, so they leave it out too
+      steps = MAX_STEPS_PER_FRAME;
+      this.accumulatorMs = 0;
+    } else {
+      this.accumulatorMs -= steps * FIXED_STEP_MS;
+    }
+    return steps;
+  }
+
+  /**
+   * Gets how far the real time has got into the next step
+   * @returns Fraction from 0 (just after a step) to 1 (just before the next)
+   */
+  public getAlpha(): number {
+    return this.accumulatorMs / FIXED_STEP_MS;
+  }
+
+  /**
+   * Forgets any time carried over, such as when stepping a paused replay by hand
+   */
+  public reset(): void {
+    this.accumulatorMs = 0;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Frog enemies that hop between rows
+ * Frogs sit in grid cells and hop one row up or down at a time on a fixed timer, crouching for
+ * a moment before each hop so the player can see it coming. Nothing here depends on Phaser, so
+ * the game simulation moves frogs in its steps and the obstacle sprites only draw them.
+ */
+
+import { Direction, GRID_SIZE } from '../config/constants';
+import { FIXED_STEP_MS } from './fixed-timestep';
+import { CellType, GridCell, GridObjectType, GridSystem } from './grid-system';
+import { MovingEntity } from './lane-layout';
+
+/** Time between a frog landing and its next hop, including the telegraph */
+export const FROG_HOP_INTERVAL_MS = 2400;
+/** How long a frog crouches before each hop, warning that it is about to jump */
+export const FROG_TELEGRAPH_MS = 600;
+/** Time a hop takes from leaving one cell to landing in the next */
+const FROG_HOP_DURATION_MS = 200;
+/** Extra wait before the first hop, per column, so frogs side by side don't hop together */
+const FROG_STAGGER_MS = 400;
+/** Number of columns the stagger repeats over */
+const FROG_STAGGER_COLUMNS = 3;
+
+/** Objects a frog may sit on: nothing, another frog, or an obstacle passing along a road */
+const FROG_COVERABLE_OBJECTS: readonly GridObjectType[] = [
+  GridObjectType.NONE,
+  GridObjectType.FROG,
+  GridObjectType.POISON,
+  GridObjectType.SPRAY,
+  GridObjectType.NAIL
+];
+
+/**
+ * State of a frog during a run
+ * Mid-hop, a frog still counts as in the cell it hopped from, the same as the ant
+ */
+export interface FrogState {
+  /** Direction the frog hops in next, UP or DOWN */
+  facing: Direction;
+  /** Steps left before the frog leaves its cell */
+  stepsUntilHop: number;
+  /** Row the frog is about to hop to, from the start of its telegraph until it lands */
+  targetRow?: number;
+  /** Steps the current hop has taken, while the frog is in the air */
+  hopSteps?: number;
+}
+
+/**
+ * Create the state of a frog that has just been placed
+ * Frogs in even columns set off up the level and frogs in odd columns down it
+ * @param col - Grid column the frog sits in
+ */
+export function createFrogState(col: number): FrogState {
+  const staggerMs = (col % FROG_STAGGER_COLUMNS) * FROG_STAGGER_MS;
+
+  return {
+    facing: col % 2 === 0 ? Direction.UP : Direction.DOWN,
+    stepsUntilHop: Math.round((FROG_HOP_INTERVAL_MS + staggerMs) / FIXED_STEP_MS)
+  };
+}
+
+/**
+ * Check whether a frog may sit in a cell
+ * Frogs stay out of water and never cover collectibles, checkpoints, or the ant hill
+ */
+export function canFrogOccupy(cell: GridCell | null): boolean {
+  return cell !== null && cell.type !== CellType.WATER && FROG_COVERABLE_OBJECTS.includes(cell.object);
+}
+
+/**
+ * Advance a frog by one gameplay step
+ * When the telegraph starts the frog picks the next row in the direction it faces, turning
+ * around when that row is blocked; a frog blocked both ways sits out a whole interval.
+ * The frog's row changes only when it lands.
+ *
+ * @param entity - The frog to move
+ * @param frog - The frog's state
+ * @param gridSystem - The grid the frog hops on
+ */
+export function stepFrog(entity: MovingEntity, frog: FrogState, gridSystem: GridSystem): void {
+  if (frog.hopSteps !== undefined) {
+    frog.hopSteps++;
+    if (frog.hopSteps < getHopSteps()) return;
+
+    entity.row = frog.targetRow!;
+    frog.targetRow = undefined;
+    frog.hopSteps = undefined;
+    frog.stepsUntilHop = Math.round(FROG_HOP_INTERVAL_MS / FIXED_STEP_MS);
+    return;
+  }
+
+  frog.stepsUntilHop--;
+  const col = Math.floor(entity.x / GRID_SIZE);
+
+  if (frog.stepsUntilHop === Math.round(FROG_TELEGRAPH_MS / FIXED_STEP_MS)) {
+    frog.targetRow = chooseTargetRow(entity.row, col, frog, gridSystem);
+    if (frog.targetRow === undefined) {
+      frog.stepsUntilHop = Math.round(FROG_HOP_INTERVAL_MS / FIXED_STEP_MS);
+    }
+    return;
+  }
+  if (frog.stepsUntilHop > 0 || frog.targetRow === undefined) return;
+
+  // A collectible can come back into the target cell while the frog crouches
+  if (!canFrogOccupy(gridSystem.getCell(frog.targetRow, col))) {
+    frog.targetRow = undefined;
+    frog.stepsUntilHop = Math.round(FROG_HOP_INTERVAL_MS / FIXED_STEP_MS);
+    return;
+  }
+  frog.hopSteps = 0;
+}
+
+/**
+ * Check whether a frog is crouching before a hop
+ */
+export function isFrogTelegraphing(frog: FrogState): boolean {
+  return frog.targetRow !== undefined && frog.hopSteps === undefined;
+}
+
+/**
+ * Get how far a frog has got along its hop
+ * @returns Progress from 0 when the hop starts to 1 when it lands, or undefined if the frog isn't hopping
+ */
+export function getFrogHopProgress(frog: FrogState): number | undefined {
+  if (frog.hopSteps === undefined) return undefined;
+
+  return Math.min(frog.hopSteps / getHopSteps(), 1);
+}
+
+/**
+ * Get where to draw a frog vertically: the middle of its row, plus how far it has got along a hop
+ */
+export function getFrogDrawY(entity: MovingEntity, frog: FrogState): number {
+  const progress = getFrogHopProgress(frog) ?? 0;
+  const row = entity.row + ((frog.targetRow ?? entity.row) - entity.row) * progress;
+
+  return row * GRID_SIZE + GRID_SIZE / 2;
+}
+
+/**
+ * Pick the row a frog hops to, turning it around if the row it faces is blocked
+ * @returns The target row, or undefined if both neighbouring rows are blocked
+ */
+function chooseTargetRow(row: number, col: number, frog: FrogState, gridSystem: GridSystem): number | undefined {
+  for (const facing of [frog.facing, getOpposite(frog.facing)]) {
+    const targetRow = facing === Direction.UP ? row - 1 : row + 1;
+    if (canFrogOccupy(gridSystem.getCell(targetRow, col))) {
+      frog.facing = facing;
+      return targetRow;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the other direction a frog can face
+ */
+function getOpposite(facing: Direction): Direction {
+  return facing === Direction.UP ? Direction.DOWN : Direction.UP;
+}
+
+/**
+ * Get the number of steps a hop takes
+ */
+function getHopSteps(): number {
+  return Math.round(FROG_HOP_DURATION_MS / FIXED_STEP_MS);
+}
@@ -4,8 +4,11 @@
  */
 
 import Phaser from 'phaser';
-import { SceneKeys, AudioKeys, GRID_SIZE } from '../config/constants';
+import { SceneKeys, AudioKeys, GRID_SIZE, DEFAULT_LIVES } from '../config/constants';
+import { TouchControls } from './input-manager';
+import { MobileControls, TouchButtonSize, TouchLayout } from './mobile-controls';
 import { AudioManager } from '../utils/audio-manager';
+import { formatElapsedTime } from '../utils/time-format';
 
 const UI_MARGIN = 20;
 const UI_FONT_SIZE = '24px';
@@ -13,6 +16,9 @@ const UI_FONT_FAMILY = 'Arial';
 const UI_TEXT_COLOR = '#ffffff';
 const UI_SHADOW_OFFSET = 2;
 const UI_SHADOW_COLOR = '#000000';
+const UI_LINE_HEIGHT = 32;
+/** Keeps the score, timer, and pause and exit buttons above the endless mode flood */
+const UI_DEPTH = 1000;
 
 const BUTTON_FONT_SIZE = '18px';
 const BUTTON_BACKGROUND_COLOR = '#000000';
@@ -23,21 +29,70 @@ const INSTRUCTIONS_BACKGROUND = 'rgba(0,0,0,0.5)';
 const INSTRUCTIONS_PADDING = { x: 15, y: 10 };
 const INSTRUCTIONS_DISPLAY_TIME = 2000;
 const INSTRUCTIONS_DEPTH = 2000;
+const DEFAULT_INSTRUCTIONS = 'Reach the ant hill at the top!';
+const DEFAULT_MOVE_KEYS = 'ARROW KEYS';
+const SWIPE_INSTRUCTIONS = 'Swipe to move the ant, or tap to hop forward';
+
+const BANNER_FONT_SIZE = '32px';
+const BANNER_TEXT_COLOR = '#ffd700';
+const BANNER_BACKGROUND = 'rgba(0,0,0,0.6)';
+const BANNER_PADDING = { x: 20, y: 10 };
+const BANNER_DISPLAY_TIME = 1500;
+const BANNER_FADE_TIME = 400;
+
+const SPLIT_FONT_SIZE = '20px';
+const SPLIT_AHEAD_COLOR = '#44ff44';
+const SPLIT_BEHIND_COLOR = '#ff4444';
+const SPLIT_DISPLAY_TIME = 3000;
 
 const MOBILE_DETECTION_WIDTH_THRESHOLD = 800;
 
+/**
+ * Options for creating the game UI
+ */
+export interface GameUIOptions {
+  /** Instruction text shown when the game starts, below how to move */
+  instructions?: string;
+  /** Keys that move the ant, named in the instructions */
+  moveKeys?: string;
+  /** Touch controls shown on touch devices (defaults to the direction buttons) */
+  touchControls?: TouchControls;
+  /** Where the direction buttons sit on touch devices */
+  touchLayout?: TouchLayout;
+  /** How big the direction buttons are on touch devices */
+  touchButtonSize?: TouchButtonSize;
+  /** Called when the HUD pause button is pressed */
+  onPause?: () => void;
+  /** True while a replay is shown, which has its own controls instead of the instructions, buttons, and mobile controls */
+  replay?: boolean;
+}
+
+/**
+ * Callbacks the mobile control buttons call, one for each direction
+ */
+export interface MobileControlCallbacks {
+  up: () => void;
+  down: () => void;
+  left: () => void;
+  right: () => void;
+}
+
 /**
  * Game UI class responsible for managing all user interface elements.
  * 
  * This class provides:
- * - Score and timer display with real-time updates
+ * - Score, lives, and timer display with real-time updates
+ * - Banner messages such as "checkpoint reached"
+ * - Ghost racer splits, ahead of or behind the best run
  * - Mobile control buttons for touch devices
  * - Game instructions and help text
- * - Exit button functionality
+ * - Pause and exit button functionality
  * - Collectible sprite management
  * 
  * The UI system automatically detects mobile devices and shows appropriate
- * controls while maintaining consistent styling across all elements.
+ * controls while maintaining consistent styling across all elements. The mobile
+ * controls live outside the canvas, so they are hidden while the scene is paused
+ * and removed when it shuts down.
  */
 export class GameUI {
   /** Reference to the Phaser scene */
@@ -48,33 +103,64 @@ export class GameUI {
   private scoreText!: Phaser.GameObjects.Text;
   /** Text object displaying the elapsed time */
   private timeText!: Phaser.GameObjects.Text;
-  /** Timestamp when the game started */
-  private startTime: number;
+  /** Text object displaying the lives left */
+  private livesText!: Phaser.GameObjects.Text;
+  /** Banner currently on screen, if any */
+  private banner?: Phaser.GameObjects.Text;
+  /** Ghost racer split currently on screen, if any */
+  private split?: Phaser.GameObjects.Text;
   /** Current game score */
   private score: number = 0;
+  /** Lives the player has left */
+  private lives: number;
 
-  /** HTML mobile control container */
-  private mobileControlsContainer?: HTMLElement;
+  /** HTML mobile control buttons */
+  private mobileControls?: MobileControls;
+  /** Callbacks the mobile control buttons ask for moves through */
+  private mobileControlCallbacks?: MobileControlCallbacks;
 
   /**
    * Creates a new GameUI instance
    * @param scene - The Phaser scene to create UI elements in
    * @param audioManager - The audio manager for sound effects
+   * @param startingScore - Score carried over from previous levels
+   * @param lives - Lives the player starts with
    */
-  constructor(scene: Phaser.Scene, audioManager: AudioManager) {
+  constructor(scene: Phaser.Scene, audioManager: AudioManager, startingScore: number = 0, lives: number = DEFAULT_LIVES) {
     this.scene = scene;
     this.audioManager = audioManager;
-    this.startTime = scene.time.now;
+    this.score = startingScore;
+    this.lives = lives;
+
+    scene.events.on(Phaser.Scenes.Events.PAUSE, this.handleScenePause, this);
+    scene.events.on(Phaser.Scenes.Events.RESUME, this.handleSceneResume, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      scene.events.off(Phaser.Scenes.Events.PAUSE, this.handleScenePause, this);
+      scene.events.off(Phaser.Scenes.Events.RESUME, this.handleSceneResume, this);
+      this.destroy();
+    });
   }
 
   /**
    * Creates all UI elements including score, timer, buttons, and mobile controls
+   * @param options - Instruction text, pause button handler, and whether a replay is shown
    */
-  public create(): void {
+  public create(options: GameUIOptions = {}): void {
     this.createScoreAndTimer();
+    if (options.replay) return;
+    
     this.createExitButton();
-    this.createInstructions();
-    this.createMobileControls();
+    if (options.onPause) {
+      this.createPauseButton(options.onPause);
+    }
+    
+    // Touch devices playing with swipes are told how to swipe instead of which keys to press
+    const touchControls = options.touchControls ?? TouchControls.DPAD;
+    const howToMove = this.isMobileDevice() && touchControls !== TouchControls.DPAD
+      ? SWIPE_INSTRUCTIONS
+      : `Use ${options.moveKeys ?? DEFAULT_MOVE_KEYS} to move the ant`;
+    this.createInstructions(`${howToMove}\n${options.instructions ?? DEFAULT_INSTRUCTIONS}`);
+    this.createMobileControls(touchControls, options.touchLayout, options.touchButtonSize);
   }
 
   /**
@@ -86,6 +172,86 @@ export class GameUI {
     this.scoreText.setText(`Score: ${this.score}`);
   }
 
+  /**
+   * Replaces the score, such as when progress is restored from a checkpoint
+   * @param score - The new score
+   */
+  public setScore(score: number): void {
+    this.score = score;
+    this.scoreText.setText(`Score: ${this.score}`);
+  }
+
+  /**
+   * Updates the lives display
+   * @param lives - Number of lives the player has left
+   */
+  public updateLives(lives: number): void {
+    this.lives = lives;
+    this.livesText.setText(`Lives: ${this.lives}`);
+  }
+
+  /**
+   * Shows a short message across the middle of the screen, then fades it out
+   * @param message - The message to show
+   */
+  public showBanner(message: string): void {
+    this.banner?.destroy();
+
+    const banner = this.scene.add.text(
+      this.scene.cameras.main.width / 2,
+      this.scene.cameras.main.height / 3,
+      message,
+      {
+        font: `bold ${BANNER_FONT_SIZE} ${UI_FONT_FAMILY}`,
+        color: BANNER_TEXT_COLOR,
+        backgroundColor: BANNER_BACKGROUND,
+        padding: BANNER_PADDING
+      }
+    ).setOrigin(0.5)
+     .setScrollFactor(0)
+     .setDepth(INSTRUCTIONS_DEPTH);
+    this.banner = banner;
+
+    this.scene.tweens.add({
+      targets: banner,
+      alpha: 0,
+      delay: BANNER_DISPLAY_TIME,
+      duration: BANNER_FADE_TIME,
+      onComplete: () => banner.destroy()
+    });
+  }
+
+  /**
+   * Shows how far ahead of or behind the best run the player is, under the timer
+   * @param differenceMs - Current level time minus the best run's time at the same point
+   */
+  public showSplit(differenceMs: number): void {
+    this.split?.destroy();
+
+    const ahead = differenceMs <= 0;
+    const seconds = (Math.abs(differenceMs) / 1000).toFixed(1);
+    const split = this.scene.add.text(
+      this.scene.cameras.main.width - 150,
+      UI_MARGIN + UI_LINE_HEIGHT,
+      `${ahead ? '-' : '+'}${seconds}s ${ahead ? 'AHEAD' : 'BEHIND'}`,
+      {
+        font: `bold ${SPLIT_FONT_SIZE} ${UI_FONT_FAMILY}`,
+        color: ahead ? SPLIT_AHEAD_COLOR : SPLIT_BEHIND_COLOR
+      }
+    ).setScrollFactor(0)
+      .setDepth(UI_DEPTH)
+      .setShadow(UI_SHADOW_OFFSET, UI_SHADOW_OFFSET, UI_SHADOW_COLOR, UI_SHADOW_OFFSET);
+    this.split = split;
+
+    this.scene.tweens.add({
+      targets: split,
+      alpha: 0,
+      delay: SPLIT_DISPLAY_TIME,
+      duration: BANNER_FADE_TIME,
+      onComplete: () => split.destroy()
+    });
+  }
+
   /**
    * Gets the current game score
    * @returns The current score value
@@ -96,22 +262,10 @@ export class GameUI {
 
   /**
    * Updates the timer display with the current elapsed time
+   * @param elapsedMs - Time the level has been played in milliseconds
    */
-  public updateTimer(): void {
-    const elapsed = this.getElapsedTime();
-    this.timeText.setText(`Time: ${elapsed}`);
-  }
-
-  /**
-   * Gets the formatted elapsed time string
-   * @returns Formatted time string in MM:SS format
-   */
-  public getElapsedTime(): string {
-    const elapsed = Math.floor((this.scene.time.now - this.startTime) / 1000);
-    const minutes = Math.floor(elapsed / 60);
-    const seconds = elapsed % 60;
-    
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  public updateTimer(elapsedMs: number): void {
+    this.timeText.setText(`Time: ${formatElapsedTime(elapsedMs)}`);
   }
 
   /**
@@ -137,21 +291,15 @@ export class GameUI {
   }
 
   /**
-   * Mobile controls are now handled internally via HTML elements
-   * This method is kept for compatibility but does nothing
+   * Sets the callbacks the mobile control buttons call when pressed
+   * @param callbacks - Callback for each direction button
    */
-  public setMobileControlCallbacks(_callbacks: {
-    up: () => void;
-    down: () => void;
-    left: () => void;
-    right: () => void;
-  }): void {
-    // HTML mobile controls handle callbacks internally
-    // This method is kept for compatibility with existing code
+  public setMobileControlCallbacks(callbacks: MobileControlCallbacks): void {
+    this.mobileControlCallbacks = callbacks;
   }
 
   /**
-   * Creates the score and timer display elements
+   * Creates the score, lives, and timer display elements
    * @private
    */
   private createScoreAndTimer(): void {
@@ -165,6 +313,20 @@ export class GameUI {
         color: UI_TEXT_COLOR
       }
     ).setScrollFactor(0)
+      .setDepth(UI_DEPTH)
+      .setShadow(UI_SHADOW_OFFSET, UI_SHADOW_OFFSET, UI_SHADOW_COLOR, UI_SHADOW_OFFSET);
+    
+    // Lives text
+    this.livesText = this.scene.add.text(
+      UI_MARGIN,
+      UI_MARGIN + UI_LINE_HEIGHT,
+      `Lives: ${this.lives}`,
+      {
+        font: `${UI_FONT_SIZE} ${UI_FONT_FAMILY}`,
+        color: UI_TEXT_COLOR
+      }
+    ).setScrollFactor(0)
+      .setDepth(UI_DEPTH)
       .setShadow(UI_SHADOW_OFFSET, UI_SHADOW_OFFSET, UI_SHADOW_COLOR, UI_SHADOW_OFFSET);
     
     // Time text
@@ -177,6 +339,7 @@ export class GameUI {
         color: UI_TEXT_COLOR
       }
     ).setScrollFactor(0)
+      .setDepth(UI_DEPTH)
       .setShadow(UI_SHADOW_OFFSET, UI_SHADOW_OFFSET, UI_SHADOW_COLOR, UI_SHADOW_OFFSET);
   }
 
@@ -196,6 +359,7 @@ export class GameUI {
         padding: BUTTON_PADDING
       }
     ).setScrollFactor(0)
+      .setDepth(UI_DEPTH)
       .setShadow(1, 1, UI_SHADOW_COLOR, 1)
       .setInteractive({ useHandCursor: true });
       
@@ -205,15 +369,56 @@ export class GameUI {
     });
   }
 
+  /**
+   * Creates the pause button next to the exit button
+   * @param onPause - Called when the button is pressed
+   * @private
+   */
+  private createPauseButton(onPause: () => void): void {
+    const pauseButton = this.scene.add.text(
+      this.scene.cameras.main.width - 170,
+      this.scene.cameras.main.height - 30,
+      'PAUSE',
+      {
+        font: `${BUTTON_FONT_SIZE} ${UI_FONT_FAMILY}`,
+        color: UI_TEXT_COLOR,
+        backgroundColor: BUTTON_BACKGROUND_COLOR,
+        padding: BUTTON_PADDING
+      }
+    ).setScrollFactor(0)
+      .setDepth(UI_DEPTH)
+      .setShadow(1, 1, UI_SHADOW_COLOR, 1)
+      .setInteractive({ useHandCursor: true });
+
+    pauseButton.on('pointerdown', onPause);
+  }
+
+  /**
+   * Hides the mobile controls while the scene is paused
+   * @private
+   */
+  private handleScenePause(): void {
+    this.mobileControls?.setVisible(false);
+  }
+
+  /**
+   * Shows the mobile controls again when the scene resumes
+   * @private
+   */
+  private handleSceneResume(): void {
+    this.mobileControls?.setVisible(true);
+  }
+
   /**
    * Creates the instruction text that appears at game start
+   * @param text - The instruction text to show
    * @private
    */
-  private createInstructions(): void {
+  private createInstructions(text: string): void {
     const instructions = this.scene.add.text(
       this.scene.cameras.main.width / 2,
       this.scene.cameras.main.height - 100,
-      'Use ARROW KEYS to move the ant\nReach the ant hill at the top!',
+      text,
       {
         font: `${INSTRUCTIONS_FONT_SIZE} ${UI_FONT_FAMILY}`,
         color: UI_TEXT_COLOR,
@@ -241,124 +446,42 @@ export class GameUI {
   }
 
   /**
-   * Creates mobile control buttons if on a mobile device
+   * Creates mobile control buttons if on a mobile device, unless swipes alone were chosen
+   * @param touchControls - Touch controls chosen in the settings
+   * @param layout - Where the buttons sit
+   * @param size - How big the buttons are
    * @private
    */
-  private createMobileControls(): void {
+  private createMobileControls(
+    touchControls: TouchControls,
+    layout: TouchLayout = TouchLayout.RIGHT_HANDED,
+    size: TouchButtonSize = TouchButtonSize.MEDIUM
+  ): void {
     // Detect mobile devices and touch capability
-    const isMobile = this.detectMobileDevice();
+    const isMobile = this.isMobileDevice();
     
-    if (!isMobile) return;
-
-    // Create HTML-based mobile controls in the letterbox area
-    this.createHTMLMobileControls();
-  }
-
-  /**
-   * Creates HTML-based mobile controls positioned in the letterbox area
-   */
-  private createHTMLMobileControls(): void {
-    // Create container for mobile controls
-    const controlsContainer = document.createElement('div');
-    controlsContainer.id = 'mobile-controls-container';
-    controlsContainer.style.cssText = `
-      position: fixed;
-      bottom: 20px;
-      left: 50%;
-      transform: translateX(-50%);
-      width: 200px;
-      height: 200px;
-      z-index: 1000;
-      pointer-events: none;
-    `;
-
-    // Create individual control buttons
-    const buttons = [
-      { id: 'up', symbol: '↑', x: 70, y: 0, callback: () => this.scene.registry.get('player')?.moveUp() },
-      { id: 'down', symbol: '↓', x: 70, y: 140, callback: () => this.scene.registry.get('player')?.moveDown() },
-      { id: 'left', symbol: '←', x: 0, y: 70, callback: () => this.scene.registry.get('player')?.moveLeft() },
-      { id: 'right', symbol: '→', x: 140, y: 70, callback: () => this.scene.registry.get('player')?.moveRight() }
-    ];
-
-    buttons.forEach(button => {
-      const buttonElement = document.createElement('div');
-      buttonElement.id = `mobile-${button.id}-button`;
-      buttonElement.textContent = button.symbol;
-      buttonElement.style.cssText = `
-        position: absolute;
-        left: ${button.x}px;
-        top: ${button.y}px;
-        width: 60px;
-        height: 60px;
-        background-color: rgba(255, 255, 255, 0.9);
-        border: 3px solid #888888;
-        border-radius: 50%;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        font-size: 28px;
-        font-weight: bold;
-        color: #000000;
-        user-select: none;
-        -webkit-user-select: none;
-        -webkit-touch-callout: none;
-        pointer-events: auto;
-        cursor: pointer;
-        text-shadow: 1px 1px 2px rgba(136, 136, 136, 0.5);
-        transition: all 0.1s ease;
-      `;
-
-      // Add touch event handlers
-      const handlePress = () => {
-        buttonElement.style.backgroundColor = 'rgba(204, 204, 204, 1.0)';
-        buttonElement.style.transform = 'scale(0.95)';
-        button.callback();
-      };
-
-      const handleRelease = () => {
-        buttonElement.style.backgroundColor = 'rgba(255, 255, 255, 0.9)';
-        buttonElement.style.transform = 'scale(1.0)';
-      };
-
-      buttonElement.addEventListener('touchstart', (e) => {
-        e.preventDefault();
-        handlePress();
-      });
-
-      buttonElement.addEventListener('touchend', (e) => {
-        e.preventDefault();
-        handleRelease();
-      });
-
-      buttonElement.addEventListener('touchcancel', (e) => {
-        e.preventDefault();
-        handleRelease();
-      });
-
-      // Also support mouse events for testing
-      buttonElement.addEventListener('mousedown', handlePress);
-      buttonElement.addEventListener('mouseup', handleRelease);
-      buttonElement.addEventListener('mouseleave', handleRelease);
-
-      controlsContainer.appendChild(buttonElement);
+    if (!isMobile || touchControls === TouchControls.SWIPES) return;
+
+    // Create HTML-based mobile controls, in the letterbox area when it has room
+    this.mobileControls = new MobileControls({
+      gameWidth: this.scene.scale.gameSize.width,
+      gameHeight: this.scene.scale.gameSize.height,
+      layout,
+      size,
+      onPress: direction => {
+        // The ant stays put while the game is paused
+        if (!this.scene.scene.isPaused()) {
+          this.mobileControlCallbacks?.[direction]();
+        }
+      }
     });
-
-    // Add to page
-    document.body.appendChild(controlsContainer);
-
-    // Store reference for cleanup
-    this.mobileControlsContainer = controlsContainer;
   }
 
-  /**
-   * Creates a single mobile control button
-   * @param x - X position for the button
-   * @param y - Y position for the button
-   * @param symbol - Symbol to display on the button
   /**
    * Detects if the device is mobile or has touch capability
+   * @returns True if touch controls should be offered
    */
-  private detectMobileDevice(): boolean {
+  public isMobileDevice(): boolean {
     // Testing override: add ?mobile=true to URL to force mobile controls on desktop
     if (window.location.search.includes('mobile=true')) return true;
     
@@ -383,11 +506,10 @@ export class GameUI {
 
   /**
    * Cleanup method to remove HTML mobile controls
+   * Called when the scene shuts down, so the buttons never outlive the game
    */
   public destroy(): void {
-    if (this.mobileControlsContainer) {
-      this.mobileControlsContainer.remove();
-      this.mobileControlsContainer = undefined;
-    }
+    this.mobileControls?.destroy();
+    this.mobileControls = undefined;
   }
 }
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Ghost tracks for the ghost racer
+ * Samples where the ant was every few frames during a run, so a later attempt can draw
+ * the run as a ghost in step with it, and times when the run first reached each checkpoint row
+ */
+
+/** Frames between samples; positions in between are interpolated */
+export const GHOST_SAMPLE_FRAMES = 4;
+
+/**
+ * Where the ant was at a sample, or null while it was dead
+ */
+export type GhostSample = [x: number, y: number] | null;
+
+/**
+ * The path an ant took through a level
+ */
+export interface GhostTrack {
+  /** Frames between samples */
+  sampleFrames: number;
+  /** Ant positions, one every `sampleFrames` frames from the start of the level */
+  samples: GhostSample[];
+}
+
+/**
+ * Time a run first reached a checkpoint row
+ */
+export interface GhostSplit {
+  /** Row of the checkpoint */
+  row: number;
+  /** Level time in milliseconds when the row was first reached */
+  timeMs: number;
+}
+
+/**
+ * Ghost track recorder class that samples the ant's position as a run is played
+ */
+export class GhostTrackRecorder {
+  /** Positions sampled so far */
+  private samples: GhostSample[] = [];
+
+  /**
+   * Records the ant's position on a frame, keeping one frame in every `GHOST_SAMPLE_FRAMES`
+   * @param frame - Frame the position is for, counted from the start of the level
+   * @param x - World x position of the ant
+   * @param y - World y position of the ant
+   * @param alive - False while the ant is dead and waiting to respawn
+   */
+  public record(frame: number, x: number, y: number, alive: boolean): void {
+    if (frame % GHOST_SAMPLE_FRAMES !== 0) return;
+
+    this.samples[frame / GHOST_SAMPLE_FRAMES] = alive ? [Math.round(x), Math.round(y)] : null;
+  }
+
+  /**
+   * Finishes the recording
+   * @returns The track the ant took
+   */
+  public finish(): GhostTrack {
+    return {
+      sampleFrames: GHOST_SAMPLE_FRAMES,
+      samples: Array.from(this.samples, sample => sample ?? null)
+    };
+  }
+}
+
+/**
+ * Get where a ghost is on a frame, between the samples either side of it
+ * @param track - The track the ghost follows
+ * @param frame - Frame from the start of the level
+ * @returns The position, or null if the ant was dead or the track has ended
+ */
+export function getGhostPosition(track: GhostTrack, frame: number): { x: number; y: number } | null {
+  const index = Math.floor(frame / track.sampleFrames);
+  const from = track.samples[index];
+  if (!from) return null;
+
+  const to = track.samples[index + 1];
+  if (!to) return { x: from[0], y: from[1] };
+
+  const progress = (frame % track.sampleFrames) / track.sampleFrames;
+  return {
+    x: from[0] + (to[0] - from[0]) * progress,
+    y: from[1] + (to[1] - from[1]) * progress
+  };
+}
@@ -4,7 +4,7 @@
  */
 
 import { GRID_SIZE } from '../config/constants';
-import { LEVEL_1, LEVEL_1_CONFIG } from '../config/level1';
+import { LevelConfig } from '../config/level-config';
 
 // Collectibles are now defined in the level file only - no random placement
 
@@ -36,12 +36,16 @@ export enum GridObjectType {
   SPRAY = 'spray',
   /** Nail obstacle (deadly) */
   NAIL = 'nail',
+  /** Frog enemy (deadly), which hops between rows */
+  FROG = 'frog',
   /** Cherry collectible (10 points) */
   CHERRY = 'cherry',
   /** Cookie collectible (20 points) */
   COOKIE = 'cookie',
   /** Ant hill goal object */
-  ANT_HILL = 'ant_hill'
+  ANT_HILL = 'ant_hill',
+  /** Checkpoint that saves progress when the player steps on it */
+  CHECKPOINT = 'checkpoint'
 }
 
 /**
@@ -67,14 +71,25 @@ export interface GridCell {
  * 
  * The grid system forms the foundation for collision detection, object placement,
  * and game logic in the Frogger-style gameplay.
+ *
+ * Rows are keyed by their absolute index rather than stored in an array, so rows can be
+ * added above row 0 (negative indices) and dropped from the bottom without renumbering
+ * the rest of the grid. This lets endless mode grow the grid without bound.
  */
 export class GridSystem {
-  private gameGrid: GridCell[][] = [];
+  private gameGrid: Map<number, GridCell[]> = new Map();
   private gridWidth: number = 0;
-  private gridHeight: number = 0;
+  /** Index of the highest row in the grid */
+  private topRow: number = 0;
+  /** Index of the lowest row in the grid */
+  private bottomRow: number = -1;
 
-  constructor() {
-    this.initializeGrid();
+  /**
+   * Creates a new GridSystem instance for the given level
+   * @param level - The level configuration to build the grid from
+   */
+  constructor(level: LevelConfig) {
+    this.initializeGrid(level);
   }
 
   /**
@@ -88,15 +103,30 @@ export class GridSystem {
    * Gets the height of the grid in cells
    */
   public getGridHeight(): number {
-    return this.gridHeight;
+    return this.bottomRow - this.topRow + 1;
+  }
+
+  /**
+   * Gets the index of the highest row in the grid (0 unless rows were added above the level)
+   */
+  public getTopRow(): number {
+    return this.topRow;
+  }
+
+  /**
+   * Gets the index of the lowest row in the grid
+   */
+  public getBottomRow(): number {
+    return this.bottomRow;
   }
 
   /**
    * Gets the cell information at the specified grid coordinates
    */
   public getCell(row: number, col: number): GridCell | null {
-    if (row >= 0 && row < this.gridHeight && col >= 0 && col < this.gridWidth) {
-      return this.gameGrid[row][col];
+    const cells = this.gameGrid.get(row);
+    if (cells && col >= 0 && col < this.gridWidth) {
+      return cells[col];
     }
     return null;
   }
@@ -108,12 +138,43 @@ export class GridSystem {
    * @param objectType - The new object type to place in the cell
    */
   public setCell(row: number, col: number, objectType: GridObjectType): void {
-    if (row >= 0 && row < this.gridHeight && col >= 0 && col < this.gridWidth) {
-      this.gameGrid[row][col].object = objectType;
-      this.gameGrid[row][col].safe = this.isCellSafe(this.gameGrid[row][col].type, objectType);
+    const cell = this.getCell(row, col);
+    if (cell) {
+      cell.object = objectType;
+      cell.safe = this.isCellSafe(cell.type, objectType);
+    }
+  }
+
+  /**
+   * Adds rows to the grid, replacing any existing rows at the same indices
+   * @param firstRow - Index of the first added row (may be negative to add rows above the level)
+   * @param lines - Row strings in the level character format, top to bottom
+   */
+  public addRows(firstRow: number, lines: readonly string[]): void {
+    lines.forEach((line, index) => {
+      this.gameGrid.set(firstRow + index, this.parseRow(line));
+    });
+
+    if (this.gameGrid.size === lines.length) {
+      this.topRow = firstRow;
+      this.bottomRow = firstRow + lines.length - 1;
+    } else {
+      this.topRow = Math.min(this.topRow, firstRow);
+      this.bottomRow = Math.max(this.bottomRow, firstRow + lines.length - 1);
     }
   }
 
+  /**
+   * Removes every row below the given row
+   * @param row - The lowest row to keep
+   */
+  public removeRowsBelow(row: number): void {
+    for (let index = this.bottomRow; index > row; index--) {
+      this.gameGrid.delete(index);
+    }
+    this.bottomRow = Math.min(this.bottomRow, row);
+  }
+
   /**
    * Converts world coordinates to grid coordinates
    * @param x - World X coordinate
@@ -146,9 +207,11 @@ export class GridSystem {
    * @param objectTypes - Array of object types to remove
    */
   public clearObjectsInRow(row: number, objectTypes: GridObjectType[]): void {
+    const cells = this.gameGrid.get(row);
+    if (!cells) return;
+
     for (let col = 0; col < this.gridWidth; col++) {
-      const cell = this.gameGrid[row][col];
-      if (objectTypes.includes(cell.object)) {
+      if (objectTypes.includes(cells[col].object)) {
         this.setCell(row, col, GridObjectType.NONE);
       }
     }
@@ -164,9 +227,9 @@ export class GridSystem {
   public getAllCellsOfType(objectType: GridObjectType): Array<{ row: number, col: number }> {
     const cells: Array<{ row: number, col: number }> = [];
     
-    for (let row = 0; row < this.gridHeight; row++) {
+    for (let row = this.topRow; row <= this.bottomRow; row++) {
       for (let col = 0; col < this.gridWidth; col++) {
-        if (this.gameGrid[row][col].object === objectType) {
+        if (this.getCell(row, col)?.object === objectType) {
           cells.push({ row, col });
         }
       }
@@ -178,29 +241,37 @@ export class GridSystem {
   /**
    * Initializes the game grid from the level definition.
    * Parses the level character array and creates the 2D grid structure.
+   * @param level - The level configuration to parse
    * @private
    */
-  private initializeGrid(): void {
-    this.gridWidth = LEVEL_1_CONFIG.width;
-    this.gridHeight = LEVEL_1_CONFIG.height;
+  private initializeGrid(level: LevelConfig): void {
+    this.gridWidth = level.width;
     
     // Initialize grid from level definition
-    this.gameGrid = [];
-    for (let row = 0; row < this.gridHeight; row++) {
-      this.gameGrid[row] = [];
-      const levelRow = LEVEL_1[row];
+    this.gameGrid.clear();
+    this.addRows(0, level.grid);
+  }
+
+  /**
+   * Parses one row of the level definition into grid cells
+   * @param levelRow - The row string from the level definition
+   * @returns One cell per grid column
+   * @private
+   */
+  private parseRow(levelRow: string): GridCell[] {
+    const cells: GridCell[] = [];
+    
+    for (let col = 0; col < this.gridWidth; col++) {
+      const cellChar = levelRow[col];
+      const cellInfo = this.parseCellCharacter(cellChar);
       
-      for (let col = 0; col < this.gridWidth; col++) {
-        const cellChar = levelRow[col];
-        const cellInfo = this.parseCellCharacter(cellChar);
-        
-        this.gameGrid[row][col] = {
-          type: cellInfo.type,
-          object: cellInfo.object,
-          safe: this.isCellSafe(cellInfo.type, cellInfo.object)
-        };
-      }
+      cells.push({
+        type: cellInfo.type,
+        object: cellInfo.object,
+        safe: this.isCellSafe(cellInfo.type, cellInfo.object)
+      });
     }
+    return cells;
   }
 
   /**
@@ -216,6 +287,8 @@ export class GridSystem {
       case 'H': return { type: CellType.SAFE_GRASS, object: GridObjectType.ANT_HILL };
       case 'C': return { type: CellType.SAFE_GRASS, object: GridObjectType.CHERRY };
       case 'K': return { type: CellType.SAFE_GRASS, object: GridObjectType.COOKIE };
+      case 'S': return { type: CellType.SAFE_GRASS, object: GridObjectType.CHECKPOINT };
+      case 'T': return { type: CellType.SAFE_GRASS, object: GridObjectType.NONE }; // Frog start (the frog follows its entity)
       case 'R': return { type: CellType.ROAD, object: GridObjectType.NONE };
       case 'P': return { type: CellType.ROAD, object: GridObjectType.POISON };
       case 'N': return { type: CellType.ROAD, object: GridObjectType.NAIL };
@@ -237,7 +310,7 @@ export class GridSystem {
   private isCellSafe(cellType: CellType, objectType: GridObjectType): boolean {
     switch (cellType) {
       case CellType.SAFE_GRASS:
-        return true; // Grass is always safe
+        return objectType !== GridObjectType.FROG; // Grass is safe unless a frog is on it
       case CellType.ROAD:
         return objectType === GridObjectType.NONE; // Road is safe unless it has an obstacle
       case CellType.WATER:
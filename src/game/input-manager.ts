@@ -0,0 +1,407 @@
+/**
+ * @fileoverview Input layer for the Antzer game
+ * Turns every way of asking the ant to move (the keyboard, gamepads, on-screen buttons, swipes
+ * and taps, and replays) into a single stream of move commands, read once per gameplay step
+ */
+
+import Phaser from 'phaser';
+import { Direction } from '../config/constants';
+import { BINDING_DIRECTIONS, KeyBindings } from './key-bindings';
+import { ReplayMove } from './replay';
+
+/** Stick deflection (0 to 1) a push has to pass to count as a move */
+const STICK_PUSH_THRESHOLD = 0.5;
+/** Stick deflection a pushed stick has to fall back under before it can push again */
+const STICK_RELEASE_THRESHOLD = 0.25;
+/** Distance in game pixels a finger has to travel for a swipe */
+const DEFAULT_SWIPE_DISTANCE = 30;
+/** Furthest in game pixels a finger can travel and still count as a tap */
+const DEFAULT_TAP_DISTANCE = 12;
+/** Longest a touch can last and still count as a tap */
+const DEFAULT_TAP_DURATION_MS = 250;
+
+/**
+ * Touch controls the player can choose from the settings screen
+ */
+export enum TouchControls {
+  /** The on-screen direction buttons */
+  DPAD = 'dpad',
+  /** Swipes and taps on the game itself, with no buttons covering it */
+  SWIPES = 'swipes',
+  /** Both the buttons and swipes */
+  BOTH = 'both'
+}
+
+/**
+ * Thresholds for telling swipes and taps apart
+ */
+export interface GestureOptions {
+  /** Distance in game pixels a finger has to travel for a swipe */
+  swipeDistance?: number;
+  /** Furthest in game pixels a finger can travel and still count as a tap */
+  tapDistance?: number;
+  /** Longest a touch can last and still count as a tap */
+  tapDurationMs?: number;
+}
+
+/**
+ * Gamepad buttons the game uses, by their index in the standard gamepad layout
+ */
+export enum GamepadButton {
+  /** Bottom face button (A on Xbox pads, Cross on PlayStation pads): confirms */
+  A = 0,
+  /** Right face button (B on Xbox pads, Circle on PlayStation pads): goes back */
+  B = 1,
+  /** Start or Options: pauses and resumes */
+  START = 9,
+  DPAD_UP = 12,
+  DPAD_DOWN = 13,
+  DPAD_LEFT = 14,
+  DPAD_RIGHT = 15
+}
+
+/** D-pad buttons and the directions they move in */
+const DPAD_DIRECTIONS: { button: GamepadButton; direction: Direction }[] = [
+  { button: GamepadButton.DPAD_LEFT, direction: Direction.LEFT },
+  { button: GamepadButton.DPAD_RIGHT, direction: Direction.RIGHT },
+  { button: GamepadButton.DPAD_UP, direction: Direction.UP },
+  { button: GamepadButton.DPAD_DOWN, direction: Direction.DOWN }
+];
+
+/**
+ * Anything that can ask the ant to move
+ */
+export interface MoveSource {
+  /**
+   * Read the move asked for since the last read, if any
+   * @returns The direction to move in, or undefined if none was asked for
+   */
+  readMove(): Direction | undefined;
+  /** Release anything the source holds on to, such as keys */
+  destroy?(): void;
+}
+
+/**
+ * Moves from the keyboard, using remappable key bindings
+ */
+export class KeyboardMoveSource implements MoveSource {
+  /** Keyboard plugin the keys were added to */
+  private keyboard?: Phaser.Input.Keyboard.KeyboardPlugin;
+  /** Keys bound to each direction, in the order they are checked */
+  private keys: { direction: Direction; key: Phaser.Input.Keyboard.Key }[] = [];
+  /** Moves from keys pressed together, not yet read */
+  private pending: Direction[] = [];
+
+  /**
+   * Creates a new KeyboardMoveSource instance
+   * @param scene - The scene whose keyboard is read
+   * @param bindings - Keys that move the ant in each direction
+   */
+  constructor(scene: Phaser.Scene, bindings: KeyBindings) {
+    this.keyboard = scene.input.keyboard ?? undefined;
+    if (!this.keyboard) return;
+
+    BINDING_DIRECTIONS.forEach(direction => {
+      bindings[direction].forEach(name => {
+        const keyCode = Phaser.Input.Keyboard.KeyCodes[name as keyof typeof Phaser.Input.Keyboard.KeyCodes];
+        if (keyCode !== undefined) {
+          this.keys.push({ direction, key: this.keyboard!.addKey(keyCode) });
+        }
+      });
+    });
+  }
+
+  /**
+   * Read the key pressed since the last read
+   * Every key's press is used up by the read, so holding a key never repeats a move; keys
+   * pressed on the same frame are each read in turn, one per read
+   */
+  readMove(): Direction | undefined {
+    this.keys.forEach(({ direction, key }) => {
+      if (Phaser.Input.Keyboard.JustDown(key)) {
+        this.pending.push(direction);
+      }
+    });
+    return this.pending.shift();
+  }
+
+  /**
+   * Remove the keys from the keyboard
+   */
+  destroy(): void {
+    this.keys.forEach(({ key }) => this.keyboard?.removeKey(key));
+    this.keys = [];
+    this.pending = [];
+  }
+}
+
+/**
+ * Moves from every connected gamepad's D-pad and left stick
+ * Each press of the D-pad, or push of the stick out past its deadzone, is a single grid step;
+ * the stick has to come back towards the center before it can push again
+ */
+export class GamepadMoveSource implements MoveSource {
+  /** Gamepad plugin of the scene, if gamepads are enabled */
+  private gamepads?: Phaser.Input.Gamepad.GamepadPlugin;
+  /** D-pad buttons held at the last read, by pad and button */
+  private heldButtons = new Set<string>();
+  /** Pads whose stick was pushed at the last read */
+  private pushedSticks = new Set<number>();
+  /** Moves from D-pad presses and stick pushes made together, not yet read */
+  private pending: Direction[] = [];
+
+  /**
+   * Creates a new GamepadMoveSource instance
+   * @param scene - The scene whose gamepads are read
+   */
+  constructor(scene: Phaser.Scene) {
+    this.gamepads = scene.input.gamepad ?? undefined;
+  }
+
+  /**
+   * Read the D-pad press or stick push made since the last read
+   * Every pad is read each time, so a press on one pad never holds over to the next read;
+   * buttons pressed and sticks pushed on the same frame are each read in turn, one per read
+   */
+  readMove(): Direction | undefined {
+    this.gamepads?.getAll().forEach(pad => {
+      this.readDpad(pad);
+      const stickMove = this.readStick(pad);
+      if (stickMove !== undefined) {
+        this.pending.push(stickMove);
+      }
+    });
+    return this.pending.shift();
+  }
+
+  /**
+   * Queue every D-pad button that has gone down since the last read
+   */
+  private readDpad(pad: Phaser.Input.Gamepad.Gamepad): void {
+    DPAD_DIRECTIONS.forEach(({ button, direction }) => {
+      const id = `${pad.index}:${button}`;
+      if (!pad.buttons[button]?.pressed) {
+        this.heldButtons.delete(id);
+      } else if (!this.heldButtons.has(id)) {
+        this.heldButtons.add(id);
+        this.pending.push(direction);
+      }
+    });
+  }
+
+  /**
+   * Read a push of the left stick out past its deadzone
+   */
+  private readStick(pad: Phaser.Input.Gamepad.Gamepad): Direction | undefined {
+    const x = pad.axes[0]?.getValue() ?? 0;
+    const y = pad.axes[1]?.getValue() ?? 0;
+    const deflection = Math.max(Math.abs(x), Math.abs(y));
+
+    if (this.pushedSticks.has(pad.index)) {
+      if (deflection < STICK_RELEASE_THRESHOLD) {
+        this.pushedSticks.delete(pad.index);
+      }
+      return undefined;
+    }
+    if (deflection < STICK_PUSH_THRESHOLD) return undefined;
+
+    // The axis pushed furthest decides the direction
+    this.pushedSticks.add(pad.index);
+    if (Math.abs(x) > Math.abs(y)) {
+      return x < 0 ? Direction.LEFT : Direction.RIGHT;
+    }
+    return y < 0 ? Direction.UP : Direction.DOWN;
+  }
+}
+
+/**
+ * Moves pushed in from outside the game canvas, such as the on-screen touch buttons
+ */
+export class QueuedMoveSource implements MoveSource {
+  private queue: Direction[] = [];
+
+  /**
+   * Ask for a move, read on a later step
+   * @param direction - The direction to move in
+   */
+  push(direction: Direction): void {
+    this.queue.push(direction);
+  }
+
+  /**
+   * Read the oldest move asked for, one per step
+   */
+  readMove(): Direction | undefined {
+    return this.queue.shift();
+  }
+
+  /**
+   * Drop every move not yet read
+   */
+  clear(): void {
+    this.queue = [];
+  }
+}
+
+/**
+ * Moves from swipes and taps on the game canvas
+ * A swipe moves one step the way it went, as soon as it has gone far enough, and a tap moves
+ * forward. Touches that start on a button, such as the pause button, are left to the button.
+ */
+export class GestureMoveSource extends QueuedMoveSource {
+  /** Input plugin of the scene the gestures are made on */
+  private input: Phaser.Input.InputPlugin;
+  private readonly swipeDistance: number;
+  private readonly tapDistance: number;
+  private readonly tapDurationMs: number;
+  /** Pointer making the current gesture, if any */
+  private pointerId?: number;
+  /** Whether the current gesture has already swiped */
+  private swiped: boolean = false;
+
+  /**
+   * Creates a new GestureMoveSource instance
+   * @param scene - The scene whose canvas is swiped and tapped
+   * @param options - Thresholds for swipes and taps
+   */
+  constructor(scene: Phaser.Scene, options: GestureOptions = {}) {
+    super();
+    this.input = scene.input;
+    this.swipeDistance = options.swipeDistance ?? DEFAULT_SWIPE_DISTANCE;
+    this.tapDistance = options.tapDistance ?? DEFAULT_TAP_DISTANCE;
+    this.tapDurationMs = options.tapDurationMs ?? DEFAULT_TAP_DURATION_MS;
+
+    this.input.on(Phaser.Input.Events.POINTER_DOWN, this.handlePointerDown, this);
+    this.input.on(Phaser.Input.Events.POINTER_MOVE, this.handlePointerMove, this);
+    this.input.on(Phaser.Input.Events.POINTER_UP, this.handlePointerUp, this);
+  }
+
+  /**
+   * Stop listening to the canvas
+   */
+  destroy(): void {
+    this.input.off(Phaser.Input.Events.POINTER_DOWN, this.handlePointerDown, this);
+    this.input.off(Phaser.Input.Events.POINTER_MOVE, this.handlePointerMove, this);
+    this.input.off(Phaser.Input.Events.POINTER_UP, this.handlePointerUp, this);
+    this.clear();
+  }
+
+  /**
+   * Start a gesture, unless the touch is on a button
+   */
+  private handlePointerDown(pointer: Phaser.Input.Pointer, currentlyOver: Phaser.GameObjects.GameObject[]): void {
+    if (this.pointerId !== undefined || currentlyOver.length > 0) return;
+
+    this.pointerId = pointer.id;
+    this.swiped = false;
+  }
+
+  /**
+   * Swipe as soon as the finger has gone far enough, once per gesture
+   */
+  private handlePointerMove(pointer: Phaser.Input.Pointer): void {
+    if (pointer.id !== this.pointerId || this.swiped) return;
+
+    const dx = pointer.x - pointer.downX;
+    const dy = pointer.y - pointer.downY;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < this.swipeDistance) return;
+
+    // The axis swiped furthest decides the direction
+    this.swiped = true;
+    if (Math.abs(dx) > Math.abs(dy)) {
+      this.push(dx < 0 ? Direction.LEFT : Direction.RIGHT);
+    } else {
+      this.push(dy < 0 ? Direction.UP : Direction.DOWN);
+    }
+  }
+
+  /**
+   * End the gesture, moving forward if it was a tap
+   */
+  private handlePointerUp(pointer: Phaser.Input.Pointer): void {
+    if (pointer.id !== this.pointerId) return;
+
+    this.pointerId = undefined;
+    if (this.swiped) return;
+
+    const distance = Phaser.Math.Distance.Between(pointer.downX, pointer.downY, pointer.upX, pointer.upY);
+    if (distance <= this.tapDistance && pointer.upTime - pointer.downTime <= this.tapDurationMs) {
+      this.push(Direction.UP);
+    }
+  }
+}
+
+/**
+ * Moves from a replay, made on the frames they were recorded on
+ */
+export class ReplayMoveSource implements MoveSource {
+  private readonly moves: readonly ReplayMove[];
+  private readonly getFrame: () => number;
+  private moveIndex: number = 0;
+
+  /**
+   * Creates a new ReplayMoveSource instance
+   * @param moves - The recorded moves, in frame order
+   * @param getFrame - Gets the gameplay step being played
+   */
+  constructor(moves: readonly ReplayMove[], getFrame: () => number) {
+    this.moves = moves;
+    this.getFrame = getFrame;
+  }
+
+  /**
+   * Read the move recorded for the current frame, where the player's input would have been read
+   */
+  readMove(): Direction | undefined {
+    let direction: Direction | undefined;
+    while (this.moveIndex < this.moves.length && this.moves[this.moveIndex].frame <= this.getFrame()) {
+      direction = this.moves[this.moveIndex].direction;
+      this.moveIndex++;
+    }
+    return direction;
+  }
+}
+
+/**
+ * Input manager class that merges every move source into one stream of moves.
+ *
+ * This class provides:
+ * - A single move per gameplay step, from the first source that has one
+ * - Sources added in priority order, so the keyboard can come before touch buttons
+ * - Clean up of every source when the scene shuts down
+ *
+ * Sources that aren't read first keep their moves for a later step.
+ */
+export class InputManager {
+  private sources: MoveSource[] = [];
+
+  /**
+   * Add a source, read after every source added before it
+   * @param source - The source to add
+   * @returns The source, for chaining
+   */
+  addSource<T extends MoveSource>(source: T): T {
+    this.sources.push(source);
+    return source;
+  }
+
+  /**
+   * Read the move for this step
+   * @returns The direction to move in, or undefined if no source asked for one
+   */
+  readMove(): Direction | undefined {
+    for (const source of this.sources) {
+      const direction = source.readMove();
+      if (direction !== undefined) return direction;
+    }
+    return undefined;
+  }
+
+  /**
+   * Release every source
+   */
+  destroy(): void {
+    this.sources.forEach(source => source.destroy?.());
+    this.sources = [];
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Keyboard bindings for moving the ant
+ * Maps each direction to the keys that move the ant that way, with built-in presets and
+ * helpers for remapping single directions from the settings screen
+ */
+
+import { Direction } from '../config/constants';
+
+/**
+ * Keys bound to each direction, by key name (such as 'UP', 'W', or 'K')
+ * Key names match Phaser's keyboard key codes
+ */
+export type KeyBindings = Record<Direction, string[]>;
+
+/**
+ * A named set of bindings the player can pick from the settings screen
+ */
+export interface KeyBindingPreset {
+  /** Name shown on the preset's button */
+  name: string;
+  /** Bindings the preset applies */
+  bindings: KeyBindings;
+}
+
+/** Keys that always pause the game, so they can't move the ant */
+export const RESERVED_KEYS: readonly string[] = ['ESC', 'P'];
+
+/** Directions in the order they are checked each step and listed on screen */
+export const BINDING_DIRECTIONS: readonly Direction[] = [Direction.LEFT, Direction.RIGHT, Direction.UP, Direction.DOWN];
+
+/** Most keys one direction can have */
+export const MAX_KEYS_PER_DIRECTION = 2;
+
+export const KEY_BINDING_PRESETS: readonly KeyBindingPreset[] = [
+  {
+    name: 'ARROWS',
+    bindings: { [Direction.UP]: ['UP'], [Direction.DOWN]: ['DOWN'], [Direction.LEFT]: ['LEFT'], [Direction.RIGHT]: ['RIGHT'] }
+  },
+  {
+    name: 'WASD',
+    bindings: { [Direction.UP]: ['W'], [Direction.DOWN]: ['S'], [Direction.LEFT]: ['A'], [Direction.RIGHT]: ['D'] }
+  },
+  {
+    name: 'VIM',
+    bindings: { [Direction.UP]: ['K'], [Direction.DOWN]: ['J'], [Direction.LEFT]: ['H'], [Direction.RIGHT]: ['L'] }
+  }
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = KEY_BINDING_PRESETS[0].bindings;
+
+/** Symbols shown for keys whose names don't read well on screen */
+const KEY_LABELS: Record<string, string> = {
+  UP: '↑',
+  DOWN: '↓',
+  LEFT: '←',
+  RIGHT: '→',
+  SPACE: 'Space'
+};
+
+/**
+ * Copy a set of bindings, so changes to the copy never reach the original
+ */
+export function copyKeyBindings(bindings: KeyBindings): KeyBindings {
+  return {
+    [Direction.UP]: [...bindings[Direction.UP]],
+    [Direction.DOWN]: [...bindings[Direction.DOWN]],
+    [Direction.LEFT]: [...bindings[Direction.LEFT]],
+    [Direction.RIGHT]: [...bindings[Direction.RIGHT]]
+  };
+}
+
+/**
+ * Bind a key to a direction
+ * The direction's oldest key is dropped when it already has the most keys allowed. A key bound
+ * to another direction moves over, and when it was that direction's only key the two directions
+ * swap keys instead, so no direction is ever left without one.
+ *
+ * @param bindings - The current bindings
+ * @param direction - Direction to bind the key to
+ * @param key - Name of the key
+ * @returns The new bindings, or the current ones unchanged if the key is reserved
+ */
+export function bindKey(bindings: KeyBindings, direction: Direction, key: string): KeyBindings {
+  if (RESERVED_KEYS.includes(key)) return bindings;
+
+  const updated = copyKeyBindings(bindings);
+  const owner = BINDING_DIRECTIONS.find(other => other !== direction && updated[other].includes(key));
+
+  if (owner && updated[owner].length === 1) {
+    updated[owner] = updated[direction];
+    updated[direction] = [key];
+    return updated;
+  }
+
+  if (owner) {
+    updated[owner] = updated[owner].filter(boundKey => boundKey !== key);
+  }
+  updated[direction] = [...updated[direction].filter(boundKey => boundKey !== key), key].slice(-MAX_KEYS_PER_DIRECTION);
+  return updated;
+}
+
+/**
+ * Check that a value read from storage is a usable set of bindings
+ * Every direction needs at least one key, and no key may be reserved or bound twice
+ */
+export function isValidKeyBindings(value: unknown): value is KeyBindings {
+  if (!value || typeof value !== 'object') return false;
+
+  const seen = new Set<string>();
+  return BINDING_DIRECTIONS.every(direction => {
+    const keys = (value as Record<string, unknown>)[direction];
+    if (!Array.isArray(keys) || keys.length === 0 || keys.length > MAX_KEYS_PER_DIRECTION) return false;
+
+    return keys.every(key => {
+      if (typeof key !== 'string' || RESERVED_KEYS.includes(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  });
+}
+
+/**
+ * Get the name of the preset matching a set of bindings
+ * @returns The preset name, or 'CUSTOM' if the bindings match none
+ */
+export function getPresetName(bindings: KeyBindings): string {
+  const preset = KEY_BINDING_PRESETS.find(candidate =>
+    BINDING_DIRECTIONS.every(direction =>
+      candidate.bindings[direction].join() === bindings[direction].join()
+    )
+  );
+  return preset?.name ?? 'CUSTOM';
+}
+
+/**
+ * Get the text shown for the keys bound to a direction, such as "↑ / W"
+ */
+export function formatKeys(keys: readonly string[]): string {
+  return keys.map(key => KEY_LABELS[key] ?? key).join(' / ');
+}
+
+/**
+ * Describe the keys that move the ant, for instructions such as "Use W A S D to move the ant"
+ * @returns "ARROW KEYS" for the arrow preset, otherwise the first up, left, down, and right keys
+ */
+export function describeKeyBindings(bindings: KeyBindings): string {
+  if (getPresetName(bindings) === KEY_BINDING_PRESETS[0].name) return 'ARROW KEYS';
+
+  return [Direction.UP, Direction.LEFT, Direction.DOWN, Direction.RIGHT]
+    .map(direction => formatKeys(bindings[direction].slice(0, 1)))
+    .join(' ');
+}
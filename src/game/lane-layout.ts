@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Lane layout model for moving platforms and obstacles
+ * Describes where every moving object in a level starts, how fast it travels, and where it wraps,
+ * so the game simulation and the level solver place and move lanes identically
+ */
+
+import { GRID_SIZE } from '../config/constants';
+import { LaneObstacle, LevelConfig } from '../config/level-config';
+import { FrogState } from './frog';
+import { GridObjectType } from './grid-system';
+import { LevelAnalyzer, RowInfo } from './level-analyzer';
+
+/** Extra distance beyond the screen width covered by default platform rows */
+const PLATFORM_BUFFER = 400;
+/** Distance off-screen where the first platform of a row starts */
+const PLATFORM_START_OFFSET = 200;
+
+const LOG_WIDTH = GRID_SIZE * 3.125;
+const LEAF_WIDTH = GRID_SIZE * 2.5;
+
+/** Distance past either screen edge where obstacles wrap */
+const OBSTACLE_WRAP_BUFFER = 50;
+
+const DEFAULT_OBSTACLE_GAP = GRID_SIZE * 3;
+
+const OBSTACLE_SPEEDS = {
+  [GridObjectType.POISON]: 60,
+  [GridObjectType.NAIL]: 40,
+  [GridObjectType.SPRAY]: 80
+} as Partial<Record<GridObjectType, number>>;
+
+const LANE_OBSTACLE_TYPES: Record<LaneObstacle, GridObjectType> = {
+  poison: GridObjectType.POISON,
+  spray: GridObjectType.SPRAY,
+  nail: GridObjectType.NAIL
+};
+
+/** Frog character in the level legend */
+const FROG_CHARACTER = 'T';
+
+/** Obstacle characters in the level legend */
+const OBSTACLE_CHARACTERS: Record<string, GridObjectType | undefined> = {
+  P: GridObjectType.POISON,
+  Y: GridObjectType.SPRAY,
+  N: GridObjectType.NAIL
+};
+
+/**
+ * A single moving platform or obstacle and the rules it moves by
+ */
+export interface LaneEntity {
+  /** Row index the entity travels along */
+  row: number;
+  /** LOG or LEAF for platforms, POISON, SPRAY, NAIL, or FROG for obstacles */
+  objectType: GridObjectType;
+  /** Horizontal center in pixels when the level starts */
+  startX: number;
+  /** Display width in pixels */
+  width: number;
+  /** Horizontal velocity in pixels per second (negative moves left) */
+  velocity: number;
+  /** Position the entity reappears at after leaving the right edge, or leaves by on the left */
+  wrapMinX: number;
+  /** Position the entity reappears at after leaving the left edge, or leaves by on the right */
+  wrapMaxX: number;
+}
+
+/**
+ * A platform or obstacle partway along its lane during a run
+ */
+export interface MovingEntity extends LaneEntity {
+  /** Identifies the entity for as long as it stays in the run */
+  id: number;
+  /** Current horizontal center in pixels */
+  x: number;
+  /** Hop timer and target of a frog (frogs change row as they hop) */
+  frog?: FrogState;
+}
+
+/**
+ * Build the moving platforms and obstacles for a level
+ * Water rows get platforms from their row information, road rows with a lane count get
+ * evenly spaced obstacles, and every other obstacle character in the grid becomes an obstacle.
+ * Frogs are placed wherever the grid has one, whatever the lane settings of their row.
+ *
+ * @param level - The level configuration
+ * @param analyzer - Analyzer for the same level, placed at the same row offset
+ * @param viewWidth - Width of the visible play area in pixels
+ * @param rowOffset - Grid row of the level's first row
+ * @returns Every moving entity in the level
+ */
+export function buildLaneEntities(
+  level: LevelConfig,
+  analyzer: LevelAnalyzer,
+  viewWidth: number,
+  rowOffset: number = 0
+): LaneEntity[] {
+  const entities: LaneEntity[] = [];
+
+  analyzer.getWaterRows().forEach(rowInfo => {
+    entities.push(...buildPlatforms(rowInfo, viewWidth));
+  });
+
+  for (let row = rowOffset; row < rowOffset + level.height; row++) {
+    const rowInfo = analyzer.getRowInfo(row);
+
+    [...level.grid[row - rowOffset]].forEach((char, col) => {
+      if (char === FROG_CHARACTER) {
+        entities.push(createFrogEntity(row, col * GRID_SIZE + GRID_SIZE / 2));
+      }
+    });
+
+    const useLaneObstacles = rowInfo?.hasMovingObstacles && rowInfo.count !== undefined;
+
+    if (useLaneObstacles) {
+      entities.push(...buildLaneObstacles(rowInfo!, viewWidth));
+      continue;
+    }
+
+    [...level.grid[row - rowOffset]].forEach((char, col) => {
+      const objectType = OBSTACLE_CHARACTERS[char];
+      if (objectType) {
+        entities.push(createObstacleEntity(row, col * GRID_SIZE + GRID_SIZE / 2, rowInfo, objectType, viewWidth));
+      }
+    });
+  }
+
+  return entities;
+}
+
+/**
+ * Get the horizontal center of an entity at a point in time
+ * Follows the same wrapping rules as stepEntityX, for a whole stretch of time at once
+ *
+ * @param entity - The entity to position
+ * @param timeMs - Time since the level started in milliseconds
+ * @returns Horizontal center in pixels
+ */
+export function getEntityX(entity: LaneEntity, timeMs: number): number {
+  return wrapEntityX(entity, entity.startX + entity.velocity * timeMs / 1000);
+}
+
+/**
+ * Move an entity along its lane for a single gameplay step
+ * An entity that leaves the screen comes back at the far edge by as much as it overshot, so
+ * stepping always stays in phase with getEntityX and the level solver sees the same lanes
+ *
+ * @param entity - The entity to move
+ * @param x - Horizontal center of the entity before the step in pixels
+ * @param deltaMs - Length of the step in milliseconds
+ * @returns Horizontal center after the step in pixels
+ */
+export function stepEntityX(entity: LaneEntity, x: number, deltaMs: number): number {
+  return wrapEntityX(entity, x + entity.velocity * deltaMs / 1000);
+}
+
+/**
+ * Get the grid columns an entity covers at a horizontal position
+ * Platforms cover every column under their width, obstacles only the column under their center
+ *
+ * @param entity - The entity to measure
+ * @param x - Horizontal center of the entity in pixels
+ * @returns Leftmost and rightmost covered columns (may lie outside the grid)
+ */
+export function getEntityColumns(entity: LaneEntity, x: number): { leftCol: number; rightCol: number } {
+  if (isPlatformEntity(entity)) {
+    return {
+      leftCol: Math.floor((x - entity.width / 2) / GRID_SIZE),
+      rightCol: Math.floor((x + entity.width / 2) / GRID_SIZE)
+    };
+  }
+
+  const col = Math.floor(x / GRID_SIZE);
+  return { leftCol: col, rightCol: col };
+}
+
+/**
+ * Check whether an entity is a platform the ant can ride
+ */
+export function isPlatformEntity(entity: LaneEntity): boolean {
+  return entity.objectType === GridObjectType.LOG || entity.objectType === GridObjectType.LEAF;
+}
+
+/**
+ * Check whether an entity is a frog, which hops between rows instead of moving along its lane
+ */
+export function isFrogEntity(entity: LaneEntity): boolean {
+  return entity.objectType === GridObjectType.FROG;
+}
+
+/**
+ * Wrap a position that has moved past the edge an entity leaves by around to the far edge
+ * Stationary entities never wrap
+ */
+function wrapEntityX(entity: LaneEntity, x: number): number {
+  const span = entity.wrapMaxX - entity.wrapMinX;
+
+  if (entity.velocity > 0 && x > entity.wrapMaxX) {
+    return entity.wrapMinX + (x - entity.wrapMaxX) % span;
+  }
+  if (entity.velocity < 0 && x < entity.wrapMinX) {
+    return entity.wrapMaxX - (entity.wrapMinX - x) % span;
+  }
+  return x;
+}
+
+/**
+ * Build the platforms for a water row
+ * Platforms fill the screen unless the lane sets a count
+ */
+function buildPlatforms(rowInfo: RowInfo, viewWidth: number): LaneEntity[] {
+  const objectType = rowInfo.platformType === 'log' ? GridObjectType.LOG : GridObjectType.LEAF;
+  const width = objectType === GridObjectType.LOG ? LOG_WIDTH : LEAF_WIDTH;
+  const spacing = width + (rowInfo.gap ?? 0);
+  const count = rowInfo.count ?? Math.ceil((viewWidth + PLATFORM_BUFFER) / spacing);
+  const movesRight = rowInfo.platformDirection === 'RIGHT';
+  const speed = rowInfo.speed ?? 0;
+
+  return Array.from({ length: count }, (_, j) => ({
+    row: rowInfo.index,
+    objectType,
+    startX: movesRight
+      ? -PLATFORM_START_OFFSET + j * spacing
+      : viewWidth + PLATFORM_START_OFFSET - j * spacing,
+    width,
+    velocity: movesRight ? speed : -speed,
+    wrapMinX: -width,
+    wrapMaxX: viewWidth + width
+  }));
+}
+
+/**
+ * Build the obstacles for a road row from its lane settings
+ * Obstacles are spaced evenly by the lane gap, starting at the left edge of the row
+ */
+function buildLaneObstacles(rowInfo: RowInfo, viewWidth: number): LaneEntity[] {
+  const objectType = LANE_OBSTACLE_TYPES[rowInfo.obstacleType ?? 'poison'];
+  const spacing = GRID_SIZE + (rowInfo.gap ?? DEFAULT_OBSTACLE_GAP);
+
+  return Array.from({ length: rowInfo.count ?? 0 }, (_, i) =>
+    createObstacleEntity(rowInfo.index, GRID_SIZE / 2 + i * spacing, rowInfo, objectType, viewWidth)
+  );
+}
+
+/**
+ * Create a single obstacle
+ * Lane settings may override the obstacle type and speed for the whole row
+ */
+function createObstacleEntity(
+  row: number,
+  x: number,
+  rowInfo: RowInfo | undefined,
+  objectType: GridObjectType,
+  viewWidth: number
+): LaneEntity {
+  const laneType = rowInfo?.obstacleType ? LANE_OBSTACLE_TYPES[rowInfo.obstacleType] : objectType;
+  const speed = rowInfo?.speed ?? OBSTACLE_SPEEDS[laneType] ?? 0;
+
+  return {
+    row,
+    objectType: laneType,
+    startX: x,
+    width: GRID_SIZE,
+    velocity: rowInfo?.obstacleDirection === 'LEFT' ? -speed : speed,
+    wrapMinX: -OBSTACLE_WRAP_BUFFER,
+    wrapMaxX: viewWidth + OBSTACLE_WRAP_BUFFER
+  };
+}
+
+/**
+ * Create a frog, which stays in its column and never moves along the lane
+ */
+function createFrogEntity(row: number, x: number): LaneEntity {
+  return {
+    row,
+    objectType: GridObjectType.FROG,
+    startX: x,
+    width: GRID_SIZE,
+    velocity: 0,
+    wrapMinX: x,
+    wrapMaxX: x
+  };
+}
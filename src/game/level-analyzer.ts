@@ -3,9 +3,15 @@
  * Analyzes level configuration to identify water rows, road rows, and grass rows
  */
 
-import { LEVEL_1, LEVEL_1_CONFIG } from '../config/level1';
+import { Direction } from '../config/constants';
+import { LaneObstacle, LanePlatform, LaneSettings, LevelConfig } from '../config/level-config';
 import { CellType } from './grid-system';
 
+/** Default platform speeds, cycled through by water row order */
+const DEFAULT_PLATFORM_SPEEDS = [25, 35, 30];
+/** Default gap in pixels between neighbouring platforms */
+const DEFAULT_PLATFORM_GAP = 50;
+
 /**
  * Interface representing analyzed information about a specific row
  */
@@ -16,6 +22,16 @@ export interface RowInfo {
   hasMovingObstacles: boolean;
   obstacleDirection: 'LEFT' | 'RIGHT';
   platformDirection: 'LEFT' | 'RIGHT';
+  /** Platform type spawned in this row (water rows) */
+  platformType: LanePlatform;
+  /** Movement speed in pixels per second (always set for water rows; road rows use per-obstacle speeds when unset) */
+  speed?: number;
+  /** Obstacle type used for every obstacle in this row (road rows, from lane settings only) */
+  obstacleType?: LaneObstacle;
+  /** Gap in pixels between neighbouring platforms or obstacles */
+  gap?: number;
+  /** Number of platforms or obstacles in this row (platforms fill the screen when unset) */
+  count?: number;
 }
 
 /**
@@ -35,18 +51,36 @@ export interface LevelAnalysis {
  * This class provides:
  * - Dynamic analysis of level terrain types
  * - Identification of water, road, and grass rows
- * - Automatic platform and obstacle direction assignment
+ * - Per-row lane settings (direction, speed, type, gap, count) from the level definition
+ * - Alternating default lane behavior for rows without settings
  * - Support for variable level sizes and layouts
  * 
  * The analyzer eliminates hardcoded assumptions about specific row numbers,
  * making the system flexible for different level configurations.
+ *
+ * Row indices are absolute grid rows: a level can be placed at a row offset, and further
+ * levels can be appended as sections of a taller grid (endless mode).
  */
 export class LevelAnalyzer {
+  /** The level configuration being analyzed */
+  private level: LevelConfig;
+  /** Grid row of the level's first row */
+  private rowOffset: number;
   /** Cached analysis result to avoid recomputation */
   private analysis: LevelAnalysis | null = null;
 
   /**
-   * Analyzes the current level configuration and returns detailed information about each row type
+   * Creates a new LevelAnalyzer instance
+   * @param level - The level configuration to analyze
+   * @param rowOffset - Grid row of the level's first row (non-zero when the level is a section of a taller grid)
+   */
+  constructor(level: LevelConfig, rowOffset: number = 0) {
+    this.level = level;
+    this.rowOffset = rowOffset;
+  }
+
+  /**
+   * Analyzes the level configuration and returns detailed information about each row type
    * @returns Complete analysis of the level including row types and properties
    */
   public analyzeLevelLayout(): LevelAnalysis {
@@ -54,39 +88,41 @@ export class LevelAnalyzer {
       return this.analysis;
     }
 
-    const waterRows: RowInfo[] = [];
-    const roadRows: RowInfo[] = [];
-    const grassRows: RowInfo[] = [];
-
-    // Analyze each row to determine its primary terrain type
-    for (let rowIndex = 0; rowIndex < LEVEL_1_CONFIG.height; rowIndex++) {
-      const rowData = LEVEL_1[rowIndex];
-      const rowInfo = this.analyzeRow(rowIndex, rowData);
-
-      switch (rowInfo.type) {
-        case CellType.WATER:
-          waterRows.push(rowInfo);
-          break;
-        case CellType.ROAD:
-          roadRows.push(rowInfo);
-          break;
-        case CellType.SAFE_GRASS:
-          grassRows.push(rowInfo);
-          break;
-      }
-    }
-
     this.analysis = {
-      waterRows,
-      roadRows,
-      grassRows,
-      totalRows: LEVEL_1_CONFIG.height,
-      totalCols: LEVEL_1_CONFIG.width
+      waterRows: [],
+      roadRows: [],
+      grassRows: [],
+      totalRows: 0,
+      totalCols: this.level.width
     };
+    this.analyzeRows(this.level, this.rowOffset, this.analysis);
 
     return this.analysis;
   }
 
+  /**
+   * Adds the rows of another level to the analysis
+   * @param level - The level section to add
+   * @param rowOffset - Grid row of the section's first row
+   */
+  public appendLevel(level: LevelConfig, rowOffset: number): void {
+    this.analyzeRows(level, rowOffset, this.analyzeLevelLayout());
+  }
+
+  /**
+   * Drops every row below the given row from the analysis
+   * @param row - The lowest row to keep
+   */
+  public removeRowsBelow(row: number): void {
+    const analysis = this.analyzeLevelLayout();
+    const isKept = (rowInfo: RowInfo) => rowInfo.index <= row;
+
+    analysis.waterRows = analysis.waterRows.filter(isKept);
+    analysis.roadRows = analysis.roadRows.filter(isKept);
+    analysis.grassRows = analysis.grassRows.filter(isKept);
+    analysis.totalRows = analysis.waterRows.length + analysis.roadRows.length + analysis.grassRows.length;
+  }
+
   /**
    * Gets all water rows that need platform generation
    * @returns Array of water row information
@@ -149,14 +185,55 @@ export class LevelAnalyzer {
     return waterRow?.platformDirection || 'RIGHT';
   }
 
+  /**
+   * Gets the analyzed information for a specific row
+   * @param rowIndex - The row index
+   * @returns The row information, or undefined if the row is outside the level
+   */
+  public getRowInfo(rowIndex: number): RowInfo | undefined {
+    const { waterRows, roadRows, grassRows } = this.analyzeLevelLayout();
+    return [...waterRows, ...roadRows, ...grassRows].find(row => row.index === rowIndex);
+  }
+
+  /**
+   * Analyzes every row of a level into the analysis
+   * @param level - The level whose rows are analyzed
+   * @param rowOffset - Grid row of the level's first row
+   * @param analysis - The analysis to add the rows to
+   * @private
+   */
+  private analyzeRows(level: LevelConfig, rowOffset: number, analysis: LevelAnalysis): void {
+    // Analyze each row to determine its primary terrain type
+    for (let rowIndex = 0; rowIndex < level.height; rowIndex++) {
+      const rowData = level.grid[rowIndex];
+      const lane = level.lanes?.find(settings => settings.row === rowIndex);
+      const rowInfo = this.analyzeRow(rowOffset + rowIndex, rowData, analysis.waterRows.length, lane);
+
+      switch (rowInfo.type) {
+        case CellType.WATER:
+          analysis.waterRows.push(rowInfo);
+          break;
+        case CellType.ROAD:
+          analysis.roadRows.push(rowInfo);
+          break;
+        case CellType.SAFE_GRASS:
+          analysis.grassRows.push(rowInfo);
+          break;
+      }
+    }
+    analysis.totalRows += level.height;
+  }
+
   /**
    * Analyzes a single row to determine its properties
-   * @param rowIndex - The index of the row being analyzed
+   * @param rowIndex - The grid index of the row being analyzed
    * @param rowData - The character data for the row
+   * @param waterRowOrder - Number of water rows above this row (used for default platform settings)
+   * @param lane - Lane settings the level defines for the row
    * @returns Information about the row's properties
    * @private
    */
-  private analyzeRow(rowIndex: number, rowData: string): RowInfo {
+  private analyzeRow(rowIndex: number, rowData: string, waterRowOrder: number, lane?: LaneSettings): RowInfo {
     // Count terrain types in this row
     const terrainCounts = {
       water: 0,
@@ -182,6 +259,8 @@ export class LevelAnalyzer {
         case 'H': // Ant hill (on grass)
         case 'C': // Cherry (on grass)
         case 'K': // Cookie (on grass)
+        case 'S': // Checkpoint (on grass)
+        case 'T': // Frog (on grass)
           terrainCounts.grass++;
           break;
       }
@@ -195,17 +274,27 @@ export class LevelAnalyzer {
       primaryType = CellType.ROAD;
     }
 
-    // Determine movement directions (alternating pattern)
-    const obstacleDirection = rowIndex % 2 === 0 ? 'RIGHT' : 'LEFT';
-    const platformDirection = rowIndex % 2 === 0 ? 'RIGHT' : 'LEFT';
+    const isWater = primaryType === CellType.WATER;
+
+    // Determine movement directions (lane settings, or alternating pattern by default)
+    const defaultDirection = rowIndex % 2 === 0 ? 'RIGHT' : 'LEFT';
+    const direction = lane?.direction
+      ? (lane.direction === Direction.RIGHT ? 'RIGHT' : 'LEFT')
+      : defaultDirection;
 
     return {
       index: rowIndex,
       type: primaryType,
-      needsPlatforms: primaryType === CellType.WATER,
+      needsPlatforms: isWater,
       hasMovingObstacles: primaryType === CellType.ROAD,
-      obstacleDirection,
-      platformDirection
+      obstacleDirection: direction,
+      platformDirection: direction,
+      // Default platforms alternate LOG, LEAF, LOG... and cycle through speeds in water row order
+      platformType: lane?.platform ?? (waterRowOrder % 2 === 0 ? 'log' : 'leaf'),
+      speed: lane?.speed ?? (isWater ? DEFAULT_PLATFORM_SPEEDS[waterRowOrder % DEFAULT_PLATFORM_SPEEDS.length] : undefined),
+      obstacleType: lane?.obstacle,
+      gap: lane?.gap ?? (isWater ? DEFAULT_PLATFORM_GAP : undefined),
+      count: lane?.count
     };
   }
 }
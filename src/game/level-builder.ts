@@ -4,35 +4,24 @@
  */
 
 import Phaser from 'phaser';
-import { GRID_SIZE, ImageKeys, Direction } from '../config/constants';
-import { LEVEL_1_CONFIG } from '../config/level1';
+import { GRID_SIZE, ImageKeys } from '../config/constants';
+import { LevelConfig } from '../config/level-config';
 import { GridSystem, GridObjectType, CellType } from './grid-system';
-import { LevelAnalyzer } from './level-analyzer';
+import { isPlatformEntity, MovingEntity } from './lane-layout';
+import { Checkpoint } from '../objects/checkpoint';
 import { Collectible, CollectibleType } from '../objects/collectible';
-import { Obstacle, ObstacleType } from '../objects/obstacle';
-import { Platform, PlatformType } from '../objects/platform';
+import { Obstacle } from '../objects/obstacle';
+import { Platform } from '../objects/platform';
 
-const PLATFORM_BUFFER = 400;
-const PLATFORM_GAP = 50;
-const PLATFORM_SPAWN_DELAY = 10;
-
-const LOG_WIDTH = 150;
-const LEAF_WIDTH = 120;
-
-const PLATFORM_SPEEDS = [25, 35, 30];
-
-const TILE_INDICES = {
+/**
+ * Background tile frames for each terrain type
+ */
+export const TILE_INDICES = {
   GRASS: 0,
   WATER: 9,
   ROAD: 4
 };
 
-const OBSTACLE_SPEEDS = {
-  POISON: 60,
-  NAIL: 40,
-  SPRAY: 80
-} as const;
-
 const ANT_HILL_SIZE = 64;
 
 /**
@@ -40,9 +29,9 @@ const ANT_HILL_SIZE = 64;
  * 
  * This class provides:
  * - Background tile rendering based on grid system
- * - Static object creation (obstacles, collectibles)
- * - Dynamic platform generation for water areas
- * - Ant hill (goal) creation
+ * - Collectible creation
+ * - Sprites for the simulation's moving platforms and obstacles
+ * - Ant hill (goal) and checkpoint flag creation
  * - Level layout management
  * 
  * The level builder works with the GridSystem to create visually consistent
@@ -53,27 +42,35 @@ export class LevelBuilder {
   private scene: Phaser.Scene;
   /** Reference to the grid system */
   private gridSystem: GridSystem;
-  /** Level analyzer for dynamic row type detection */
-  private levelAnalyzer: LevelAnalyzer;
+  /** The level configuration being built */
+  private level: LevelConfig;
+  /** Grid row of the level's first row */
+  private rowOffset: number;
 
   /**
    * Creates a new LevelBuilder instance
    * @param scene - The Phaser scene to build the level in
    * @param gridSystem - The grid system to use for positioning
+   * @param level - The level configuration to build
+   * @param rowOffset - Grid row of the level's first row (non-zero when building one section of a taller grid)
    */
-  constructor(scene: Phaser.Scene, gridSystem: GridSystem) {
+  constructor(scene: Phaser.Scene, gridSystem: GridSystem, level: LevelConfig, rowOffset: number = 0) {
     this.scene = scene;
     this.gridSystem = gridSystem;
-    this.levelAnalyzer = new LevelAnalyzer();
+    this.level = level;
+    this.rowOffset = rowOffset;
   }
 
   /**
    * Creates the background tiles for the entire level based on the grid system.
    * Renders appropriate tiles for grass, water, and road areas.
+   * @returns Every tile image created, so callers can layer or clear them
    */
-  public createBackground(): void {
+  public createBackground(): Phaser.GameObjects.Image[] {
+    const tiles: Phaser.GameObjects.Image[] = [];
+
     // Render background based on grid definition
-    for (let row = 0; row < this.gridSystem.getGridHeight(); row++) {
+    for (let row = this.rowOffset; row < this.rowOffset + this.level.height; row++) {
       for (let col = 0; col < this.gridSystem.getGridWidth(); col++) {
         const cell = this.gridSystem.getCell(row, col);
         if (!cell) continue;
@@ -95,10 +92,11 @@ export class LevelBuilder {
         }
         
         // Create background tile
-        this.scene.add.image(x, y, ImageKeys.BACKGROUND_TILES, tileIndex)
+        const tile = this.scene.add.image(x, y, ImageKeys.BACKGROUND_TILES, tileIndex)
           .setOrigin(0.5, 0.5)
           .setDisplaySize(GRID_SIZE, GRID_SIZE)
           .setDepth(-1);
+        tiles.push(tile);
       }
     }
     
@@ -111,7 +109,7 @@ export class LevelBuilder {
       const extraWidth = gameWidth - gridPixelWidth;
       const extraCols = Math.ceil(extraWidth / GRID_SIZE);
       
-      for (let row = 0; row < this.gridSystem.getGridHeight(); row++) {
+      for (let row = this.rowOffset; row < this.rowOffset + this.level.height; row++) {
         // Get the rightmost cell to determine background type
         const rightmostCell = this.gridSystem.getCell(row, this.gridSystem.getGridWidth() - 1);
         let tileIndex = TILE_INDICES.GRASS;
@@ -135,87 +133,50 @@ export class LevelBuilder {
           const x = gridPixelWidth + (extraCol * GRID_SIZE) + (GRID_SIZE / 2);
           const y = (row * GRID_SIZE) + (GRID_SIZE / 2);
           
-          this.scene.add.image(x, y, ImageKeys.BACKGROUND_TILES, tileIndex)
+          const tile = this.scene.add.image(x, y, ImageKeys.BACKGROUND_TILES, tileIndex)
             .setOrigin(0.5, 0.5)
             .setDisplaySize(GRID_SIZE, GRID_SIZE)
             .setDepth(-1);
+          tiles.push(tile);
         }
       }
     }
+
+    return tiles;
   }
 
   /**
-   * Creates static objects (obstacles and collectibles) based on the grid definition
-   * @param obstacles - Physics group to add obstacle objects to
+   * Creates static objects (collectibles) based on the grid definition.
    * @param collectibles - Physics group to add collectible objects to
    */
-  public createStaticObjects(
-    obstacles: Phaser.Physics.Arcade.Group,
-    collectibles: Phaser.Physics.Arcade.Group
-  ): void {
-    for (let row = 0; row < this.gridSystem.getGridHeight(); row++) {
+  public createStaticObjects(collectibles: Phaser.Physics.Arcade.Group): void {
+    for (let row = this.rowOffset; row < this.rowOffset + this.level.height; row++) {
       for (let col = 0; col < this.gridSystem.getGridWidth(); col++) {
         const cell = this.gridSystem.getCell(row, col);
         if (!cell) continue;
 
-        this.createGridObject(row, col, cell.object, obstacles, collectibles);
+        this.createGridObject(row, col, cell.object, collectibles);
       }
     }
   }
 
   /**
-   * Creates moving platforms for water areas with proper spacing and speeds.
-   * Generates logs and leaves that move in alternating directions.
-   * @param platforms - Physics group to add platform objects to
+   * Creates a sprite for every moving platform and obstacle of the simulation
+   * The sprites follow the entities they show as the simulation moves them
+   * @param entities - The platforms and obstacles to show
+   * @param obstacles - Group to add obstacle sprites to
+   * @param platforms - Group to add platform sprites to
    */
-  public createWaterPlatforms(platforms: Phaser.Physics.Arcade.Group): void {
-    const width = this.scene.cameras.main.width;
-    const waterRows = this.levelAnalyzer.getWaterRows();
-    
-    // Create platforms for each water row
-    waterRows.forEach((rowInfo, index) => {
-      const y = rowInfo.index * GRID_SIZE;
-      
-      // Alternate platform types: LOG, LEAF, LOG, etc.
-      const platformType = index % 2 === 0 ? PlatformType.LOG : PlatformType.LEAF;
-      const direction = rowInfo.platformDirection === 'RIGHT' ? Direction.RIGHT : Direction.LEFT;
-      
-      // Get speed for this row (cycle through available speeds)
-      const speed = PLATFORM_SPEEDS[index % PLATFORM_SPEEDS.length];
-      
-      // Calculate platform spacing
-      const platformWidth = platformType === PlatformType.LOG ? LOG_WIDTH : LEAF_WIDTH;
-      const platformSpacing = platformWidth + PLATFORM_GAP;
-      const platformCount = Math.ceil((width + PLATFORM_BUFFER) / platformSpacing);
-      
-      for (let j = 0; j < platformCount; j++) {
-        let platformX;
-        
-        if (direction === Direction.RIGHT) {
-          platformX = -200 + (j * platformSpacing);
-        } else {
-          platformX = width + 200 - (j * platformSpacing);
-        }
-        
-        const platform = new Platform(
-          this.scene,
-          platformX,
-          y + GRID_SIZE / 2,
-          platformType,
-          speed,
-          direction
-        );
-        
-        platforms.add(platform);
-        
-        // Ensure platforms move
-        this.scene.time.delayedCall(PLATFORM_SPAWN_DELAY, () => {
-          if (direction === Direction.LEFT) {
-            platform.setVelocityX(-speed);
-          } else {
-            platform.setVelocityX(speed);
-          }
-        });
+  public createLaneObjects(
+    entities: readonly MovingEntity[],
+    obstacles: Phaser.GameObjects.Group,
+    platforms: Phaser.GameObjects.Group
+  ): void {
+    entities.forEach(entity => {
+      if (isPlatformEntity(entity)) {
+        platforms.add(new Platform(this.scene, entity));
+      } else {
+        obstacles.add(new Obstacle(this.scene, entity));
       }
     });
   }
@@ -226,8 +187,8 @@ export class LevelBuilder {
    */
   public createAntHill(): Phaser.Physics.Arcade.Sprite {
     const { x, y } = this.gridSystem.getWorldPosition(
-      LEVEL_1_CONFIG.antHillRow,
-      LEVEL_1_CONFIG.antHillCol
+      this.rowOffset + this.level.antHillRow,
+      this.level.antHillCol
     );
 
     const antHill = this.scene.physics.add.sprite(x, y, ImageKeys.ANT_HILL);
@@ -237,6 +198,24 @@ export class LevelBuilder {
     return antHill;
   }
 
+  /**
+   * Creates a flag for every checkpoint in the level
+   * @returns The created checkpoints, top to bottom
+   */
+  public createCheckpoints(): Checkpoint[] {
+    const checkpoints: Checkpoint[] = [];
+
+    for (let row = this.rowOffset; row < this.rowOffset + this.level.height; row++) {
+      for (let col = 0; col < this.gridSystem.getGridWidth(); col++) {
+        if (this.gridSystem.getCell(row, col)?.object === GridObjectType.CHECKPOINT) {
+          checkpoints.push(new Checkpoint(this.scene, row, col));
+        }
+      }
+    }
+
+    return checkpoints;
+  }
+
   /**
    * Creates visual sprites for collectible items after placing them randomly
    * @param collectibles - Physics group to add collectible sprites to
@@ -268,7 +247,6 @@ export class LevelBuilder {
    * @param row - Grid row position
    * @param col - Grid column position
    * @param objectType - Type of object to create
-   * @param obstacles - Physics group for obstacles
    * @param collectibles - Physics group for collectibles
    * @private
    */
@@ -276,7 +254,6 @@ export class LevelBuilder {
     row: number,
     col: number,
     objectType: GridObjectType,
-    obstacles: Phaser.Physics.Arcade.Group,
     collectibles: Phaser.Physics.Arcade.Group
   ): void {
     const { x, y } = this.gridSystem.getWorldPosition(row, col);
@@ -291,21 +268,10 @@ export class LevelBuilder {
         collectibles.add(cookie);
         break;
       case GridObjectType.POISON:
-        const poisonDirection = this.levelAnalyzer.getObstacleDirection(row) === 'RIGHT' ? Direction.RIGHT : Direction.LEFT;
-        const poison = new Obstacle(this.scene, x, y, ObstacleType.POISON, OBSTACLE_SPEEDS.POISON, poisonDirection);
-        obstacles.add(poison);
-        break;
       case GridObjectType.NAIL:
-        const nailDirection = this.levelAnalyzer.getObstacleDirection(row) === 'RIGHT' ? Direction.RIGHT : Direction.LEFT;
-        const nail = new Obstacle(this.scene, x, y, ObstacleType.NAIL, OBSTACLE_SPEEDS.NAIL, nailDirection);
-        obstacles.add(nail);
-        break;
       case GridObjectType.SPRAY:
-        const sprayDirection = this.levelAnalyzer.getObstacleDirection(row) === 'RIGHT' ? Direction.RIGHT : Direction.LEFT;
-        const spray = new Obstacle(this.scene, x, y, ObstacleType.SPRAY, OBSTACLE_SPEEDS.SPRAY, sprayDirection);
-        obstacles.add(spray);
-        break;
       case GridObjectType.ANT_HILL:
+      case GridObjectType.CHECKPOINT:
       case GridObjectType.LOG:
       case GridObjectType.LEAF:
       case GridObjectType.NONE:
@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Procedural level generator for the Antzer game
+ * Builds level grids in the standard character format from a seed and a difficulty curve by
+ * stacking section templates (water bands, road bands, and safe strips) between the start and goal,
+ * or one section at a time for endless mode
+ */
+
+import { Direction } from '../config/constants';
+import { createLevelConfig, LaneSettings, LevelConfig, validateLevel } from '../config/level-config';
+import { SeededRandom } from '../utils/seeded-random';
+
+/**
+ * Difficulty from 0 (easiest) to 1 (hardest) at a point in the level
+ * Progress runs from 0 at the ant start to 1 at the ant hill
+ */
+export type DifficultyCurve = (progress: number) => number;
+
+/**
+ * Options for generating a level
+ */
+export interface LevelGeneratorOptions {
+  /** Seed the level is built from - the same seed always gives the same level */
+  seed: string;
+  /** Fixed difficulty from 0 to 1, or a curve along the level (defaults to DEFAULT_DIFFICULTY) */
+  difficulty?: number | DifficultyCurve;
+  /** Number of water and road bands between the start and goal */
+  bandCount?: number;
+}
+
+/**
+ * Create a difficulty curve that ramps linearly from the ant start to the ant hill
+ * @param start - Difficulty at the ant start
+ * @param end - Difficulty at the ant hill
+ */
+export function rampDifficulty(start: number, end: number): DifficultyCurve {
+  return progress => start + (end - start) * progress;
+}
+
+/**
+ * Difficulty curve used for shared seeds
+ */
+export const DEFAULT_DIFFICULTY: DifficultyCurve = rampDifficulty(0.2, 0.8);
+
+const DEFAULT_BAND_COUNT = 6;
+const LEVEL_WIDTH = 16;
+const PAR_SECONDS_PER_ROW = 2.5;
+
+/** Attempts before falling back to a level without hazards */
+const MAX_ATTEMPTS = 10;
+/** Difficulty multiplier applied on each retry after a level fails validation */
+const RETRY_EASING = 0.8;
+
+const OBSTACLE_CHARACTERS = ['P', 'Y', 'N'] as const;
+
+/** Minimum and maximum values, reached at difficulty 0 and 1 */
+interface DifficultyRange {
+  easy: number;
+  hard: number;
+}
+
+const WATER_SPEED: DifficultyRange = { easy: 20, hard: 55 };
+const WATER_GAP: DifficultyRange = { easy: 24, hard: 120 };
+const ROAD_SPEED: DifficultyRange = { easy: 40, hard: 90 };
+const ROAD_OBSTACLES: DifficultyRange = { easy: 1, hard: 5 };
+const COLLECTIBLE_DENSITY: DifficultyRange = { easy: 0.04, hard: 0.15 };
+/** Chance that a collectible is a cookie (worth more) rather than a cherry */
+const COOKIE_CHANCE: DifficultyRange = { easy: 0.2, hard: 0.6 };
+/** Chance that a water row uses leaves (shorter) rather than logs */
+const LEAF_CHANCE: DifficultyRange = { easy: 0.1, hard: 0.7 };
+
+/**
+ * Kinds of level section
+ */
+type SectionKind = 'water' | 'road' | 'safe';
+
+/**
+ * Section template describing how many rows a section spans
+ */
+interface SectionTemplate {
+  /** Rows in the section at difficulty 0 and 1 (plus up to one extra random row) */
+  rows: DifficultyRange;
+}
+
+const SECTION_TEMPLATES: Record<SectionKind, SectionTemplate> = {
+  water: { rows: { easy: 1, hard: 3 } },
+  road: { rows: { easy: 1, hard: 3 } },
+  safe: { rows: { easy: 1, hard: 1 } }
+};
+
+/**
+ * A generated row before row indices are assigned
+ */
+interface GeneratedRow {
+  line: string;
+  lane?: Omit<LaneSettings, 'row'>;
+}
+
+/**
+ * Generate a level from a seed
+ * Levels that fail validation are regenerated with easier settings until one passes,
+ * so every generated level is winnable
+ *
+ * @param options - Seed, difficulty, and size of the level
+ * @returns The generated level configuration
+ */
+export function generateLevel(options: LevelGeneratorOptions): LevelConfig {
+  const random = new SeededRandom(options.seed);
+  const difficulty = options.difficulty ?? DEFAULT_DIFFICULTY;
+  const curve = typeof difficulty === 'number' ? () => difficulty : difficulty;
+  const bandCount = options.bandCount ?? DEFAULT_BAND_COUNT;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const easing = Math.pow(RETRY_EASING, attempt);
+    const rows = buildRows(random, progress => clamp(curve(progress)) * easing, bandCount);
+    const level = createGeneratedLevel(`seed-${options.seed}`, `Seed ${options.seed}`, rows);
+
+    if (validateLevel(level).length === 0) {
+      return level;
+    }
+  }
+
+  return createGeneratedLevel(`seed-${options.seed}`, `Seed ${options.seed}`, buildRows(random, () => 0, 0));
+}
+
+/**
+ * Generate one section for a level that grows as it is played (endless mode):
+ * a water or road band with a safe strip above it, and no ant start or ant hill
+ * Sections that can't be crossed are regenerated with easier settings, like whole levels
+ *
+ * @param random - Seeded random number generator shared by every section of the level
+ * @param difficulty - Difficulty from 0 to 1
+ * @param id - Id of the section's level configuration
+ * @returns The section's level configuration
+ */
+export function generateSection(random: SeededRandom, difficulty: number, id: string): LevelConfig {
+  const grass = 'G'.repeat(LEVEL_WIDTH);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const easing = Math.pow(RETRY_EASING, attempt);
+    const rows = buildSectionRows(random, clamp(difficulty) * easing);
+
+    // Check the section between a start and a goal row, which proves it can be crossed from below
+    const testLevel = createGeneratedLevel(id, id, [
+      { line: placeCharacter(grass, 'H', 0) },
+      ...rows,
+      { line: placeCharacter(grass, 'A', 0) }
+    ]);
+
+    if (validateLevel(testLevel).length === 0) {
+      return createGeneratedLevel(id, id, rows);
+    }
+  }
+
+  return createGeneratedLevel(id, id, buildSection(random, 'safe', 0));
+}
+
+/**
+ * Build the rows of an endless section, from its safe strip at the top to its band at the bottom
+ */
+function buildSectionRows(random: SeededRandom, difficulty: number): GeneratedRow[] {
+  const kind: SectionKind = random.chance(0.5) ? 'water' : 'road';
+
+  return [
+    ...buildSection(random, kind, difficulty),
+    ...buildSection(random, 'safe', difficulty)
+  ].reverse();
+}
+
+/**
+ * Build every row of a level, from the ant hill at the top to the ant start at the bottom
+ * @param random - Seeded random number generator
+ * @param curve - Difficulty along the level
+ * @param bandCount - Number of water and road bands
+ */
+function buildRows(random: SeededRandom, curve: DifficultyCurve, bandCount: number): GeneratedRow[] {
+  // Rows are built bottom-up so progress follows the player from the start to the goal
+  const rows: GeneratedRow[] = [
+    { line: placeCharacter('G'.repeat(LEVEL_WIDTH), 'A', Math.floor(LEVEL_WIDTH / 2) - 1) },
+    buildSafeRow(random, curve(0))
+  ];
+
+  for (let band = 0; band < bandCount; band++) {
+    const progress = (band + 0.5) / bandCount;
+    const difficulty = curve(progress);
+    const kind: SectionKind = random.chance(0.5) ? 'water' : 'road';
+
+    rows.push(...buildSection(random, kind, difficulty));
+    if (band < bandCount - 1) {
+      rows.push(...buildSection(random, 'safe', difficulty));
+    }
+  }
+
+  rows.push(
+    buildSafeRow(random, curve(1)),
+    { line: placeCharacter('G'.repeat(LEVEL_WIDTH), 'H', random.nextInt(0, LEVEL_WIDTH - 1)) }
+  );
+
+  return rows.reverse();
+}
+
+/**
+ * Build the rows of a section from its template
+ * Lanes in a water or road band alternate direction, starting from a random direction
+ */
+function buildSection(random: SeededRandom, kind: SectionKind, difficulty: number): GeneratedRow[] {
+  const rowCount = Math.round(lerp(SECTION_TEMPLATES[kind].rows, difficulty)) + random.nextInt(0, 1);
+  const firstDirection = random.chance(0.5) ? Direction.LEFT : Direction.RIGHT;
+
+  return Array.from({ length: rowCount }, (_, index) => {
+    const direction = index % 2 === 0
+      ? firstDirection
+      : (firstDirection === Direction.LEFT ? Direction.RIGHT : Direction.LEFT);
+
+    switch (kind) {
+      case 'water':
+        return buildWaterRow(random, difficulty, direction);
+      case 'road':
+        return buildRoadRow(random, difficulty, direction);
+      default:
+        return buildSafeRow(random, difficulty);
+    }
+  });
+}
+
+/**
+ * Build a water row with platform lane settings scaled by difficulty
+ */
+function buildWaterRow(random: SeededRandom, difficulty: number, direction: Direction): GeneratedRow {
+  return {
+    line: 'W'.repeat(LEVEL_WIDTH),
+    lane: {
+      direction,
+      speed: roundTo(lerp(WATER_SPEED, difficulty) + random.nextInt(-5, 5), 5),
+      platform: random.chance(lerp(LEAF_CHANCE, difficulty)) ? 'leaf' : 'log',
+      gap: roundTo(lerp(WATER_GAP, difficulty), 6)
+    }
+  };
+}
+
+/**
+ * Build a road row with obstacles spread along it, their number and speed scaled by difficulty
+ */
+function buildRoadRow(random: SeededRandom, difficulty: number, direction: Direction): GeneratedRow {
+  const obstacleCount = Math.round(lerp(ROAD_OBSTACLES, difficulty));
+  const slotWidth = LEVEL_WIDTH / obstacleCount;
+  let line = 'R'.repeat(LEVEL_WIDTH);
+
+  // One obstacle per evenly sized slot keeps obstacles from bunching up
+  for (let i = 0; i < obstacleCount; i++) {
+    const col = Math.floor(i * slotWidth) + random.nextInt(0, Math.max(0, Math.floor(slotWidth) - 1));
+    line = placeCharacter(line, random.pick(OBSTACLE_CHARACTERS), col);
+  }
+
+  return {
+    line,
+    lane: {
+      direction,
+      speed: roundTo(lerp(ROAD_SPEED, difficulty) + random.nextInt(-5, 5), 5)
+    }
+  };
+}
+
+/**
+ * Build a grass row scattered with collectibles, more and richer at higher difficulty
+ */
+function buildSafeRow(random: SeededRandom, difficulty: number): GeneratedRow {
+  const density = lerp(COLLECTIBLE_DENSITY, difficulty);
+  const cookieChance = lerp(COOKIE_CHANCE, difficulty);
+  let line = '';
+
+  for (let col = 0; col < LEVEL_WIDTH; col++) {
+    if (random.chance(density)) {
+      line += random.chance(cookieChance) ? 'K' : 'C';
+    } else {
+      line += 'G';
+    }
+  }
+
+  return { line };
+}
+
+/**
+ * Create the level configuration for generated rows
+ */
+function createGeneratedLevel(id: string, name: string, rows: GeneratedRow[]): LevelConfig {
+  const lanes: LaneSettings[] = [];
+  rows.forEach((row, index) => {
+    if (row.lane) {
+      lanes.push({ row: index, ...row.lane });
+    }
+  });
+
+  return createLevelConfig({
+    id,
+    name,
+    grid: rows.map(row => row.line),
+    parTimeSeconds: Math.round(rows.length * PAR_SECONDS_PER_ROW),
+    lanes
+  });
+}
+
+/**
+ * Replace the character at a column of a row
+ */
+function placeCharacter(line: string, char: string, col: number): string {
+  return line.slice(0, col) + char + line.slice(col + 1);
+}
+
+/**
+ * Interpolate a difficulty range
+ */
+function lerp(range: DifficultyRange, difficulty: number): number {
+  return range.easy + (range.hard - range.easy) * difficulty;
+}
+
+/**
+ * Round a value to the nearest multiple of a step
+ */
+function roundTo(value: number, step: number): number {
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+/**
+ * Clamp a difficulty to the 0-1 range
+ */
+function clamp(difficulty: number): number {
+  return Math.min(1, Math.max(0, difficulty));
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Star rating system for completed levels
+ * Rates a level completion from 1 to 3 stars based on completion time and collectibles taken
+ */
+
+import { LevelConfig } from '../config/level-config';
+
+/** Par time used when a level does not define one */
+const DEFAULT_PAR_TIME_SECONDS = 120;
+/** Share of a level's collectibles that must be taken to earn the collectibles star */
+const COLLECTIBLE_STAR_RATIO = 0.5;
+/** Characters in the level legend that place a collectible */
+const COLLECTIBLE_CHARACTERS = ['C', 'K'];
+
+/**
+ * Highest number of stars a level completion can earn
+ */
+export const MAX_STARS = 3;
+
+/**
+ * Count the collectibles placed in a level grid
+ * @param level - The level configuration to scan
+ * @returns Number of cherries and cookies in the level
+ */
+export function countCollectibles(level: LevelConfig): number {
+  return level.grid.reduce(
+    (total, row) => total + [...row].filter(char => COLLECTIBLE_CHARACTERS.includes(char)).length,
+    0
+  );
+}
+
+/**
+ * Calculate the star rating for a level completion
+ * - 1 star for reaching the ant hill
+ * - 1 star for finishing within the level's par time
+ * - 1 star for taking at least half of the level's collectibles
+ *
+ * @param level - The completed level configuration
+ * @param timeMs - Completion time in milliseconds
+ * @param collected - Number of collectibles taken during the level
+ * @returns Star rating from 1 to MAX_STARS
+ */
+export function calculateStars(level: LevelConfig, timeMs: number, collected: number): number {
+  let stars = 1;
+
+  const parTimeMs = (level.parTimeSeconds ?? DEFAULT_PAR_TIME_SECONDS) * 1000;
+  if (timeMs <= parTimeMs) {
+    stars++;
+  }
+
+  const totalCollectibles = countCollectibles(level);
+  if (totalCollectibles === 0 || collected / totalCollectibles >= COLLECTIBLE_STAR_RATIO) {
+    stars++;
+  }
+
+  return stars;
+}
@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Reachability solver for level validation
+ * Plays a level's lane timings forward in fixed time steps over the grid to prove the ant
+ * can reach the ant hill, find the fewest moves needed, and locate rows that block the way
+ */
+
+import { GAME_WIDTH, GRID_SIZE } from '../config/constants';
+import { LevelConfig } from '../config/level-config';
+import { FIXED_STEP_MS } from './fixed-timestep';
+import { canFrogOccupy, createFrogState, stepFrog } from './frog';
+import { CellType, GridObjectType, GridSystem } from './grid-system';
+import {
+  buildLaneEntities,
+  getEntityColumns,
+  getEntityX,
+  isFrogEntity,
+  isPlatformEntity,
+  LaneEntity,
+  MovingEntity
+} from './lane-layout';
+import { LevelAnalyzer } from './level-analyzer';
+import { getCellX, HOP_DURATION_MS } from './simulation';
+
+/** Time between solver steps, roughly how quickly a player can press keys (longer than a hop) */
+const SOLVER_STEP_MS = 200;
+/** Longest run the solver plays out before giving up */
+const SOLVER_TIME_LIMIT_MS = 180000;
+/** Horizontal resolution used to merge ant positions while riding platforms */
+const POSITION_BUCKET_SIZE = GRID_SIZE / 8;
+
+/**
+ * Result of solving a level
+ */
+export interface LevelSolution {
+  /** Whether the ant can reach the ant hill */
+  solvable: boolean;
+  /** Fewest moves needed to reach the ant hill, or null if it cannot be reached */
+  minMoves: number | null;
+  /** First row toward the ant hill the ant can never stand on, or null if there is none */
+  blockedRow: number | null;
+}
+
+/**
+ * A position the ant can be alive at after a number of moves
+ */
+interface SolverState {
+  row: number;
+  /** Horizontal ant position in pixels (off-center while riding a platform) */
+  x: number;
+  moves: number;
+}
+
+/**
+ * Outcome of the ant occupying a position at a point in time
+ */
+type Occupancy = 'alive' | 'dead' | 'win';
+
+/** Moves the ant can make each step, as row and column offsets (staying put is free) */
+const ACTIONS = [
+  { rowOffset: 0, colOffset: 0 },
+  { rowOffset: -1, colOffset: 0 },
+  { rowOffset: 1, colOffset: 0 },
+  { rowOffset: 0, colOffset: -1 },
+  { rowOffset: 0, colOffset: 1 }
+] as const;
+
+/**
+ * Level solver class that searches every ant position over time for a path to the ant hill.
+ *
+ * Each step the ant may stay or move one cell. A move is a hop, the same as in GameSimulation:
+ * until it lands `HOP_DURATION_MS` later the ant is still in the cell it left, riding any
+ * platform there, and the cell it lands in only counts from then on. After landing, the ant
+ * drifts with any platform it is riding until the next step. Positions where the ant would
+ * die are dropped and the rest are merged, keeping the fewest moves for each row and position.
+ * The search ends when no faster path is possible or the time limit is reached.
+ *
+ * Lanes are only checked at the start of a step, when a hop lands, and at the end of the step,
+ * so an obstacle that passes through a cell between those times is missed. To allow for that,
+ * the cell a hop leaves must still be safe when the hop lands, although the game would already
+ * count the ant as in the cell it lands in.
+ */
+export class LevelSolver {
+  /** The level configuration being solved */
+  private level: LevelConfig;
+  /** Static grid for the level */
+  private gridSystem: GridSystem;
+  /** Level analyzer for row type detection */
+  private levelAnalyzer: LevelAnalyzer;
+  /** Every moving platform and obstacle in the level, except frogs */
+  private entities: LaneEntity[];
+  /** Every frog in the level, hopped forward as the search goes on */
+  private frogs: MovingEntity[];
+  /** Gameplay steps the frogs have been played forward by */
+  private frogSteps: number = 0;
+  /** Speed (px/s) of the platforms in each row, zero for rows without platforms */
+  private rideVelocity: number[];
+
+  /**
+   * Creates a new LevelSolver instance
+   * @param level - The level configuration to solve
+   * @param viewWidth - Width of the visible play area in pixels
+   */
+  constructor(level: LevelConfig, viewWidth: number = GAME_WIDTH) {
+    this.level = level;
+    this.gridSystem = new GridSystem(level);
+    this.levelAnalyzer = new LevelAnalyzer(level);
+    const entities = buildLaneEntities(level, this.levelAnalyzer, viewWidth);
+    this.entities = entities.filter(entity => !isFrogEntity(entity));
+
+    // Frogs hop on a timer rather than along a lane, so they are played forward step by step
+    this.frogs = entities.filter(isFrogEntity).map((entity, id) => ({
+      ...entity,
+      id,
+      x: entity.startX,
+      frog: createFrogState(getEntityColumns(entity, entity.startX).leftCol)
+    }));
+    this.rideVelocity = new Array(level.height).fill(0);
+
+    this.entities.filter(isPlatformEntity).forEach(entity => {
+      this.rideVelocity[entity.row] = entity.velocity;
+    });
+  }
+
+  /**
+   * Searches for the shortest path from the ant start to the ant hill
+   * @returns Whether the level can be solved, the fewest moves, and any blocking row
+   */
+  public solve(): LevelSolution {
+    const { antStartRow, antStartCol, antHillRow } = this.level;
+    const reachedRows = new Set<number>([antStartRow]);
+    let minMoves: number | null = null;
+
+    let states = new Map<number, SolverState>();
+    const start = { row: antStartRow, x: getCellX(antStartCol), moves: 0 };
+    states.set(this.getStateKey(start.row, start.x), start);
+
+    for (let timeMs = 0; timeMs < SOLVER_TIME_LIMIT_MS && states.size > 0; timeMs += SOLVER_STEP_MS) {
+      const landingFrame = this.buildSafetyFrame(timeMs + HOP_DURATION_MS);
+      const nextFrame = this.buildSafetyFrame(timeMs + SOLVER_STEP_MS);
+      const nextStates = new Map<number, SolverState>();
+
+      for (const state of states.values()) {
+        for (const action of ACTIONS) {
+          const moved = action.rowOffset !== 0 || action.colOffset !== 0;
+          const moves = state.moves + (moved ? 1 : 0);
+          const target = this.applyAction(state, action.rowOffset, action.colOffset);
+          if (!target) continue;
+
+          // Every move changes the row by at most one, so skip paths that cannot beat the best
+          if (minMoves !== null && moves + Math.abs(target.row - antHillRow) >= minMoves) continue;
+
+          let { row, x } = state;
+          let driftMs = SOLVER_STEP_MS;
+          if (moved) {
+            // Until the hop lands the ant is still in the cell it left, riding any platform there...
+            const hopDrift = this.getDrift(state.row, state.x, HOP_DURATION_MS);
+            if (this.getOccupancy(state.row, state.x + hopDrift, landingFrame) === 'dead') continue;
+
+            // ...then it lands in the cell the hop ends over
+            row = target.row;
+            x = getCellX(Math.floor((target.x + hopDrift) / GRID_SIZE));
+            const landing = this.getOccupancy(row, x, landingFrame);
+            if (landing === 'win') {
+              minMoves = moves;
+              continue;
+            }
+            if (landing === 'dead') continue;
+            driftMs -= HOP_DURATION_MS;
+          }
+
+          // The ant drifts with its platform until the next step
+          x += this.getDrift(row, x, driftMs);
+          const drifted = this.getOccupancy(row, x, nextFrame);
+          if (drifted === 'win') {
+            minMoves = moves;
+            continue;
+          }
+          if (drifted === 'dead') continue;
+
+          reachedRows.add(row);
+          const key = this.getStateKey(row, x);
+          const existing = nextStates.get(key);
+          if (!existing || existing.moves > moves) {
+            nextStates.set(key, { row, x, moves });
+          }
+        }
+      }
+
+      states = nextStates;
+    }
+
+    return {
+      solvable: minMoves !== null,
+      minMoves,
+      blockedRow: minMoves === null ? this.findBlockedRow(reachedRows) : null
+    };
+  }
+
+  /**
+   * Applies a move to a state, following the GameSimulation movement rules
+   * @returns The ant position after the move, or null if the move is not possible
+   * @private
+   */
+  private applyAction(state: SolverState, rowOffset: number, colOffset: number): { row: number; x: number } | null {
+    if (rowOffset === 0 && colOffset === 0) {
+      return { row: state.row, x: state.x };
+    }
+
+    const row = state.row + rowOffset;
+    const col = Math.round((state.x - GRID_SIZE / 2) / GRID_SIZE) + colOffset;
+
+    if (row < 0 || row >= this.level.height) return null;
+    if (colOffset !== 0 && (col < 0 || col >= this.level.width)) return null;
+
+    return { row, x: getCellX(col) };
+  }
+
+  /**
+   * Gets how far the ant drifts over a stretch of time at a position
+   * The ant only drifts while standing on water, where it must be riding a platform
+   * @param row - Grid row of the ant
+   * @param x - Horizontal ant position in pixels
+   * @param durationMs - Length of the drift in milliseconds
+   * @private
+   */
+  private getDrift(row: number, x: number, durationMs: number): number {
+    const cell = this.gridSystem.getCell(row, Math.floor(x / GRID_SIZE));
+    if (cell?.type !== CellType.WATER) return 0;
+
+    return this.rideVelocity[row] * durationMs / 1000;
+  }
+
+  /**
+   * Gets the outcome of the ant occupying a position (matches CollisionManager.checkPlayerCollision)
+   * @param row - Grid row of the ant
+   * @param x - Horizontal ant position in pixels
+   * @param frame - Cell safety at the time being checked
+   * @private
+   */
+  private getOccupancy(row: number, x: number, frame: boolean[]): Occupancy {
+    const col = Math.floor(x / GRID_SIZE);
+    const cell = this.gridSystem.getCell(row, col);
+
+    if (!cell) return 'dead';
+    if (cell.object === GridObjectType.ANT_HILL) return 'win';
+
+    return frame[row * this.level.width + col] ? 'alive' : 'dead';
+  }
+
+  /**
+   * Builds the safety of every cell at a point in time
+   * Water is safe only under a platform, road rows are safe except under an obstacle, and no
+   * cell is safe under a frog, the same way CollisionManager tracks entities in the grid.
+   * Times must only go forward from one call to the next, as the frogs are played forward to each
+   * @param timeMs - Time since the level started in milliseconds
+   * @returns Safety per cell, indexed by row * width + col
+   * @private
+   */
+  private buildSafetyFrame(timeMs: number): boolean[] {
+    const { width, height } = this.level;
+    const frame = new Array<boolean>(width * height);
+
+    for (let row = 0; row < height; row++) {
+      const isRoadRow = this.levelAnalyzer.isRoadRow(row);
+
+      for (let col = 0; col < width; col++) {
+        const cell = this.gridSystem.getCell(row, col)!;
+
+        if (cell.type === CellType.WATER) {
+          frame[row * width + col] = false;
+        } else if (cell.type === CellType.ROAD && isRoadRow) {
+          frame[row * width + col] = true;
+        } else {
+          frame[row * width + col] = cell.safe;
+        }
+      }
+    }
+
+    this.entities.forEach(entity => {
+      const { leftCol, rightCol } = getEntityColumns(entity, getEntityX(entity, timeMs));
+      const isPlatform = isPlatformEntity(entity);
+      if (!isPlatform && !this.levelAnalyzer.isRoadRow(entity.row)) return;
+
+      for (let col = Math.max(0, leftCol); col <= Math.min(width - 1, rightCol); col++) {
+        const cell = this.gridSystem.getCell(entity.row, col)!;
+
+        if (isPlatform && cell.type === CellType.WATER) {
+          frame[entity.row * width + col] = true;
+        } else if (!isPlatform && cell.type === CellType.ROAD) {
+          frame[entity.row * width + col] = false;
+        }
+      }
+    });
+
+    this.advanceFrogs(timeMs);
+    this.frogs.forEach(frog => {
+      const { leftCol: col } = getEntityColumns(frog, frog.x);
+      if (canFrogOccupy(this.gridSystem.getCell(frog.row, col))) {
+        frame[frog.row * width + col] = false;
+      }
+    });
+
+    return frame;
+  }
+
+  /**
+   * Plays the frogs forward to a point in time, in the same steps as the game simulation
+   * The frogs hop on the level as built, as if the ant never took a collectible, so a frog
+   * hemmed in by water, collectibles, or the ant hill never moves
+   * @param timeMs - Time since the level started in milliseconds
+   * @private
+   */
+  private advanceFrogs(timeMs: number): void {
+    const steps = Math.round(timeMs / FIXED_STEP_MS);
+
+    for (; this.frogSteps < steps; this.frogSteps++) {
+      this.frogs.forEach(frog => stepFrog(frog, frog.frog!, this.gridSystem));
+    }
+  }
+
+  /**
+   * Finds the first row toward the ant hill that the ant never stood on
+   * @param reachedRows - Every row the ant was alive on during the search
+   * @returns The blocking row, or null if every row up to the ant hill was reached
+   * @private
+   */
+  private findBlockedRow(reachedRows: Set<number>): number | null {
+    const { antStartRow, antHillRow } = this.level;
+    const step = antHillRow < antStartRow ? -1 : 1;
+
+    for (let row = antStartRow; row !== antHillRow; row += step) {
+      if (!reachedRows.has(row)) return row;
+    }
+    return null;
+  }
+
+  /**
+   * Gets the key used to merge ant states at nearly the same position
+   * @private
+   */
+  private getStateKey(row: number, x: number): number {
+    const bucket = Math.round(x / POSITION_BUCKET_SIZE);
+    return row * 100000 + bucket + 50000;
+  }
+}
+
+/**
+ * Solve a level with the default view width
+ * @param level - The level configuration to solve
+ * @returns Whether the level can be solved, the fewest moves, and any blocking row
+ */
+export function solveLevel(level: LevelConfig): LevelSolution {
+  return new LevelSolver(level).solve();
+}
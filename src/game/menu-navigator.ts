@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Gamepad focus navigation for menu buttons
+ * Lets a player on a controller move a focus frame between a scene's buttons and press them
+ */
+
+import Phaser from 'phaser';
+import { Direction } from '../config/constants';
+import { GamepadButton, GamepadMoveSource } from './input-manager';
+
+const FOCUS_COLOR = 0xffd700;
+const FOCUS_LINE_WIDTH = 4;
+/** Space between a button's edge and its focus frame */
+const FOCUS_PADDING = 6;
+/** Above every button and its label */
+const FOCUS_DEPTH = 1500;
+/** How much sideways distance counts against a button, compared to distance in the pushed direction */
+const SIDEWAYS_WEIGHT = 2;
+
+/**
+ * Actions for gamepad buttons other than A
+ */
+export interface MenuNavigatorActions {
+  /** Called when B is pressed, such as to return to the previous screen */
+  onBack?: () => void;
+  /** Called when Start is pressed, such as to resume a paused game */
+  onStart?: () => void;
+}
+
+/**
+ * Menu navigator class that gives a scene's buttons gamepad focus.
+ *
+ * This class provides:
+ * - A focus frame, shown from the first push of the D-pad or stick
+ * - Moving focus to the nearest button in the direction pushed
+ * - Pressing the focused button with A, just as if it were clicked
+ * - Actions for B and Start, when the scene has them
+ *
+ * Buttons respond to `pointerdown` as usual; the navigator emits that event on the focused
+ * button, so clicks and gamepad presses share one handler. Buttons already held when the scene
+ * starts (such as the Start press that opened a pause menu) are ignored.
+ */
+export class MenuNavigator {
+  /** Reference to the Phaser scene */
+  private scene: Phaser.Scene;
+  /** Buttons focus can move between */
+  private buttons: Phaser.GameObjects.Image[];
+  /** Index of the focused button, or -1 before the gamepad is first used */
+  private focusIndex: number = -1;
+  /** Frame drawn around the focused button */
+  private focusFrame: Phaser.GameObjects.Rectangle;
+  /** D-pad and stick pushes, one per push */
+  private moveSource: GamepadMoveSource;
+  /** Actions for B and Start */
+  private actions: MenuNavigatorActions;
+  /** Whether the scene has run an update, after which button presses are new ones */
+  private ready: boolean = false;
+
+  /**
+   * Creates a new MenuNavigator instance
+   * @param scene - The scene the buttons belong to
+   * @param buttons - Buttons focus can move between
+   * @param actions - Actions for B and Start
+   */
+  constructor(scene: Phaser.Scene, buttons: Phaser.GameObjects.Image[], actions: MenuNavigatorActions = {}) {
+    this.scene = scene;
+    this.buttons = buttons;
+    this.actions = actions;
+    this.moveSource = new GamepadMoveSource(scene);
+    this.focusFrame = scene.add.rectangle(0, 0, 0, 0)
+      .setStrokeStyle(FOCUS_LINE_WIDTH, FOCUS_COLOR)
+      .setDepth(FOCUS_DEPTH)
+      .setVisible(false);
+
+    scene.events.on(Phaser.Scenes.Events.UPDATE, this.update, this);
+    scene.input.gamepad?.on(Phaser.Input.Gamepad.Events.BUTTON_DOWN, this.handleButton, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  /**
+   * Replaces the buttons focus can move between, such as when a dialog opens over a menu
+   * Focus moves to the first of the new buttons if it was shown
+   * @param buttons - The new buttons
+   * @param actions - Actions for B and Start while these buttons are shown
+   */
+  public setButtons(buttons: Phaser.GameObjects.Image[], actions: MenuNavigatorActions = {}): void {
+    this.buttons = buttons;
+    this.actions = actions;
+    this.focus(this.focusIndex >= 0 ? 0 : -1);
+  }
+
+  /**
+   * Stops listening to the gamepad and removes the focus frame
+   */
+  public destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.UPDATE, this.update, this);
+    this.scene.input.gamepad?.off(Phaser.Input.Gamepad.Events.BUTTON_DOWN, this.handleButton, this);
+    this.focusFrame.destroy();
+  }
+
+  /**
+   * Moves focus with the D-pad and stick
+   * @private
+   */
+  private update(): void {
+    this.ready = true;
+    const direction = this.moveSource.readMove();
+    if (direction === undefined || this.buttons.length === 0) return;
+
+    // The first push only shows where focus is
+    if (this.focusIndex < 0) {
+      this.focus(0);
+      return;
+    }
+    this.focus(this.findNeighbour(direction));
+  }
+
+  /**
+   * Presses the focused button with A, or runs the action for B or Start
+   * @private
+   */
+  private handleButton(_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button): void {
+    if (!this.ready || !this.scene.scene.isActive()) return;
+
+    if (button.index === GamepadButton.B) {
+      this.actions.onBack?.();
+    } else if (button.index === GamepadButton.START) {
+      this.actions.onStart?.();
+    } else if (button.index === GamepadButton.A) {
+      const focused = this.buttons[this.focusIndex];
+      if (focused) {
+        focused.emit('pointerdown');
+      } else {
+        this.focus(0);
+      }
+    }
+  }
+
+  /**
+   * Finds the nearest button in a direction from the focused one
+   * Buttons further to the side count as further away
+   * @param direction - The direction pushed
+   * @returns Index of the nearest button, or the focused one if there is none that way
+   * @private
+   */
+  private findNeighbour(direction: Direction): number {
+    const current = this.buttons[this.focusIndex];
+    let bestIndex = this.focusIndex;
+    let bestDistance = Infinity;
+
+    this.buttons.forEach((button, index) => {
+      const dx = button.x - current.x;
+      const dy = button.y - current.y;
+      const [ahead, sideways] = direction === Direction.LEFT ? [-dx, dy]
+        : direction === Direction.RIGHT ? [dx, dy]
+        : direction === Direction.UP ? [-dy, dx]
+        : [dy, dx];
+      if (ahead <= 0) return;
+
+      const distance = ahead + Math.abs(sideways) * SIDEWAYS_WEIGHT;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+
+    return bestIndex;
+  }
+
+  /**
+   * Moves the focus frame to a button
+   * @param index - Index of the button, or -1 to hide the frame
+   * @private
+   */
+  private focus(index: number): void {
+    this.focusIndex = index;
+    const button = this.buttons[index];
+    if (!button) {
+      this.focusFrame.setVisible(false);
+      return;
+    }
+
+    this.focusFrame
+      .setPosition(button.x, button.y)
+      .setSize(button.displayWidth + FOCUS_PADDING * 2, button.displayHeight + FOCUS_PADDING * 2)
+      .setVisible(true);
+  }
+}
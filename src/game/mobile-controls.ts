@@ -0,0 +1,313 @@
+/**
+ * @fileoverview On-screen direction buttons for touch devices
+ * Lays the buttons out for the player's hand and button size, in the letterbox space around the
+ * canvas when there is room for them, so they cover as little of the game as possible
+ */
+
+import { Direction } from '../config/constants';
+import { fitCanvas } from '../utils/canvas-fit';
+
+/** Space between neighbouring buttons */
+const BUTTON_GAP = 10;
+/** Space between the buttons and the edge of the window or canvas */
+const EDGE_MARGIN = 16;
+/** Keeps the buttons above the canvas */
+const CONTROLS_Z_INDEX = 1000;
+
+/**
+ * Where the direction buttons sit, for the hand the player holds the device with
+ */
+export enum TouchLayout {
+  /** Every button together in the bottom right, for the right thumb */
+  RIGHT_HANDED = 'right',
+  /** Every button together in the bottom left, for the left thumb */
+  LEFT_HANDED = 'left',
+  /** Left and right for the left thumb, up and down for the right thumb */
+  SPLIT = 'split'
+}
+
+/**
+ * Size of the direction buttons
+ */
+export enum TouchButtonSize {
+  SMALL = 'small',
+  MEDIUM = 'medium',
+  LARGE = 'large'
+}
+
+/** Width and height of a button in CSS pixels, for each size */
+const BUTTON_SIZES: Record<TouchButtonSize, number> = {
+  [TouchButtonSize.SMALL]: 48,
+  [TouchButtonSize.MEDIUM]: 60,
+  [TouchButtonSize.LARGE]: 76
+};
+
+/** Symbol shown on each direction's button */
+const BUTTON_SYMBOLS: Record<Direction, string> = {
+  [Direction.UP]: '↑',
+  [Direction.DOWN]: '↓',
+  [Direction.LEFT]: '←',
+  [Direction.RIGHT]: '→'
+};
+
+/**
+ * Options for the on-screen direction buttons
+ */
+export interface MobileControlsOptions {
+  /** Width of the game in game pixels, used to work out the canvas size */
+  gameWidth: number;
+  /** Height of the game in game pixels */
+  gameHeight: number;
+  /** Where the buttons sit */
+  layout: TouchLayout;
+  /** How big the buttons are */
+  size: TouchButtonSize;
+  /** Called when a direction button is pressed */
+  onPress: (direction: Direction) => void;
+}
+
+/**
+ * A group of buttons placed together, with each button's cell in the group's grid
+ */
+interface ButtonCluster {
+  /** Which side of the screen the cluster sits on */
+  side: 'left' | 'right';
+  buttons: { direction: Direction; column: number; row: number }[];
+}
+
+/** Every button in a plus shape, as the one cluster of the right- and left-handed layouts */
+const PAD_BUTTONS: ButtonCluster['buttons'] = [
+  { direction: Direction.UP, column: 1, row: 0 },
+  { direction: Direction.LEFT, column: 0, row: 1 },
+  { direction: Direction.RIGHT, column: 2, row: 1 },
+  { direction: Direction.DOWN, column: 1, row: 2 }
+];
+
+/** Clusters for each layout */
+const LAYOUT_CLUSTERS: Record<TouchLayout, ButtonCluster[]> = {
+  [TouchLayout.RIGHT_HANDED]: [{ side: 'right', buttons: PAD_BUTTONS }],
+  [TouchLayout.LEFT_HANDED]: [{ side: 'left', buttons: PAD_BUTTONS }],
+  [TouchLayout.SPLIT]: [
+    {
+      side: 'left',
+      buttons: [
+        { direction: Direction.LEFT, column: 0, row: 0 },
+        { direction: Direction.RIGHT, column: 1, row: 0 }
+      ]
+    },
+    {
+      side: 'right',
+      buttons: [
+        { direction: Direction.UP, column: 0, row: 0 },
+        { direction: Direction.DOWN, column: 0, row: 1 }
+      ]
+    }
+  ]
+};
+
+/**
+ * Mobile controls class that shows HTML direction buttons over the page.
+ *
+ * This class provides:
+ * - Buttons for each direction, laid out for the right hand, the left hand, or both thumbs
+ * - Small, medium, or large buttons
+ * - Placement below or beside the canvas when the letterbox has room, or over the canvas's
+ *   bottom corners when it doesn't, worked out again whenever the window is resized
+ * - Showing, hiding, and removing the buttons with the scene that owns them
+ *
+ * The buttons are HTML elements outside the canvas, so they are removed from the page by
+ * `destroy` rather than by the scene.
+ */
+export class MobileControls {
+  /** Options the buttons were created with */
+  private readonly options: MobileControlsOptions;
+  /** Container holding every button, covering the window */
+  private container: HTMLElement;
+  /** Each button with the cluster and cell it sits in */
+  private buttons: { element: HTMLElement; cluster: ButtonCluster; column: number; row: number }[] = [];
+  /** Lays the buttons out again for the new window size */
+  private readonly handleResize = (): void => this.layout();
+
+  /**
+   * Creates a new MobileControls instance and adds its buttons to the page
+   * @param options - Game size, layout, button size, and press handler
+   */
+  constructor(options: MobileControlsOptions) {
+    this.options = options;
+
+    this.container = document.createElement('div');
+    this.container.id = 'mobile-controls-container';
+    this.container.style.cssText = `
+      position: fixed;
+      left: 0;
+      top: 0;
+      width: 100vw;
+      height: 100vh;
+      z-index: ${CONTROLS_Z_INDEX};
+      pointer-events: none;
+    `;
+
+    LAYOUT_CLUSTERS[options.layout].forEach(cluster => {
+      cluster.buttons.forEach(({ direction, column, row }) => {
+        const element = this.createButton(direction);
+        this.container.appendChild(element);
+        this.buttons.push({ element, cluster, column, row });
+      });
+    });
+
+    document.body.appendChild(this.container);
+    this.layout();
+    window.addEventListener('resize', this.handleResize);
+  }
+
+  /**
+   * Shows or hides the buttons, such as while the game is paused
+   * @param visible - True to show the buttons
+   */
+  public setVisible(visible: boolean): void {
+    this.container.style.display = visible ? 'block' : 'none';
+  }
+
+  /**
+   * Removes the buttons from the page
+   */
+  public destroy(): void {
+    window.removeEventListener('resize', this.handleResize);
+    this.container.remove();
+    this.buttons = [];
+  }
+
+  /**
+   * Creates a single direction button with its press and release handlers
+   * @param direction - The direction the button moves the ant in
+   * @returns The button element
+   * @private
+   */
+  private createButton(direction: Direction): HTMLElement {
+    const size = BUTTON_SIZES[this.options.size];
+    const element = document.createElement('div');
+    element.id = `mobile-${direction}-button`;
+    element.textContent = BUTTON_SYMBOLS[direction];
+    element.style.cssText = `
+      position: absolute;
+      width: ${size}px;
+      height: ${size}px;
+      box-sizing: border-box;
+      background-color: rgba(255, 255, 255, 0.9);
+      border: 3px solid #888888;
+      border-radius: 50%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: ${Math.round(size * 0.47)}px;
+      font-weight: bold;
+      color: #000000;
+      user-select: none;
+      -webkit-user-select: none;
+      -webkit-touch-callout: none;
+      pointer-events: auto;
+      cursor: pointer;
+      text-shadow: 1px 1px 2px rgba(136, 136, 136, 0.5);
+      transition: all 0.1s ease;
+    `;
+
+    // Add touch event handlers
+    const handlePress = () => {
+      element.style.backgroundColor = 'rgba(204, 204, 204, 1.0)';
+      element.style.transform = 'scale(0.95)';
+      this.options.onPress(direction);
+    };
+
+    const handleRelease = () => {
+      element.style.backgroundColor = 'rgba(255, 255, 255, 0.9)';
+      element.style.transform = 'scale(1.0)';
+    };
+
+    element.addEventListener('touchstart', (e) => {
+      e.preventDefault();
+      handlePress();
+    });
+
+    element.addEventListener('touchend', (e) => {
+      e.preventDefault();
+      handleRelease();
+    });
+
+    element.addEventListener('touchcancel', (e) => {
+      e.preventDefault();
+      handleRelease();
+    });
+
+    // Also support mouse events for testing
+    element.addEventListener('mousedown', handlePress);
+    element.addEventListener('mouseup', handleRelease);
+    element.addEventListener('mouseleave', handleRelease);
+
+    return element;
+  }
+
+  /**
+   * Places every cluster below the canvas if the letterbox there has room, otherwise beside
+   * it, otherwise over the canvas's bottom corners
+   * @private
+   */
+  private layout(): void {
+    const windowWidth = window.innerWidth;
+    const windowHeight = window.innerHeight;
+    const canvas = fitCanvas(windowWidth, windowHeight, this.options.gameWidth, this.options.gameHeight);
+
+    // The canvas is centered, so the letterbox is split evenly around it
+    const bottomSpace = (windowHeight - canvas.height) / 2;
+    const sideSpace = (windowWidth - canvas.width) / 2;
+    const clusters = [...new Set(this.buttons.map(button => button.cluster))];
+    const sizes = new Map(clusters.map(cluster => [cluster, this.getClusterSize(cluster)]));
+    const widest = Math.max(...[...sizes.values()].map(size => size.width));
+    const tallest = Math.max(...[...sizes.values()].map(size => size.height));
+
+    const positions = new Map<ButtonCluster, { left: number; top: number }>();
+    sizes.forEach(({ width, height }, cluster) => {
+      if (bottomSpace >= tallest + EDGE_MARGIN * 2) {
+        // Below the canvas, in the window's bottom corner
+        positions.set(cluster, {
+          left: cluster.side === 'left' ? EDGE_MARGIN : windowWidth - EDGE_MARGIN - width,
+          top: windowHeight - bottomSpace / 2 - height / 2
+        });
+      } else if (sideSpace >= widest + EDGE_MARGIN * 2) {
+        // Beside the canvas, centered in the letterbox and down by the bottom
+        positions.set(cluster, {
+          left: cluster.side === 'left' ? sideSpace / 2 - width / 2 : windowWidth - sideSpace / 2 - width / 2,
+          top: windowHeight - EDGE_MARGIN - height
+        });
+      } else {
+        // Over the canvas's bottom corners
+        const canvasLeft = sideSpace;
+        const canvasBottom = windowHeight - bottomSpace;
+        positions.set(cluster, {
+          left: cluster.side === 'left' ? canvasLeft + EDGE_MARGIN : canvasLeft + canvas.width - EDGE_MARGIN - width,
+          top: canvasBottom - EDGE_MARGIN - height
+        });
+      }
+    });
+
+    const pitch = BUTTON_SIZES[this.options.size] + BUTTON_GAP;
+    this.buttons.forEach(({ element, cluster, column, row }) => {
+      const { left, top } = positions.get(cluster)!;
+      element.style.left = `${Math.round(left + column * pitch)}px`;
+      element.style.top = `${Math.round(top + row * pitch)}px`;
+    });
+  }
+
+  /**
+   * Gets the width and height a cluster's buttons take up
+   * @private
+   */
+  private getClusterSize(cluster: ButtonCluster): { width: number; height: number } {
+    const size = BUTTON_SIZES[this.options.size];
+    const columns = Math.max(...cluster.buttons.map(button => button.column)) + 1;
+    const rows = Math.max(...cluster.buttons.map(button => button.row)) + 1;
+    return {
+      width: columns * size + (columns - 1) * BUTTON_GAP,
+      height: rows * size + (rows - 1) * BUTTON_GAP
+    };
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Render interpolation for fixed-step gameplay
+ * Draws moving objects part of the way between their last two gameplay steps, so movement
+ * looks smooth on displays that refresh faster or slower than the gameplay steps
+ */
+
+import Phaser from 'phaser';
+import { GRID_SIZE } from '../config/constants';
+
+/** Distance moved in one step that counts as a jump (such as wrapping around the screen), drawn without blending */
+const TELEPORT_DISTANCE = GRID_SIZE * 2;
+
+/**
+ * An object drawn between gameplay steps
+ */
+type Interpolated = Phaser.GameObjects.GameObject & Phaser.GameObjects.Components.Transform;
+
+/**
+ * Positions of an object around the latest gameplay step
+ */
+interface StepPositions {
+  /** Position before the latest step */
+  previousX: number;
+  previousY: number;
+  /** Position after the latest step, where the gameplay has the object */
+  currentX: number;
+  currentY: number;
+  /** Position the object was drawn at, or null if it is at its gameplay position */
+  drawnX: number | null;
+  drawnY: number | null;
+}
+
+/**
+ * Render interpolator class that keeps drawn positions separate from gameplay positions.
+ *
+ * Each frame, `restore` puts every object back at its gameplay position before the steps run,
+ * `beforeStep` remembers where objects were before each step, and `interpolate` draws them
+ * between the last two steps. Anything that moves an object outside the steps (such as a tween
+ * or a respawn) is kept as its new gameplay position.
+ */
+export class RenderInterpolator {
+  /** Positions of every object seen, keyed by object */
+  private positions: Map<Interpolated, StepPositions> = new Map();
+
+  /**
+   * Puts every object back at its gameplay position, unless something else has moved it since it was drawn
+   */
+  public restore(): void {
+    this.positions.forEach((position, object) => {
+      if (!object.active) {
+        this.positions.delete(object);
+        return;
+      }
+
+      if (position.drawnX !== null && object.x === position.drawnX) {
+        object.x = position.currentX;
+      }
+      if (position.drawnY !== null && object.y === position.drawnY) {
+        object.y = position.currentY;
+      }
+      position.drawnX = null;
+      position.drawnY = null;
+    });
+  }
+
+  /**
+   * Remembers where objects are before a gameplay step
+   * @param objects - Every object to draw between steps
+   */
+  public beforeStep(objects: Interpolated[]): void {
+    objects.forEach(object => {
+      const position = this.positions.get(object);
+
+      if (position) {
+        position.previousX = object.x;
+        position.previousY = object.y;
+      } else {
+        this.positions.set(object, {
+          previousX: object.x,
+          previousY: object.y,
+          currentX: object.x,
+          currentY: object.y,
+          drawnX: null,
+          drawnY: null
+        });
+      }
+    });
+  }
+
+  /**
+   * Draws every object part of the way from its position before the latest step to its position after it
+   * @param alpha - How far to go, from 0 (before the step) to 1 (after it)
+   */
+  public interpolate(alpha: number): void {
+    this.positions.forEach((position, object) => {
+      position.currentX = object.x;
+      position.currentY = object.y;
+
+      const deltaX = position.currentX - position.previousX;
+      const deltaY = position.currentY - position.previousY;
+      if (Math.abs(deltaX) > TELEPORT_DISTANCE || Math.abs(deltaY) > TELEPORT_DISTANCE) return;
+
+      // Draw one step behind the gameplay, catching up as the next step approaches
+      object.x = position.previousX + deltaX * alpha;
+      object.y = position.previousY + deltaY * alpha;
+      position.drawnX = object.x;
+      position.drawnY = object.y;
+    });
+  }
+}
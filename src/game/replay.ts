@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Input replays for the Antzer game
+ * Records every move the player asks for, keyed to the frame it was made on, along with
+ * everything needed to rebuild the same run: the level, mode, seed, and game version
+ */
+
+import { Direction, GAME_VERSION, GameMode } from '../config/constants';
+import { hashSeed } from '../utils/seeded-random';
+import { CampaignRun } from './campaign';
+
+/** Version of the replay format, raised whenever recordings stop playing back the same way */
+export const REPLAY_FORMAT_VERSION = 7;
+
+/**
+ * A move the player asked for
+ */
+export interface ReplayMove {
+  /** Gameplay step the move was made on, counted from the start of the level */
+  frame: number;
+  /** Direction the player asked to move in */
+  direction: Direction;
+}
+
+/**
+ * Everything a run needs to be played back
+ */
+export interface Replay {
+  /** Replay format the recording was made with */
+  formatVersion: number;
+  /** Version of the game the recording was made with */
+  gameVersion: string;
+  /** Id of the level that was played */
+  levelId: string;
+  /** Mode that was played */
+  mode: GameMode;
+  /** Seed of the generated level or endless run, or null for a registered level */
+  seed: string | null;
+  /** Campaign run carried into the level */
+  campaign: CampaignRun;
+  /** Every move asked for, in order */
+  moves: ReplayMove[];
+  /** Number of frames the run lasted */
+  frameCount: number;
+}
+
+/**
+ * Where and how a recorded run started
+ */
+export type ReplayStart = Pick<Replay, 'levelId' | 'mode' | 'seed' | 'campaign'>;
+
+/**
+ * Replay recorder class that collects a run's moves as it is played.
+ *
+ * Moves are recorded against frame numbers rather than times, so playing them back
+ * on the same frames repeats the run exactly.
+ */
+export class ReplayRecorder {
+  /** Where and how the run started */
+  private start: ReplayStart;
+  /** Moves recorded so far */
+  private moves: ReplayMove[] = [];
+
+  /**
+   * Creates a new ReplayRecorder instance
+   * @param start - Level, mode, seed, and campaign state the run started with
+   */
+  constructor(start: ReplayStart) {
+    this.start = { ...start, campaign: { ...start.campaign } };
+  }
+
+  /**
+   * Records a move the player asked for
+   * @param frame - Frame the move was made on
+   * @param direction - Direction the player asked to move in
+   */
+  public record(frame: number, direction: Direction): void {
+    this.moves.push({ frame, direction });
+  }
+
+  /**
+   * Finishes the recording
+   * @param frameCount - Number of frames the run lasted
+   * @returns The finished replay
+   */
+  public finish(frameCount: number): Replay {
+    return {
+      formatVersion: REPLAY_FORMAT_VERSION,
+      gameVersion: GAME_VERSION,
+      ...this.start,
+      moves: this.moves.map(move => ({ ...move })),
+      frameCount
+    };
+  }
+}
+
+/**
+ * Hash a replay, so a leaderboard run can be checked against its recording
+ * @returns The hash as 8 hexadecimal digits
+ */
+export function hashReplay(replay: Replay): string {
+  return hashSeed(JSON.stringify(replay)).toString(16).padStart(8, '0');
+}
+
+/**
+ * Check that a replay can be played back by this version of the game
+ * @returns Array of error messages (empty if the replay can be played)
+ */
+export function validateReplay(replay: Partial<Replay>): string[] {
+  const errors: string[] = [];
+
+  if (replay.formatVersion !== REPLAY_FORMAT_VERSION) {
+    errors.push(`Replay format ${replay.formatVersion} is not supported`);
+  }
+  if (replay.gameVersion !== GAME_VERSION) {
+    errors.push(`Replay was recorded with version ${replay.gameVersion} of the game`);
+  }
+  if (typeof replay.levelId !== 'string' || replay.levelId.length === 0) {
+    errors.push('Replay has no level');
+  }
+  if (!Object.values(GameMode).includes(replay.mode as GameMode)) {
+    errors.push(`Unknown game mode "${replay.mode}"`);
+  }
+  if (!Number.isInteger(replay.frameCount) || (replay.frameCount as number) < 0) {
+    errors.push('Replay frame count must be a whole number of 0 or more');
+  }
+  if (!Array.isArray(replay.moves) || replay.moves.some(move =>
+    !Number.isInteger(move.frame) || !Object.values(Direction).includes(move.direction))) {
+    errors.push('Replay moves are not valid');
+  }
+
+  return errors;
+}
@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Respawn tracking for the lives system
+ * Remembers where the ant can safely come back after losing a life, and the progress
+ * saved at the latest checkpoint so it can be restored on respawn
+ */
+
+import { GridObjectType } from './grid-system';
+
+/**
+ * A grid position
+ */
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+/**
+ * A collectible the player has picked up
+ */
+export interface CollectedItem extends GridPosition {
+  type: GridObjectType.CHERRY | GridObjectType.COOKIE;
+}
+
+/**
+ * Progress saved when the player reaches a checkpoint
+ */
+export interface CheckpointState extends GridPosition {
+  /** Score when the checkpoint was reached */
+  score: number;
+  /** Keys of the collectibles taken when the checkpoint was reached */
+  collected: ReadonlySet<string>;
+}
+
+/**
+ * Respawn tracker class that records safe positions, collectibles, and checkpoints.
+ *
+ * The ant respawns at the latest checkpoint when one has been reached, which also
+ * rolls the score and collectibles back to when it was reached. Otherwise the ant
+ * respawns on the last grass row it stood on and keeps its progress.
+ */
+export class RespawnTracker {
+  /** Last grass cell the player stood on */
+  private lastSafePosition: GridPosition;
+  /** Collectibles taken so far, keyed by position */
+  private collected: Map<string, CollectedItem> = new Map();
+  /** Latest checkpoint reached */
+  private checkpoint: CheckpointState | null = null;
+
+  /**
+   * Creates a new RespawnTracker instance
+   * @param start - Where the player starts the level
+   */
+  constructor(start: GridPosition) {
+    this.lastSafePosition = { ...start };
+  }
+
+  /**
+   * Records a grass cell the player is standing on
+   */
+  public recordSafePosition(row: number, col: number): void {
+    this.lastSafePosition = { row, col };
+  }
+
+  /**
+   * Records a collectible the player picked up
+   */
+  public recordCollectible(item: CollectedItem): void {
+    this.collected.set(getPositionKey(item.row, item.col), { ...item });
+  }
+
+  /**
+   * Records a checkpoint the player stepped on
+   * @param row - Grid row of the checkpoint
+   * @param col - Grid column of the checkpoint
+   * @param score - The player's current score
+   * @returns True if this is a newly reached checkpoint
+   */
+  public reachCheckpoint(row: number, col: number, score: number): boolean {
+    if (this.checkpoint?.row === row && this.checkpoint.col === col) {
+      return false;
+    }
+
+    this.checkpoint = { row, col, score, collected: new Set(this.collected.keys()) };
+    return true;
+  }
+
+  /**
+   * Gets the latest checkpoint reached
+   * @returns The checkpoint state, or null if no checkpoint has been reached
+   */
+  public getCheckpoint(): CheckpointState | null {
+    return this.checkpoint;
+  }
+
+  /**
+   * Gets where the player should respawn
+   * @returns The latest checkpoint, or the last grass cell the player stood on
+   */
+  public getRespawnPosition(): GridPosition {
+    const { row, col } = this.checkpoint ?? this.lastSafePosition;
+    return { row, col };
+  }
+
+  /**
+   * Rolls the collected set back to the latest checkpoint
+   * @returns The collectibles taken since the checkpoint, which should be put back
+   */
+  public restoreCheckpoint(): CollectedItem[] {
+    if (!this.checkpoint) return [];
+
+    const saved = this.checkpoint.collected;
+    const restored = [...this.collected.entries()].filter(([key]) => !saved.has(key));
+    restored.forEach(([key]) => this.collected.delete(key));
+
+    this.lastSafePosition = { row: this.checkpoint.row, col: this.checkpoint.col };
+    return restored.map(([, item]) => item);
+  }
+
+  /**
+   * Gets the number of collectibles taken
+   */
+  public getCollectedCount(): number {
+    return this.collected.size;
+  }
+}
+
+/**
+ * Key identifying a grid position in the collected set
+ */
+function getPositionKey(row: number, col: number): string {
+  return `${row},${col}`;
+}
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Random number streams for a run of the Antzer game
+ * Every random decision in a run draws from one of these streams, so the run can be
+ * recreated from its seed alone
+ */
+
+import { SeededRandom } from '../utils/seeded-random';
+
+/**
+ * Random number service owned by a single run.
+ *
+ * This class provides:
+ * - A gameplay stream for anything that changes how the run plays out, such as endless sections
+ * - A cosmetic stream for effects that only change how the run looks, such as sparkles
+ * - Named splits of either stream for new systems that need a sequence of their own
+ *
+ * The streams are split from the run seed independently, so drawing cosmetic numbers (which
+ * depends on what is drawn on screen) can never change gameplay.
+ */
+export class RunRandom {
+  /** Stream for decisions that change how the run plays out */
+  public readonly gameplay: SeededRandom;
+  /** Stream for effects that only change how the run looks */
+  public readonly cosmetic: SeededRandom;
+
+  /**
+   * Creates a new RunRandom instance
+   * @param seed - Seed of the run
+   */
+  constructor(seed: number | string) {
+    const root = new SeededRandom(seed);
+    this.gameplay = root.split('gameplay');
+    this.cosmetic = root.split('cosmetic');
+  }
+}
@@ -0,0 +1,676 @@
+/**
+ * @fileoverview Headless game simulation for the Antzer game
+ * Holds every rule of a run (the grid, the moving lanes, the ant, lives, score, checkpoints,
+ * and the endless flood) and advances them one fixed step at a time. Nothing here depends on
+ * Phaser, so a run can be played out in Node with no canvas; GameScene only draws it.
+ */
+
+import { DEFAULT_LIVES, Direction, GAME_WIDTH, GRID_SIZE } from '../config/constants';
+import { LevelConfig } from '../config/level-config';
+import { CollisionManager } from './collision-manager';
+import { EndlessRun, POINTS_PER_ROW } from './endless-run';
+import { FIXED_STEP_MS } from './fixed-timestep';
+import { createFrogState, stepFrog } from './frog';
+import { CellType, GridSystem } from './grid-system';
+import { buildLaneEntities, getEntityColumns, isFrogEntity, LaneEntity, MovingEntity, stepEntityX } from './lane-layout';
+import { LevelAnalyzer } from './level-analyzer';
+import { CollectedItem, RespawnTracker } from './respawn-tracker';
+import { RunRandom } from './run-random';
+
+/** Time between losing a life and the ant coming back */
+const RESPAWN_DELAY_MS = 1000;
+/** Time the ant can't be hurt for after respawning */
+export const INVULNERABILITY_MS = 2000;
+/** Horizontal offset of the ant from a cell center, to better center it visually */
+const ANT_SNAP_OFFSET = -2;
+/** Time a hop takes from leaving one cell to landing in the next */
+export const HOP_DURATION_MS = 150;
+/** How long a buffered move waits for a hop to land, once it is next in line, before it is dropped */
+const INPUT_BUFFER_MS = 200;
+/** Most moves waiting for a hop to land, so a quick double press makes two hops */
+const MAX_BUFFERED_MOVES = 2;
+
+/**
+ * A hop from the cell the ant is in to a neighbouring one
+ */
+export interface PlayerHop {
+  /** The direction of the hop */
+  direction: Direction;
+  /** Distance from the ant's position to where it lands */
+  offsetX: number;
+  offsetY: number;
+  /** How far the hop has got, from 0 when it starts to 1 when it lands */
+  progress: number;
+}
+
+/**
+ * State of the ant
+ * Mid-hop, the ant still counts as in the cell it hopped from (see `GameSimulation`)
+ */
+export interface PlayerState {
+  /** Grid row the ant is on */
+  row: number;
+  /** Grid column the ant is on (follows the ant while it rides a platform) */
+  col: number;
+  /** World x position of the ant (off the cell center while riding a platform) */
+  x: number;
+  /** World y position of the ant */
+  y: number;
+  /** The hop the ant is making, if any */
+  hop?: PlayerHop;
+  /** Whether the ant has died and not yet respawned */
+  dead: boolean;
+  /** Steps left before the ant can be hurt again after respawning */
+  invulnerableSteps: number;
+}
+
+/**
+ * How a run is going
+ */
+export enum RunStatus {
+  /** The ant is alive and the run goes on */
+  PLAYING = 'playing',
+  /** The ant has lost a life and is waiting to come back */
+  RESPAWNING = 'respawning',
+  /** The ant has reached the ant hill */
+  WON = 'won',
+  /** The ant has lost its last life */
+  LOST = 'lost'
+}
+
+/**
+ * Options for a simulated run
+ */
+export interface SimulationOptions {
+  /** Width of the visible play area in pixels, where lanes wrap and the ant is carried off (defaults to the game width) */
+  viewWidth?: number;
+  /** Score carried over from previous levels */
+  score?: number;
+  /** Seed of the run's random streams (defaults to the level id) */
+  seed?: number | string;
+  /** Whether the run is endless; sections are generated above the level and a flood rises from below */
+  endless?: boolean;
+}
+
+/**
+ * Callbacks told about everything that happens in a run, so a renderer can show it
+ */
+export interface SimulationCallbacks {
+  /** The ant started a hop to the next cell */
+  onMove?: (direction: Direction) => void;
+  /** The ant picked up a collectible */
+  onCollect?: (item: CollectedItem, points: number) => void;
+  /** The ant reached a new checkpoint */
+  onCheckpoint?: (row: number, col: number) => void;
+  /** The score changed */
+  onScoreChange?: (score: number) => void;
+  /** The ant died; the run is lost when no lives are left */
+  onDeath?: (livesLeft: number) => void;
+  /** The ant came back, with any collectibles put back by returning to a checkpoint */
+  onRespawn?: (restored: CollectedItem[]) => void;
+  /** The ant reached the ant hill */
+  onWin?: () => void;
+  /** An endless section was added, along with its moving platforms and obstacles */
+  onSectionAdded?: (section: LevelConfig, firstRow: number, entities: MovingEntity[]) => void;
+  /** Every row below `lowestKeptRow` was removed from an endless run */
+  onRowsRecycled?: (lowestKeptRow: number) => void;
+}
+
+/**
+ * Game simulation class that plays out a run of a level.
+ *
+ * This class provides:
+ * - The level grid and every moving platform and obstacle in it
+ * - The ant's position, riding, and death and respawn rules
+ * - Lives, score, collectibles, checkpoints, and the win condition
+ * - Endless mode sections and flood
+ *
+ * Each call to `step` advances the run by one fixed gameplay step, moving the ant first if
+ * a direction is given. The same steps with the same moves always play out the same run.
+ *
+ * A move makes the ant hop to the next cell over `HOP_DURATION_MS`. Moves asked for mid-hop
+ * wait in a short buffer and are made one after another as each hop lands; each move waits up
+ * to `INPUT_BUFFER_MS` once it is next in line. Until a hop lands, the ant counts as in
+ * the cell it hopped from: obstacles there can still hit it, a platform it hopped off keeps
+ * carrying it, and the flood is measured from there. On landing the ant takes the target cell,
+ * and that cell's rules (water, obstacles, collectibles, checkpoints, the ant hill) apply from
+ * the same step.
+ */
+export class GameSimulation {
+  private readonly level: LevelConfig;
+  private readonly viewWidth: number;
+  private readonly gridSystem: GridSystem;
+  private readonly levelAnalyzer: LevelAnalyzer;
+  private readonly collisionManager: CollisionManager;
+  private readonly respawnTracker: RespawnTracker;
+  private readonly random: RunRandom;
+  private readonly endless?: EndlessRun;
+  private callbacks: SimulationCallbacks = {};
+
+  /** Every moving platform and obstacle */
+  private entities: MovingEntity[] = [];
+  /** Id given to the next entity added */
+  private nextEntityId: number = 0;
+
+  private readonly player: PlayerState;
+  private status: RunStatus = RunStatus.PLAYING;
+  private lives: number;
+  private score: number;
+  private collectedCount: number = 0;
+  /** Steps played until the run ended, which is how long the run took */
+  private playedSteps: number = 0;
+  /** Steps left before a dead ant respawns */
+  private respawnSteps: number = 0;
+  /** Steps the current hop has taken */
+  private hopSteps: number = 0;
+  /** Moves asked for mid-hop, oldest first, with the steps each can still wait once it is next in line */
+  private bufferedMoves: { direction: Direction; stepsLeft: number }[] = [];
+
+  /**
+   * Creates a new GameSimulation instance, with the ant on its start cell
+   * @param level - The level to play
+   * @param options - View width, starting score, seed, and whether the run is endless
+   */
+  constructor(level: LevelConfig, options: SimulationOptions = {}) {
+    this.level = level;
+    this.viewWidth = options.viewWidth ?? GAME_WIDTH;
+    this.gridSystem = new GridSystem(level);
+    this.levelAnalyzer = new LevelAnalyzer(level);
+    this.collisionManager = new CollisionManager(this.gridSystem, this.levelAnalyzer);
+    this.respawnTracker = new RespawnTracker({ row: level.antStartRow, col: level.antStartCol });
+    this.lives = level.lives ?? DEFAULT_LIVES;
+    this.score = options.score ?? 0;
+    this.random = new RunRandom(options.seed ?? level.id);
+
+    this.player = { row: 0, col: 0, x: 0, y: 0, dead: false, invulnerableSteps: 0 };
+    this.placePlayer(level.antStartRow, level.antStartCol);
+    this.addEntities(buildLaneEntities(level, this.levelAnalyzer, this.viewWidth));
+
+    if (options.endless) {
+      const sectionRandom = this.random.gameplay.split('endless');
+      this.endless = new EndlessRun(this.gridSystem, this.levelAnalyzer, level.antStartRow, sectionRandom, {
+        onSectionAdded: (section, firstRow) => this.addSection(section, firstRow),
+        onRowsRecycled: (lowestKeptRow) => this.recycleRows(lowestKeptRow)
+      });
+    }
+  }
+
+  /**
+   * Sets the callbacks told about everything that happens in the run
+   */
+  public setCallbacks(callbacks: SimulationCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Generates endless sections ahead of the ant, so they can be drawn before the first step
+   * Every step of an endless run does the same
+   */
+  public generateAhead(): void {
+    this.endless?.generateAhead();
+  }
+
+  /**
+   * Advances the run by one gameplay step
+   * Platforms, obstacles, and frogs keep moving after the run has ended
+   * @param input - Direction to move the ant in this step, if any
+   */
+  public step(input?: Direction): void {
+    this.entities.forEach(entity => {
+      entity.x = stepEntityX(entity, entity.x, FIXED_STEP_MS);
+      if (entity.frog) {
+        stepFrog(entity, entity.frog, this.gridSystem);
+      }
+    });
+    if (this.status === RunStatus.WON || this.status === RunStatus.LOST) return;
+
+    this.playedSteps++;
+    if (this.player.invulnerableSteps > 0) {
+      this.player.invulnerableSteps--;
+    }
+
+    // Lanes keep moving in the grid while the ant waits to come back
+    if (this.status === RunStatus.RESPAWNING) {
+      this.respawnSteps--;
+      if (this.respawnSteps > 0) {
+        this.updateLanePositions();
+        return;
+      }
+      this.respawnPlayer();
+    }
+
+    this.updatePlayer(input);
+    this.updateCollisions();
+    this.updateEndless();
+  }
+
+  /**
+   * Gets the level being played
+   */
+  public getLevel(): LevelConfig {
+    return this.level;
+  }
+
+  /**
+   * Gets the grid the run is played on
+   */
+  public getGridSystem(): GridSystem {
+    return this.gridSystem;
+  }
+
+  /**
+   * Gets the run's random streams
+   * Renderers draw their effects from the cosmetic stream, which never affects gameplay
+   */
+  public getRandom(): RunRandom {
+    return this.random;
+  }
+
+  /**
+   * Gets the state of the ant
+   */
+  public getPlayer(): Readonly<PlayerState> {
+    return this.player;
+  }
+
+  /**
+   * Gets where to draw the ant: its position, plus how far it has got along a hop
+   */
+  public getPlayerDrawPosition(): { x: number; y: number } {
+    const { x, y, hop } = this.player;
+    if (!hop) return { x, y };
+
+    return { x: x + hop.offsetX * hop.progress, y: y + hop.offsetY * hop.progress };
+  }
+
+  /**
+   * Gets every moving platform and obstacle
+   */
+  public getEntities(): readonly MovingEntity[] {
+    return this.entities;
+  }
+
+  /**
+   * Gets how the run is going
+   */
+  public getStatus(): RunStatus {
+    return this.status;
+  }
+
+  /**
+   * Checks whether the run has been won or lost
+   */
+  public isOver(): boolean {
+    return this.status === RunStatus.WON || this.status === RunStatus.LOST;
+  }
+
+  /**
+   * Checks whether the ant is protected after respawning
+   */
+  public isPlayerInvulnerable(): boolean {
+    return this.player.invulnerableSteps > 0;
+  }
+
+  /**
+   * Gets the number of lives left
+   */
+  public getLives(): number {
+    return this.lives;
+  }
+
+  /**
+   * Gets the score, including any carried over from previous levels
+   */
+  public getScore(): number {
+    return this.score;
+  }
+
+  /**
+   * Gets the number of collectibles picked up and still held
+   */
+  public getCollectedCount(): number {
+    return this.collectedCount;
+  }
+
+  /**
+   * Gets how long the run has been played, counted in gameplay steps so it matches the run
+   * however the frames were drawn, and stops when the run ends
+   * @returns Elapsed time in milliseconds
+   */
+  public getElapsedMs(): number {
+    return this.playedSteps * FIXED_STEP_MS;
+  }
+
+  /**
+   * Gets the number of rows climbed in an endless run
+   * @returns The rows climbed, or undefined if this isn't an endless run
+   */
+  public getRowsClimbed(): number | undefined {
+    return this.endless?.getRowsClimbed();
+  }
+
+  /**
+   * Gets the world y position of the endless flood line
+   * @returns The flood line, or undefined if this isn't an endless run
+   */
+  public getFloodY(): number | undefined {
+    return this.endless?.getFloodY();
+  }
+
+  /**
+   * Buffers the move asked for, moves the ant along its hop, then kills it if a platform has
+   * carried it off screen
+   * @private
+   */
+  private updatePlayer(input?: Direction): void {
+    this.bufferMove(input);
+
+    if (!this.player.hop) {
+      this.startBufferedHop();
+    }
+    if (this.player.hop) {
+      this.advanceHop();
+    }
+
+    if (this.player.x < -GRID_SIZE || this.player.x > this.viewWidth + GRID_SIZE) {
+      this.killPlayer();
+    }
+  }
+
+  /**
+   * Adds a move to the buffer, and drops the next move in line if it has waited too long
+   * Only the next move in line counts down, so a move behind it waits out the hop it starts as
+   * well. The oldest move makes way when the buffer is full.
+   * @private
+   */
+  private bufferMove(input?: Direction): void {
+    const next = this.bufferedMoves[0];
+    if (next && --next.stepsLeft <= 0) {
+      this.bufferedMoves.shift();
+    }
+
+    if (input === undefined) return;
+
+    this.bufferedMoves.push({ direction: input, stepsLeft: Math.round(INPUT_BUFFER_MS / FIXED_STEP_MS) });
+    if (this.bufferedMoves.length > MAX_BUFFERED_MOVES) {
+      this.bufferedMoves.shift();
+    }
+  }
+
+  /**
+   * Starts a hop for the oldest buffered move that doesn't take the ant off the grid
+   * @private
+   */
+  private startBufferedHop(): void {
+    let move = this.bufferedMoves.shift();
+    while (move && !this.startHop(move.direction)) {
+      move = this.bufferedMoves.shift();
+    }
+  }
+
+  /**
+   * Starts a hop to the next cell, unless that would take the ant off the grid
+   * @returns Whether the hop started
+   * @private
+   */
+  private startHop(direction: Direction): boolean {
+    const { row, col } = this.player;
+    let target: { row: number; col: number } | undefined;
+
+    switch (direction) {
+      case Direction.LEFT:
+        if (col > 0) target = { row, col: col - 1 };
+        break;
+      case Direction.RIGHT:
+        if (col < this.gridSystem.getGridWidth() - 1) target = { row, col: col + 1 };
+        break;
+      case Direction.UP:
+        if (row > this.gridSystem.getTopRow()) target = { row: row - 1, col };
+        break;
+      case Direction.DOWN:
+        if (row < this.gridSystem.getBottomRow()) target = { row: row + 1, col };
+        break;
+    }
+    if (!target) return false;
+
+    // The hop lands in the middle of the target cell, moved along with any platform carrying the ant
+    this.player.hop = {
+      direction,
+      offsetX: getCellX(target.col) - this.player.x,
+      offsetY: getCellY(target.row) - this.player.y,
+      progress: 0
+    };
+    this.hopSteps = 0;
+    this.callbacks.onMove?.(direction);
+    return true;
+  }
+
+  /**
+   * Moves the ant one step along its hop, landing it in the target cell at the end
+   * A buffered move starts the next hop from where the ant lands
+   * @private
+   */
+  private advanceHop(): void {
+    const hop = this.player.hop!;
+    this.hopSteps++;
+    hop.progress = Math.min(this.hopSteps / Math.round(HOP_DURATION_MS / FIXED_STEP_MS), 1);
+    if (hop.progress < 1) return;
+
+    const { row, col } = this.gridSystem.getPlayerGridPosition(this.player.x + hop.offsetX, this.player.y + hop.offsetY);
+    this.placePlayer(row, col);
+    this.startBufferedHop();
+  }
+
+  /**
+   * Puts the ant in the middle of a cell, ending any hop
+   * @private
+   */
+  private placePlayer(row: number, col: number): void {
+    this.player.row = row;
+    this.player.col = col;
+    this.player.x = getCellX(col);
+    this.player.y = getCellY(row);
+    this.player.hop = undefined;
+  }
+
+  /**
+   * Updates the lanes in the grid, then applies whatever the ant has run into
+   * @private
+   */
+  private updateCollisions(): void {
+    this.updateLanePositions();
+    if (this.status !== RunStatus.PLAYING) return;
+
+    const collisionResult = this.collisionManager.checkPlayerCollision(this.player.x, this.player.y, this.entities);
+
+    if (collisionResult.isDead) {
+      if (!this.isPlayerInvulnerable()) {
+        this.killPlayer();
+      }
+    } else if (collisionResult.isWin) {
+      this.status = RunStatus.WON;
+      this.callbacks.onWin?.();
+    } else if (collisionResult.collectible) {
+      const { type, points, row, col } = collisionResult.collectible;
+      this.collect({ type, row, col }, points);
+    } else if (collisionResult.checkpoint) {
+      this.reachCheckpoint(collisionResult.checkpoint.row, collisionResult.checkpoint.col);
+    } else if (collisionResult.platformMovement) {
+      this.ridePlatform(collisionResult.platformMovement.deltaX);
+    }
+
+    this.recordSafePosition();
+  }
+
+  /**
+   * Puts every platform and obstacle in the grid where it now is
+   * @private
+   */
+  private updateLanePositions(): void {
+    this.collisionManager.updateObstaclePositions(this.entities);
+    this.collisionManager.updatePlatformPositions(this.entities);
+  }
+
+  /**
+   * Moves the ant along with the platform it is riding
+   * @private
+   */
+  private ridePlatform(deltaX: number): void {
+    // Follow the platform smoothly, only tracking which column the ant is over
+    this.player.x += deltaX;
+    this.player.col = Math.round((this.player.x - GRID_SIZE / 2) / GRID_SIZE);
+  }
+
+  /**
+   * Remembers the last grass cell the ant stood on, to respawn there
+   * @private
+   */
+  private recordSafePosition(): void {
+    if (this.player.dead) return;
+
+    const { row, col } = this.gridSystem.getPlayerGridPosition(this.player.x, this.player.y);
+    if (this.gridSystem.getCell(row, col)?.type === CellType.SAFE_GRASS) {
+      this.respawnTracker.recordSafePosition(row, col);
+    }
+  }
+
+  /**
+   * Records a collectible the ant picked up
+   * @private
+   */
+  private collect(item: CollectedItem, points: number): void {
+    this.collectedCount++;
+    this.respawnTracker.recordCollectible(item);
+    this.setScore(this.score + points);
+    this.callbacks.onCollect?.(item, points);
+  }
+
+  /**
+   * Saves progress at a checkpoint the ant stepped on
+   * @private
+   */
+  private reachCheckpoint(row: number, col: number): void {
+    if (!this.respawnTracker.reachCheckpoint(row, col, this.score)) return;
+
+    this.callbacks.onCheckpoint?.(row, col);
+  }
+
+  /**
+   * Scores every new row climbed in an endless run, then lets the level and the flood move on
+   * @private
+   */
+  private updateEndless(): void {
+    if (!this.endless || this.status !== RunStatus.PLAYING) return;
+
+    const rowsClimbed = this.endless.recordPlayerRow(this.player.row);
+    if (rowsClimbed > 0) {
+      this.setScore(this.score + rowsClimbed * POINTS_PER_ROW);
+    }
+
+    this.endless.update(FIXED_STEP_MS);
+
+    if (this.endless.isFlooded(this.player.y) && !this.isPlayerInvulnerable()) {
+      this.killPlayer();
+    }
+  }
+
+  /**
+   * Takes a life from the ant, ending the run if it was the last
+   * @private
+   */
+  private killPlayer(): void {
+    this.player.dead = true;
+    this.bufferedMoves = [];
+    this.lives--;
+
+    if (this.lives > 0) {
+      this.status = RunStatus.RESPAWNING;
+      this.respawnSteps = Math.round(RESPAWN_DELAY_MS / FIXED_STEP_MS);
+    } else {
+      this.status = RunStatus.LOST;
+    }
+    this.callbacks.onDeath?.(this.lives);
+  }
+
+  /**
+   * Brings the ant back, rolling progress back to the latest checkpoint if one was reached
+   * @private
+   */
+  private respawnPlayer(): void {
+    const checkpoint = this.respawnTracker.getCheckpoint();
+    let restored: CollectedItem[] = [];
+    if (checkpoint) {
+      restored = this.respawnTracker.restoreCheckpoint();
+      restored.forEach(item => this.gridSystem.setCell(item.row, item.col, item.type));
+      this.setScore(checkpoint.score);
+      this.collectedCount = this.respawnTracker.getCollectedCount();
+    }
+
+    const { row, col } = this.respawnTracker.getRespawnPosition();
+    this.endless?.recedeFlood(row);
+    this.placePlayer(
+      Math.min(Math.max(row, this.gridSystem.getTopRow()), this.gridSystem.getBottomRow()),
+      Math.min(Math.max(col, 0), this.gridSystem.getGridWidth() - 1)
+    );
+    this.player.dead = false;
+    this.player.invulnerableSteps = Math.round(INVULNERABILITY_MS / FIXED_STEP_MS);
+    this.status = RunStatus.PLAYING;
+    this.callbacks.onRespawn?.(restored);
+  }
+
+  /**
+   * Changes the score
+   * @private
+   */
+  private setScore(score: number): void {
+    this.score = score;
+    this.callbacks.onScoreChange?.(score);
+  }
+
+  /**
+   * Adds moving platforms and obstacles to the run, starting each frog's hop timer
+   * @returns The added entities
+   * @private
+   */
+  private addEntities(lanes: LaneEntity[]): MovingEntity[] {
+    const added: MovingEntity[] = lanes.map(lane => ({ ...lane, id: this.nextEntityId++, x: lane.startX }));
+    added.filter(isFrogEntity).forEach(entity => {
+      entity.frog = createFrogState(getEntityColumns(entity, entity.x).leftCol);
+    });
+    this.entities.push(...added);
+    return added;
+  }
+
+  /**
+   * Adds the moving platforms and obstacles of a new endless section
+   * @private
+   */
+  private addSection(section: LevelConfig, firstRow: number): void {
+    const lanes = buildLaneEntities(section, new LevelAnalyzer(section, firstRow), this.viewWidth, firstRow);
+    this.callbacks.onSectionAdded?.(section, firstRow, this.addEntities(lanes));
+  }
+
+  /**
+   * Drops the moving platforms and obstacles on rows recycled from an endless run
+   * @private
+   */
+  private recycleRows(lowestKeptRow: number): void {
+    this.entities = this.entities.filter(entity => entity.row <= lowestKeptRow);
+    this.callbacks.onRowsRecycled?.(lowestKeptRow);
+  }
+}
+
+/**
+ * Gets the world x position of the ant in a column
+ * The level solver places the ant with this too, so both agree on where a hop lands
+ */
+export function getCellX(col: number): number {
+  return Math.round(col * GRID_SIZE + GRID_SIZE / 2 + ANT_SNAP_OFFSET);
+}
+
+/**
+ * Gets the world y position of the ant in a row
+ */
+function getCellY(row: number): number {
+  return Math.round(row * GRID_SIZE + GRID_SIZE / 2);
+}
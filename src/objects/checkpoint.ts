@@ -0,0 +1,68 @@
+import Phaser from "phaser";
+import { GRID_SIZE, ImageKeys } from "../config/constants";
+
+const UNREACHED_TINT = 0xff4444;
+const REACHED_TINT = 0x44ff44;
+
+const REACH_ANIMATION = {
+  DURATION: 150,
+  SCALE: 1.3
+} as const;
+
+/**
+ * Checkpoint class representing a flag that saves the player's progress
+ * The flag is red until the player reaches it, then turns green
+ */
+export class Checkpoint extends Phaser.GameObjects.Image {
+  private readonly gridRow: number;
+  private readonly gridCol: number;
+  private reached: boolean = false;
+
+  /**
+   * Create a new Checkpoint instance
+   * @param scene - The Phaser scene this checkpoint belongs to
+   * @param row - Grid row of the checkpoint
+   * @param col - Grid column of the checkpoint
+   */
+  constructor(scene: Phaser.Scene, row: number, col: number) {
+    super(scene, col * GRID_SIZE + GRID_SIZE / 2, row * GRID_SIZE + GRID_SIZE / 2, ImageKeys.CHECKPOINT);
+
+    this.gridRow = row;
+    this.gridCol = col;
+
+    scene.add.existing(this);
+    this.setDisplaySize(GRID_SIZE, GRID_SIZE);
+    this.setTint(UNREACHED_TINT);
+  }
+
+  /**
+   * Get the grid row of the checkpoint
+   */
+  getGridRow(): number {
+    return this.gridRow;
+  }
+
+  /**
+   * Check whether this checkpoint is at a grid position
+   */
+  isAt(row: number, col: number): boolean {
+    return this.gridRow === row && this.gridCol === col;
+  }
+
+  /**
+   * Mark the checkpoint as reached, with a short pop animation
+   */
+  markReached(): void {
+    if (this.reached) return;
+
+    this.reached = true;
+    this.setTint(REACHED_TINT);
+    this.scene.tweens.add({
+      targets: this,
+      scaleX: this.scaleX * REACH_ANIMATION.SCALE,
+      scaleY: this.scaleY * REACH_ANIMATION.SCALE,
+      duration: REACH_ANIMATION.DURATION,
+      yoyo: true
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import Phaser from "phaser";
 import { GRID_SIZE, SPARKLE_PARTICLE_DEPTH, GOLD_COLOR } from "../config/constants";
+import { SeededRandom } from "../utils/seeded-random";
 
 /**
  * Enum defining the different types of collectible items in the game
@@ -107,11 +108,12 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
 
   /**
    * Animate the collection of this item with visual effects
+   * @param random - Cosmetic random stream of the run, for the fly-away direction and sparkles
    */
-  collect(): void {
+  collect(random: SeededRandom): void {
     this.scene.tweens.killTweensOf(this);
-    this.createCollectionAnimation();
-    this.createSparkleEffect();
+    this.createCollectionAnimation(random);
+    this.createSparkleEffect(random);
   }
 
   /**
@@ -170,15 +172,16 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
 
   /**
    * Create the dramatic collection animation
+   * @param random - Cosmetic random stream of the run
    */
-  private createCollectionAnimation(): void {
-    const flyDirection = this.getRandomFlyDirection();
+  private createCollectionAnimation(random: SeededRandom): void {
+    const flyDirection = this.getRandomFlyDirection(random);
     
     // Scale up briefly then fly away
     this.scene.tweens.add({
       duration: COLLECTION_ANIMATION.SCALE_DURATION,
       ease: 'Back.easeOut',
-      onComplete: () => this.createFlyAwayAnimation(flyDirection),
+      onComplete: () => this.createFlyAwayAnimation(flyDirection, random),
       scaleX: COLLECTION_ANIMATION.SCALE_SIZE,
       scaleY: COLLECTION_ANIMATION.SCALE_SIZE,
       targets: this
@@ -187,8 +190,9 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
 
   /**
    * Get a random direction for the fly-away animation
+   * @param random - Cosmetic random stream of the run
    */
-  private getRandomFlyDirection(): { x: number; y: number } {
+  private getRandomFlyDirection(random: SeededRandom): { x: number; y: number } {
     const screenWidth = this.scene.cameras.main.width;
     const screenHeight = this.scene.cameras.main.height;
     
@@ -207,20 +211,21 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
       }
     ];
     
-    return Phaser.Utils.Array.GetRandom(directions);
+    return random.pick(directions);
   }
 
   /**
    * Create the fly-away animation after scaling
    * @param direction - The direction vector containing x and y offsets for the animation
+   * @param random - Cosmetic random stream of the run
    */
-  private createFlyAwayAnimation(direction: { x: number; y: number }): void {
+  private createFlyAwayAnimation(direction: { x: number; y: number }, random: SeededRandom): void {
     this.scene.tweens.add({
       alpha: 0,
       duration: COLLECTION_ANIMATION.FLY_DURATION,
       ease: 'Cubic.easeOut',
       onComplete: () => this.destroy(),
-      rotation: Phaser.Math.Between(-COLLECTION_ANIMATION.MAX_ROTATION, COLLECTION_ANIMATION.MAX_ROTATION),
+      rotation: random.nextInt(-COLLECTION_ANIMATION.MAX_ROTATION, COLLECTION_ANIMATION.MAX_ROTATION),
       scaleX: COLLECTION_ANIMATION.FLY_SCALE,
       scaleY: COLLECTION_ANIMATION.FLY_SCALE,
       targets: this,
@@ -231,22 +236,24 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
 
   /**
    * Create sparkle particle effects when collected
+   * @param random - Cosmetic random stream of the run
    */
-  private createSparkleEffect(): void {
+  private createSparkleEffect(random: SeededRandom): void {
     for (let i = 0; i < SPARKLE_EFFECT.PARTICLE_COUNT; i++) {
-      this.createSparkleParticle(GOLD_COLOR);
+      this.createSparkleParticle(GOLD_COLOR, random);
     }
   }
 
   /**
    * Create a single sparkle particle
    * @param color - The hexadecimal color value for the particle
+   * @param random - Cosmetic random stream of the run
    */
-  private createSparkleParticle(color: number): void {
+  private createSparkleParticle(color: number, random: SeededRandom): void {
     const particle = this.scene.add.circle(
-      this.x + Phaser.Math.Between(-SPARKLE_EFFECT.SPAWN_RANGE, SPARKLE_EFFECT.SPAWN_RANGE),
-      this.y + Phaser.Math.Between(-SPARKLE_EFFECT.SPAWN_RANGE, SPARKLE_EFFECT.SPAWN_RANGE),
-      Phaser.Math.Between(SPARKLE_EFFECT.SIZE_MIN, SPARKLE_EFFECT.SIZE_MAX),
+      this.x + random.nextInt(-SPARKLE_EFFECT.SPAWN_RANGE, SPARKLE_EFFECT.SPAWN_RANGE),
+      this.y + random.nextInt(-SPARKLE_EFFECT.SPAWN_RANGE, SPARKLE_EFFECT.SPAWN_RANGE),
+      random.nextInt(SPARKLE_EFFECT.SIZE_MIN, SPARKLE_EFFECT.SIZE_MAX),
       color
     ).setDepth(SPARKLE_PARTICLE_DEPTH);
     
@@ -257,8 +264,8 @@ export class Collectible extends Phaser.Physics.Arcade.Sprite {
       onComplete: () => particle.destroy(),
       scale: 0,
       targets: particle,
-      x: particle.x + Phaser.Math.Between(-SPARKLE_EFFECT.MOVEMENT_RANGE_X, SPARKLE_EFFECT.MOVEMENT_RANGE_X),
-      y: particle.y + Phaser.Math.Between(SPARKLE_EFFECT.MOVEMENT_RANGE_Y_MIN, SPARKLE_EFFECT.MOVEMENT_RANGE_Y_MAX)
+      x: particle.x + random.nextInt(-SPARKLE_EFFECT.MOVEMENT_RANGE_X, SPARKLE_EFFECT.MOVEMENT_RANGE_X),
+      y: particle.y + random.nextInt(SPARKLE_EFFECT.MOVEMENT_RANGE_Y_MIN, SPARKLE_EFFECT.MOVEMENT_RANGE_Y_MAX)
     });
   }
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import Phaser from 'phaser';
+import { GRID_SIZE, ImageKeys } from '../config/constants';
+import { getGhostPosition, GhostTrack } from '../game/ghost-track';
+
+const GHOST_ALPHA = 0.4;
+const GHOST_TINT = 0x99ccff;
+/** Just below the player */
+const GHOST_DEPTH = 99;
+/** Smallest movement in a frame that counts as a step rather than riding a platform */
+const STEP_THRESHOLD = GRID_SIZE / 8;
+
+/**
+ * Ghost class representing the player's best run on a level
+ * A see-through ant that follows the best run's path in step with the current attempt
+ */
+export class Ghost extends Phaser.GameObjects.Sprite {
+  private readonly track: GhostTrack;
+
+  /**
+   * Create a new Ghost instance
+   * @param scene - The Phaser scene this ghost belongs to
+   * @param track - Path of the run the ghost follows
+   */
+  constructor(scene: Phaser.Scene, track: GhostTrack) {
+    super(scene, 0, 0, ImageKeys.ANT, 0);
+    this.track = track;
+
+    scene.add.existing(this);
+    this.setDisplaySize(GRID_SIZE * 1.5, GRID_SIZE * 1.5);
+    this.setAlpha(GHOST_ALPHA);
+    this.setTint(GHOST_TINT);
+    this.setDepth(GHOST_DEPTH);
+    this.showFrame(0);
+  }
+
+  /**
+   * Move the ghost to where the best run was on a frame
+   * The ghost is hidden while the best run's ant was dead and once the best run has finished
+   * @param frame - Frame of the current attempt, counted from the start of the level
+   */
+  showFrame(frame: number): void {
+    const position = getGhostPosition(this.track, frame);
+    this.setVisible(position !== null);
+    if (!position) return;
+
+    // Face the way the ghost steps, like the player does, but not the way a platform carries it
+    const deltaX = position.x - this.x;
+    if (Math.abs(deltaX) >= STEP_THRESHOLD) {
+      this.setFlipX(deltaX < 0);
+    }
+    this.setPosition(position.x, position.y);
+  }
+}
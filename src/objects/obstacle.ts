@@ -1,5 +1,15 @@
 import Phaser from "phaser";
-import { AnimationKeys, Direction } from "../config/constants";
+import { AnimationKeys, Direction, GRID_SIZE, ImageKeys } from "../config/constants";
+import { FrogState, getFrogDrawY, getFrogHopProgress, isFrogTelegraphing } from "../game/frog";
+import { GridObjectType } from "../game/grid-system";
+import { MovingEntity } from "../game/lane-layout";
+
+/** Spritesheet frame of a frog crouching before a hop */
+const FROG_CROUCH_FRAME = 4;
+/** Tint a crouching frog flashes, warning that it is about to hop */
+const FROG_WARNING_TINT = 0xff6666;
+/** Steps between flashes of a crouching frog */
+const FROG_WARNING_FLASH_STEPS = 6;
 
 /**
  * Enum defining the different types of obstacles in the game
@@ -13,44 +23,55 @@ export enum ObstacleType {
 
 /**
  * Obstacle class representing deadly objects that the player must avoid
- * Obstacles can be static or moving, and some have special behaviors (like frogs jumping)
+ * Shows an obstacle of the game simulation, which moves it along its lane; frogs instead
+ * hop between rows, crouching and flashing before each hop
  */
 export class Obstacle extends Phaser.Physics.Arcade.Sprite {
   private readonly obstacleType: ObstacleType;
+  private readonly entity: MovingEntity;
 
   /**
    * Create a new Obstacle instance
    * @param scene - The Phaser scene this obstacle belongs to
-   * @param x - The initial x position
-   * @param y - The initial y position
-   * @param type - The type of obstacle
-   * @param speed - The movement speed in pixels per second
-   * @param direction - The movement direction (LEFT or RIGHT)
+   * @param entity - The simulated obstacle to show
    */
-  constructor(
-    scene: Phaser.Scene,
-    x: number,
-    y: number,
-    type: ObstacleType,
-    speed: number,
-    direction: Direction = Direction.RIGHT
-  ) {
-    const texture = Obstacle.getTextureForType(type);
-    super(scene, x, y, texture);
+  constructor(scene: Phaser.Scene, entity: MovingEntity) {
+    const type = Obstacle.getTypeForObject(entity.objectType);
+    super(scene, entity.x, entity.row * GRID_SIZE + GRID_SIZE / 2, Obstacle.getTextureForType(type));
     
     this.obstacleType = type;
+    this.entity = entity;
     
     this.initializeSprite(scene);
     this.setupPhysics();
-    this.setupMovement(speed, direction);
-    this.setupAnimations(scene);
+    this.setFlipX(entity.velocity < 0);
+    this.setupAnimations();
   }
 
   /**
-   * Update obstacle position and handle screen wrapping
+   * Move the obstacle to where the simulation has it
    */
   update(): void {
-    this.handleScreenWrapping();
+    this.x = this.entity.x;
+    if (this.entity.frog) {
+      this.updateFrog(this.entity.frog);
+    }
+  }
+
+  /**
+   * Get the obstacle type shown for a grid object
+   */
+  private static getTypeForObject(objectType: GridObjectType): ObstacleType {
+    switch (objectType) {
+      case GridObjectType.NAIL:
+        return ObstacleType.NAIL;
+      case GridObjectType.SPRAY:
+        return ObstacleType.SPRAY;
+      case GridObjectType.FROG:
+        return ObstacleType.FROG;
+      default:
+        return ObstacleType.POISON;
+    }
   }
 
   /**
@@ -59,15 +80,15 @@ export class Obstacle extends Phaser.Physics.Arcade.Sprite {
   private static getTextureForType(type: ObstacleType): string {
     switch (type) {
       case ObstacleType.FROG:
-        return 'frog';
+        return ImageKeys.FROG;
       case ObstacleType.NAIL:
-        return 'nail';
+        return ImageKeys.NAIL;
       case ObstacleType.POISON:
-        return 'poison';
+        return ImageKeys.POISON;
       case ObstacleType.SPRAY:
-        return 'spray';
+        return ImageKeys.SPRAY;
       default:
-        return 'poison'; // fallback
+        return ImageKeys.POISON; // fallback
     }
   }
 
@@ -94,72 +115,40 @@ export class Obstacle extends Phaser.Physics.Arcade.Sprite {
   }
 
   /**
-   * Setup movement velocity and direction
-   * @param speed - The movement speed in pixels per second
-   * @param direction - The movement direction (LEFT or RIGHT)
-   */
-  private setupMovement(speed: number, direction: Direction): void {
-    if (direction === Direction.LEFT) {
-      this.setFlipX(true);
-      this.setVelocityX(-speed);
-    } else {
-      this.setFlipX(false);
-      this.setVelocityX(speed);
-    }
-  }
-
-  /**
-   * Setup animations and special behaviors for specific obstacle types
+   * Setup animations for specific obstacle types
    */
-  private setupAnimations(scene: Phaser.Scene): void {
+  private setupAnimations(): void {
     if (this.obstacleType === ObstacleType.FROG) {
       this.play(AnimationKeys.FROG_IDLE);
-      this.setupFrogJumpBehavior(scene);
     }
   }
 
   /**
-   * Setup jumping behavior for frog obstacles
-   * @param scene - The Phaser scene for creating timed events
+   * Show a frog where the simulation has it: part way along a hop, crouching and flashing
+   * before one, or breathing while it waits
+   * @param frog - The frog's state in the simulation
    */
-  private setupFrogJumpBehavior(scene: Phaser.Scene): void {
-    scene.time.addEvent({
-      callback: this.jump,
-      callbackScope: this,
-      delay: Phaser.Math.Between(2000, 5000),
-      loop: true
-    });
-  }
+  private updateFrog(frog: FrogState): void {
+    this.y = getFrogDrawY(this.entity, frog);
 
-  /**
-   * Handle screen wrapping when obstacles move off-screen
-   */
-  private handleScreenWrapping(): void {
-    const width = this.scene.game.config.width as number;
-    const buffer = 50;
-    
-    if (this.x < -buffer) {
-      this.x = width + buffer;
-    } else if (this.x > width + buffer) {
-      this.x = -buffer;
-    }
-  }
+    // The frog faces up the screen in its spritesheet
+    const hopsDown = (frog.targetRow ?? this.entity.row) > this.entity.row || frog.facing === Direction.DOWN;
+    this.setFlipY(hopsDown);
 
-  /**
-   * Make frog obstacles jump with animation
-   */
-  private jump(): void {
-    if (this.obstacleType !== ObstacleType.FROG) {
-      return;
+    if (getFrogHopProgress(frog) !== undefined) {
+      this.clearTint();
+      this.play(AnimationKeys.FROG_JUMP, true);
+    } else if (isFrogTelegraphing(frog)) {
+      this.anims.stop();
+      this.setFrame(FROG_CROUCH_FRAME);
+      if (Math.floor(frog.stepsUntilHop / FROG_WARNING_FLASH_STEPS) % 2 === 0) {
+        this.setTint(FROG_WARNING_TINT);
+      } else {
+        this.clearTint();
+      }
+    } else {
+      this.clearTint();
+      this.play(AnimationKeys.FROG_IDLE, true);
     }
-
-    this.play(AnimationKeys.FROG_JUMP);
-    this.setVelocityY(-200);
-    
-    // Reset after animation completes
-    this.once('animationcomplete', () => {
-      this.play(AnimationKeys.FROG_IDLE);
-      this.setVelocityY(0);
-    });
   }
-}
\ No newline at end of file
+}
@@ -1,167 +1,90 @@
 import Phaser from 'phaser';
-import { AnimationKeys, AudioKeys, ImageKeys, GRID_SIZE } from '../config/constants';
+import { AnimationKeys, AudioKeys, Direction, ImageKeys, GRID_SIZE } from '../config/constants';
+import { HOP_DURATION_MS, INVULNERABILITY_MS } from '../game/simulation';
 import { AudioManager } from '../utils/audio-manager';
 
+const INVULNERABILITY = {
+  BLINK_DURATION: 125,
+  BLINK_ALPHA: 0.2
+} as const;
+
 /**
  * Player class representing the ant character that the user controls
- * Uses grid-based movement system for precise, Frogger-style gameplay
+ * Shows the ant where the game simulation has it, animating its moves, death, and respawn;
+ * the player's input reaches the simulation through the input manager
  */
-export class Player extends Phaser.Physics.Arcade.Sprite {
+export class Player extends Phaser.GameObjects.Sprite {
   private readonly audioManager: AudioManager;
-  private readonly cursors: Phaser.Types.Input.Keyboard.CursorKeys;
-  private readonly gridHeight: number;
-  private readonly gridWidth: number;
   private readonly jumpSound: Phaser.Sound.BaseSound;
 
-  private gridCol: number = 0;
-  private gridRow: number = 0;
   private isDead: boolean = false;
+  /** Timer that ends the walking animation, restarted by every hop */
+  private moveAnimationTimer?: Phaser.Time.TimerEvent;
 
   constructor(scene: Phaser.Scene, x: number, y: number) {
     super(scene, x, y, ImageKeys.ANT);
-    
-    // Get dynamic grid dimensions from the scene's grid system
-    const gridSystem = (scene as any).gridSystem;
-    this.gridHeight = gridSystem ? gridSystem.getGridHeight() : 48; // fallback to 48
-    this.gridWidth = gridSystem ? gridSystem.getGridWidth() : 16;   // fallback to 16
-    
+
     this.audioManager = new AudioManager(scene);
-    this.cursors = scene.input.keyboard?.createCursorKeys() || {} as Phaser.Types.Input.Keyboard.CursorKeys;
     this.jumpSound = this.audioManager.add(AudioKeys.SFX_JUMP, { volume: 0.5 });
-    
+
     this.initializeSprite(scene);
-    this.setupPhysics();
     this.setupRendering();
-    this.calculateInitialGridPosition(x, y);
-    this.snapToGrid();
-  }
-
-  /**
-   * Update player state and handle input
-   */
-  update(): void {
-    if (this.isDead) return;
-    
-    this.handleInput();
-    this.checkBoundaries();
   }
 
   /**
-   * Move player left by one grid cell
+   * Show the ant hopping to the next cell, facing the way it went
+   * The hop itself is drawn from the simulation's position for the ant
+   * @param direction - The direction the ant hopped in
    */
-  public moveLeft(): void {
-    if (this.gridCol > 0) {
-      this.gridCol--;
-      this.setFlipX(true);
-      this.snapToGrid();
-      this.playMoveAnimation();
-    }
-  }
-
-  /**
-   * Move player right by one grid cell
-   */
-  public moveRight(): void {
-    if (this.gridCol < this.gridWidth - 1) {
-      this.gridCol++;
-      this.setFlipX(false);
-      this.snapToGrid();
-      this.playMoveAnimation();
-    }
-  }
-
-  /**
-   * Move player up by one grid cell
-   */
-  public moveUp(): void {
-    if (this.gridRow > 0) {
-      this.gridRow--;
-      this.snapToGrid();
-      this.playMoveAnimation();
-      
-      // Play jump sound for upward movement
-      if (!this.jumpSound.isPlaying) {
-        this.jumpSound.play();
-      }
+  public showMove(direction: Direction): void {
+    if (direction === Direction.LEFT || direction === Direction.RIGHT) {
+      this.setFlipX(direction === Direction.LEFT);
     }
-  }
-
-  /**
-   * Move player down by one grid cell
-   */
-  public moveDown(): void {
-    if (this.gridRow < this.gridHeight - 1) {
-      this.gridRow++;
-      this.snapToGrid();
-      this.playMoveAnimation();
-    }
-  }
-
-  /**
-   * Get the current grid row position
-   * @returns The current row (0-based index from top)
-   */
-  getGridRow(): number {
-    return this.gridRow;
-  }
-
-  /**
-   * Get the current grid column position
-   * @returns The current column (0-based index from left)
-   */
-  getGridCol(): number {
-    return this.gridCol;
-  }
-
-  /**
-   * Set the player's grid position directly
-   * @param row - The target row (will be clamped to valid range)
-   * @param col - The target column (will be clamped to valid range)
-   */
-  setGridPosition(row: number, col: number): void {
-    this.gridRow = Phaser.Math.Clamp(row, 0, this.gridHeight - 1);
-    this.gridCol = Phaser.Math.Clamp(col, 0, this.gridWidth - 1);
-    this.snapToGrid();
-  }
+    this.playMoveAnimation();
 
-  /**
-   * Move the player horizontally with a platform (for riding logs/leaves)
-   * @param deltaX - The horizontal distance to move in pixels
-   */
-  moveWithPlatform(deltaX: number): void {
-    if (this.isDead) return;
-    
-    // Move the player horizontally
-    this.x += deltaX;
-    
-    // Update grid position based on new world position
-    const newGridCol = Math.round((this.x - GRID_SIZE / 2) / GRID_SIZE);
-    
-    // Update grid column if it changed due to platform movement
-    if (newGridCol !== this.gridCol) {
-      this.gridCol = newGridCol;
+    // Play jump sound for upward movement
+    if (direction === Direction.UP && !this.jumpSound.isPlaying) {
+      this.jumpSound.play();
     }
-    
-    // Don't snap to grid here - let the platform movement be smooth
   }
 
   /**
-   * Kill the player and trigger death animation
+   * Play the death animation and sound
    */
   die(): void {
     if (this.isDead) return;
-    
+
     this.isDead = true;
     this.play(AnimationKeys.ANT_DEATH);
     this.audioManager.play(AudioKeys.SFX_DEATH);
   }
 
   /**
-   * Check if the player is currently dead
-   * @returns True if the player is dead, false otherwise
+   * Show the ant coming back to life
+   * The ant blinks for as long as it can't be hurt
    */
-  isPlayerDead(): boolean {
-    return this.isDead;
+  respawn(): void {
+    this.isDead = false;
+    this.anims.stop();
+    this.setFrame(0);
+    this.startBlinking();
+  }
+
+  /**
+   * Blink the ant until its protection after respawning runs out
+   */
+  private startBlinking(): void {
+    this.scene.tweens.killTweensOf(this);
+    this.scene.tweens.add({
+      targets: this,
+      alpha: INVULNERABILITY.BLINK_ALPHA,
+      duration: INVULNERABILITY.BLINK_DURATION,
+      yoyo: true,
+      repeat: Math.round(INVULNERABILITY_MS / (INVULNERABILITY.BLINK_DURATION * 2)) - 1,
+      onComplete: () => {
+        this.setAlpha(1);
+      }
+    });
   }
 
   /**
@@ -170,101 +93,40 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
    */
   private initializeSprite(scene: Phaser.Scene): void {
     scene.add.existing(this);
-    scene.physics.add.existing(this);
-    
+
     // Set display properties
     const antSize = GRID_SIZE * 1.5; // 72px - larger but not too big
     this.setDisplaySize(antSize, antSize);
     this.setOrigin(0.5, 0.5);
     this.setDepth(100);
-    
+
     // Start with idle frame
     this.setFrame(0);
   }
 
-  /**
-   * Setup physics body properties
-   */
-  private setupPhysics(): void {
-    // Disable physics for grid-based movement
-    this.body!.enable = false;
-  }
-
   /**
    * Setup rendering properties for crisp sprite display
    */
   private setupRendering(): void {
     this.setTexture(ImageKeys.ANT, 0);
-    
+
     // Use nearest neighbor filtering for crisp pixel art
     this.texture.setFilter(Phaser.Textures.FilterMode.NEAREST);
   }
 
   /**
-   * Calculate initial grid position from world coordinates
-   * @param x - The world x coordinate
-   * @param y - The world y coordinate
-   */
-  private calculateInitialGridPosition(x: number, y: number): void {
-    this.gridCol = Math.round((x - GRID_SIZE / 2) / GRID_SIZE);
-    this.gridRow = Math.round((y - GRID_SIZE / 2) / GRID_SIZE);
-  }
-
-  /**
-   * Snap player position to the current grid cell
-   */
-  private snapToGrid(): void {
-    // Convert grid position to world position (center of grid cell)
-    // Adjust positioning slightly left to better center the ant visually
-    this.x = Math.round(this.gridCol * GRID_SIZE + GRID_SIZE / 2 - 2);
-    this.y = Math.round(this.gridRow * GRID_SIZE + GRID_SIZE / 2);
-  }
-
-  /**
-   * Handle keyboard input for player movement
-   */
-  private handleInput(): void {
-    // Check for key presses (only accept one input per frame)
-    const leftPressed = Phaser.Input.Keyboard.JustDown(this.cursors.left!);
-    const rightPressed = Phaser.Input.Keyboard.JustDown(this.cursors.right!);
-    const upPressed = Phaser.Input.Keyboard.JustDown(this.cursors.up!);
-    const downPressed = Phaser.Input.Keyboard.JustDown(this.cursors.down!);
-    
-    if (leftPressed) {
-      this.moveLeft();
-    } else if (rightPressed) {
-      this.moveRight();
-    } else if (upPressed) {
-      this.moveUp();
-    } else if (downPressed) {
-      this.moveDown();
-    }
-  }
-
-  /**
-   * Play the walking animation briefly, then return to idle
+   * Play the walking animation for as long as a hop takes, then return to idle
    */
   private playMoveAnimation(): void {
     this.play(AnimationKeys.ANT_WALK);
-    
-    // Stop animation after a short time and return to idle frame
-    this.scene.time.delayedCall(200, () => {
+    this.moveAnimationTimer?.remove();
+
+    // Stop animation when the hop lands and return to idle frame
+    this.moveAnimationTimer = this.scene.time.delayedCall(HOP_DURATION_MS, () => {
       if (!this.isDead) {
         this.anims.stop();
         this.setFrame(0);
       }
     });
   }
-
-  /**
-   * Check if player has moved outside game boundaries
-   */
-  private checkBoundaries(): void {
-    const gameWidth = this.scene.game.config.width as number;
-    
-    if (this.x < -GRID_SIZE || this.x > gameWidth + GRID_SIZE) {
-      // Player has been carried off screen by a platform
-      this.die();
-    }
-  }
-}
\ No newline at end of file
+}
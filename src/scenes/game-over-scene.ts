@@ -1,24 +1,61 @@
 /**
  * @fileoverview Game over scene for the Antzer game
  * Displays final game results, score, and provides options to replay or return to menu
- * Handles both win and lose conditions with appropriate visual feedback
+ * Handles both win and lose conditions with appropriate visual feedback, and sends runs
+ * that make a high-score board to the initials entry screen first. Every ranked run of a level
+ * that was played is also submitted to the leaderboard
  */
 
 import Phaser from "phaser";
-import { AudioKeys, ImageKeys, SceneKeys } from "../config/constants";
+import { AudioKeys, GameMode, ImageKeys, SceneKeys } from "../config/constants";
+import { getLevel } from "../config/level-registry";
+import { CampaignRun } from "../game/campaign";
+import { MenuNavigator } from "../game/menu-navigator";
+import { Replay } from "../game/replay";
 import { AudioManager } from "../utils/audio-manager";
+import { createLeaderboardClient } from "../utils/create-leaderboard-client";
+import { getHighScoreBoard, HighScoreBoard, HighScoreStore } from "../utils/high-score-store";
+import { LeaderboardError } from "../utils/leaderboard-client";
+import { PlayerProfileStore } from "../utils/player-profile";
+import { formatElapsedTime } from "../utils/time-format";
+
+const GAME_OVER_BUTTON_WIDTH = 230;
+/** Distance between the centers of neighbouring buttons */
+const GAME_OVER_BUTTON_SPACING = 250;
 
 /**
  * Game over data interface containing final game statistics
  * Passed from the game scene when the game ends
  */
-interface GameOverData {
-  /** Final score achieved by the player */
+export interface GameOverData {
+  /** Score earned on the level that was played, which is what its high-score board ranks */
   score: number;
-  /** Formatted completion time string (e.g., "2:34") */
+  /** Formatted completion time string of the level (e.g., "2:34") */
   time: string;
+  /** Completion time of the level in milliseconds, used to rank the run on the high-score board */
+  timeMs?: number;
   /** Whether the player won (reached the goal) or lost */
   won: boolean;
+  /** Id of the level that was played */
+  levelId?: string;
+  /** Seed of the generated level that was played */
+  seed?: string;
+  /** Mode that was played */
+  mode?: GameMode;
+  /** Campaign totals across every level played, once a campaign run has got past its first level */
+  campaign?: CampaignRun;
+  /** Rows climbed in an endless run */
+  rowsClimbed?: number;
+  /** Rank on the high-score board, set once initials have been entered (null if the run didn't stay on it) */
+  highScoreRank?: number | null;
+  /** Recording of the run, which can be watched from this scene */
+  replay?: Replay;
+  /** Hash of the run's replay, submitted with the run to the leaderboard */
+  replayHash?: string;
+  /** Whether the run has been sent to the leaderboard, so returning from a replay never sends it again */
+  leaderboardSubmitted?: boolean;
+  /** Rank on the leaderboard, once the submission has been answered */
+  leaderboardRank?: number;
 }
 
 /**
@@ -27,19 +64,24 @@ interface GameOverData {
  * This scene provides:
  * - Win/lose status display with appropriate colors and messages
  * - Final score and completion time statistics
+ * - High-score rank for a new record, after the initials entry screen
+ * - Leaderboard submission with its result, and a button to view the leaderboard
  * - Play again button to restart the game
+ * - Watch replay button to see the run again
  * - Menu button to return to the main menu
  * - Visual feedback based on game outcome (win/lose)
  * - Credit information about the game's creation
  * 
  * **Scene Flow:**
- * BootScene → LoadingScene → MenuScene → GameScene → **GameOverScene**
+ * BootScene → LoadingScene → MenuScene → GameScene → (HighScoreEntryScene) → **GameOverScene** (→ ReplayScene)
  */
 export class GameOverScene extends Phaser.Scene {
   /** Game statistics passed from the previous scene */
   private gameData: GameOverData = { score: 0, time: '0:00', won: false };
   /** Audio manager for handling sound effects */
   private audioManager!: AudioManager;
+  /** High-score board for the level and mode that were played */
+  private board?: HighScoreBoard;
 
   /**
    * Create a new GameOverScene instance
@@ -62,13 +104,103 @@ export class GameOverScene extends Phaser.Scene {
    * Called after the scene is started, creates all UI elements based on game outcome
    */
   create(): void {
+    // A new record goes to the initials entry screen, which comes back here with its rank
+    this.board = this.getBoard();
+    if (this.board && this.isNewHighScore(this.board)) {
+      this.scene.start(SceneKeys.HIGH_SCORE_ENTRY, { gameOver: this.gameData, board: this.board });
+      return;
+    }
+    
     this.initializeAudio();
     this.createBackground();
     this.createTitle();
+    this.createHighScoreRank();
     this.createGameStats();
     this.createMessage();
     this.createButtons();
     this.createCredits();
+    this.submitToLeaderboard();
+  }
+
+  /**
+   * Get the high-score board for the level and mode that were played
+   * @returns The board, or undefined if the run can't be ranked
+   */
+  private getBoard(): HighScoreBoard | undefined {
+    const { levelId, mode, seed } = this.gameData;
+    if (levelId === undefined) return undefined;
+    
+    if (mode === GameMode.ENDLESS) {
+      return getHighScoreBoard(GameMode.ENDLESS, levelId, 'Endless');
+    }
+    
+    const name = seed !== undefined ? `Seed ${seed}` : getLevel(levelId)?.name ?? levelId;
+    return getHighScoreBoard(GameMode.CAMPAIGN, levelId, name);
+  }
+
+  /**
+   * Check whether the run makes the high-score board and hasn't been recorded yet
+   * @param board - Board for the level and mode that were played
+   */
+  private isNewHighScore(board: HighScoreBoard): boolean {
+    const { score, timeMs, won, highScoreRank } = this.gameData;
+    if (highScoreRank !== undefined || timeMs === undefined) return false;
+    
+    return new HighScoreStore().getRank(board.id, { score, timeMs, won }) !== null;
+  }
+
+  /**
+   * Submit the run to the leaderboard and show the player's rank, or why it wasn't submitted
+   * Only recorded runs of a level that was played are sent, on the same board as the local high
+   * scores. A run is submitted once; coming back from its replay shows the rank it already has
+   */
+  private submitToLeaderboard(): void {
+    const { score, timeMs, won, replayHash, leaderboardSubmitted, leaderboardRank } = this.gameData;
+    if (!this.board || timeMs === undefined || replayHash === undefined) return;
+    
+    const profile = new PlayerProfileStore().getProfile();
+    const leaderboardText = this.add.text(
+      this.cameras.main.width / 2,
+      this.cameras.main.height / 2 + 198,
+      !leaderboardSubmitted ? 'Submitting to leaderboard...'
+        : leaderboardRank !== undefined ? `Leaderboard rank: #${leaderboardRank}`
+        : 'Submitted to leaderboard',
+      {
+        font: '18px Arial',
+        color: '#ffffff'
+      }
+    ).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 2);
+    if (leaderboardSubmitted) return;
+    
+    this.gameData.leaderboardSubmitted = true;
+    createLeaderboardClient().submit({
+      boardId: this.board.id,
+      boardName: this.board.name,
+      playerId: profile.id,
+      initials: profile.initials,
+      score,
+      timeMs,
+      won,
+      replayHash
+    }).then(entry => {
+      this.gameData.leaderboardRank = entry.rank;
+      if (leaderboardText.active) {
+        leaderboardText.setText(`Leaderboard rank: #${entry.rank}`);
+      }
+    }).catch((error: unknown) => {
+      // Nothing was recorded, so the run can be sent again next time this screen is shown
+      this.gameData.leaderboardSubmitted = false;
+      const offline = error instanceof LeaderboardError && error.kind === 'offline';
+      if (!offline) {
+        console.error('❌ Leaderboard submission failed:', error);
+      }
+      if (leaderboardText.active) {
+        leaderboardText.setText(offline
+          ? 'Leaderboard offline - run not submitted'
+          : 'Leaderboard error - run not submitted');
+      }
+    });
   }
 
   /**
@@ -112,16 +244,49 @@ export class GameOverScene extends Phaser.Scene {
       .setShadow(3, 3, '#000000', 5);
   }
 
+  /**
+   * Create the new high score banner below the title when the run made the board
+   */
+  private createHighScoreRank(): void {
+    if (this.gameData.highScoreRank === undefined || this.gameData.highScoreRank === null) return;
+    
+    this.add.text(
+      this.cameras.main.width / 2,
+      this.cameras.main.height / 4 + 55,
+      `NEW HIGH SCORE! #${this.gameData.highScoreRank}`,
+      {
+        font: 'bold 24px Arial',
+        color: '#ffd700'
+      }
+    ).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 3);
+  }
+
   /**
    * Create game statistics display showing score and completion time
-   * Shows the final score and formatted completion time
+   * Shows the final score and formatted completion time, and the campaign totals above them
+   * when more than one level was played
    */
   private createGameStats(): void {
+    const campaign = this.gameData.campaign;
+    if (campaign) {
+      this.add.text(
+        this.cameras.main.width / 2,
+        this.cameras.main.height / 2 - 95,
+        `Campaign Total: ${campaign.score} points in ${formatElapsedTime(campaign.elapsedMs)}`,
+        {
+          font: '20px Arial',
+          color: '#ffd700'
+        }
+      ).setOrigin(0.5)
+        .setShadow(2, 2, '#000000', 2);
+    }
+    
     // Final score display
     this.add.text(
       this.cameras.main.width / 2,
       this.cameras.main.height / 2 - 50,
-      `Final Score: ${this.gameData.score}`,
+      `${campaign ? 'Level Score' : 'Final Score'}: ${this.gameData.score}`,
       {
         font: '32px Arial',
         color: '#ffffff'
@@ -133,7 +298,7 @@ export class GameOverScene extends Phaser.Scene {
     this.add.text(
       this.cameras.main.width / 2,
       this.cameras.main.height / 2,
-      `Completion Time: ${this.gameData.time}`,
+      `${campaign ? 'Level Time' : 'Completion Time'}: ${this.gameData.time}`,
       {
         font: '32px Arial',
         color: '#ffffff'
@@ -144,7 +309,8 @@ export class GameOverScene extends Phaser.Scene {
 
   /**
    * Create contextual message based on game outcome
-   * Shows congratulations for victory or encouragement for defeat
+   * Shows congratulations for victory or encouragement for defeat,
+   * plus the level seed when a generated level was played or the height reached in an endless run
    */
   private createMessage(): void {
     const message = this.gameData.won
@@ -161,28 +327,53 @@ export class GameOverScene extends Phaser.Scene {
       }
     ).setOrigin(0.5)
       .setShadow(2, 2, '#000000', 2);
+    
+    // Show the seed of a generated level so it can be shared, or how far an endless run got
+    const detail = this.gameData.mode === GameMode.ENDLESS
+      ? `Rows Climbed: ${this.gameData.rowsClimbed ?? 0}`
+      : this.gameData.seed !== undefined ? `Level Seed: ${this.gameData.seed}` : undefined;
+    
+    if (detail !== undefined) {
+      this.add.text(
+        this.cameras.main.width / 2,
+        this.cameras.main.height / 2 + 88,
+        detail,
+        {
+          font: '20px Arial',
+          color: '#ffd700'
+        }
+      ).setOrigin(0.5)
+        .setShadow(2, 2, '#000000', 2);
+    }
   }
 
   /**
    * Create navigation buttons for player actions
-   * Includes play again and return to menu options
+   * Includes play again and return to menu options, which a gamepad can move between
    */
   private createButtons(): void {
-    this.createPlayAgainButton();
-    this.createMenuButton();
+    const buttons = [
+      this.createPlayAgainButton(),
+      this.createLeaderboardButton(),
+      this.createMenuButton(),
+      this.createWatchReplayButton()
+    ].filter((button): button is Phaser.GameObjects.Image => button !== undefined);
+    
+    new MenuNavigator(this, buttons);
   }
 
   /**
    * Create the play again button with interactions
    * Allows the player to immediately restart the game
+   * @returns The button image
    */
-  private createPlayAgainButton(): void {
+  private createPlayAgainButton(): Phaser.GameObjects.Image {
     const playAgainButton = this.add.image(
-      this.cameras.main.width / 2 - 125,
+      this.cameras.main.width / 2 - GAME_OVER_BUTTON_SPACING,
       this.cameras.main.height / 2 + 150,
       ImageKeys.BUTTON
     ).setOrigin(0.5)
-      .setDisplaySize(250, 60)
+      .setDisplaySize(GAME_OVER_BUTTON_WIDTH, 60)
       .setInteractive({ useHandCursor: true });
     
     // Button text
@@ -200,21 +391,95 @@ export class GameOverScene extends Phaser.Scene {
     playAgainButton.on('pointerdown', () => {
       this.audioManager.play(AudioKeys.SFX_BUTTON);
       this.sound.stopAll(); // Clean up audio before scene transition
-      this.scene.start(SceneKeys.GAME);
+      this.scene.start(SceneKeys.GAME, {
+        levelId: this.gameData.levelId,
+        seed: this.gameData.seed,
+        mode: this.gameData.mode
+      });
+    });
+    return playAgainButton;
+  }
+
+  /**
+   * Create the leaderboard button with interactions
+   * Opens the leaderboard for the level and mode that were played over this scene
+   * @returns The button image, or undefined if the run can't be ranked
+   */
+  private createLeaderboardButton(): Phaser.GameObjects.Image | undefined {
+    if (!this.board) return undefined;
+    const board = this.board;
+    
+    const leaderboardButton = this.add.image(
+      this.cameras.main.width / 2,
+      this.cameras.main.height / 2 + 150,
+      ImageKeys.BUTTON
+    ).setOrigin(0.5)
+      .setDisplaySize(GAME_OVER_BUTTON_WIDTH, 60)
+      .setInteractive({ useHandCursor: true });
+    
+    // Button text
+    this.add.text(
+      leaderboardButton.x,
+      leaderboardButton.y,
+      'LEADERBOARD',
+      {
+        font: '20px Arial',
+        color: '#ffffff'
+      }
+    ).setOrigin(0.5);
+    
+    // Button functionality
+    leaderboardButton.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.scene.pause();
+      this.scene.launch(SceneKeys.LEADERBOARD, { board, parentScene: SceneKeys.GAME_OVER });
+    });
+    return leaderboardButton;
+  }
+
+  /**
+   * Create the watch replay button in the top corner, when the run was recorded
+   * Plays the run back, then returns to this scene
+   * @returns The button image, or undefined if the run wasn't recorded
+   */
+  private createWatchReplayButton(): Phaser.GameObjects.Image | undefined {
+    const replay = this.gameData.replay;
+    if (!replay) return undefined;
+    
+    const replayButton = this.add.image(this.cameras.main.width - 105, 45, ImageKeys.BUTTON)
+      .setOrigin(0.5)
+      .setDisplaySize(170, 50)
+      .setInteractive({ useHandCursor: true });
+    
+    this.add.text(replayButton.x, replayButton.y, 'WATCH REPLAY', {
+      font: '16px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+    
+    replayButton.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.sound.stopAll(); // Clean up audio before scene transition
+      this.scene.start(SceneKeys.REPLAY, {
+        replay,
+        returnScene: SceneKeys.GAME_OVER,
+        returnData: this.gameData
+      });
     });
+    return replayButton;
   }
 
   /**
    * Create the menu button with interactions
    * Allows the player to return to the main menu
+   * @returns The button image
    */
-  private createMenuButton(): void {
+  private createMenuButton(): Phaser.GameObjects.Image {
     const menuButton = this.add.image(
-      this.cameras.main.width / 2 + 125,
+      this.cameras.main.width / 2 + GAME_OVER_BUTTON_SPACING,
       this.cameras.main.height / 2 + 150,
       ImageKeys.BUTTON
     ).setOrigin(0.5)
-      .setDisplaySize(250, 60)
+      .setDisplaySize(GAME_OVER_BUTTON_WIDTH, 60)
       .setInteractive({ useHandCursor: true });
     
     // Button text
@@ -234,6 +499,7 @@ export class GameOverScene extends Phaser.Scene {
       this.sound.stopAll(); // Clean up audio before scene transition
       this.scene.start(SceneKeys.MENU);
     });
+    return menuButton;
   }
 
   /**
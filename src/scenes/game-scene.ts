@@ -1,123 +1,363 @@
 import Phaser from "phaser";
-import { AudioKeys, SceneKeys, GRID_SIZE } from "../config/constants";
-import { LEVEL_1_CONFIG, validateLevel } from "../config/level1";
-import { CollisionManager } from "../game/collision-manager";
+import { AudioKeys, Direction, GameMode, SceneKeys, GRID_SIZE } from "../config/constants";
+import { LevelConfig } from "../config/level-config";
+import { DEFAULT_LEVEL_ID, getLevel, getNextLevel } from "../config/level-registry";
+import { CampaignRun, createCampaignRun } from "../game/campaign";
+import { EndlessController } from "../game/endless-mode";
+import { createEndlessLevel } from "../game/endless-run";
+import { FixedTimestep } from "../game/fixed-timestep";
 import { GameUI } from "../game/game-ui";
-import { GridSystem } from "../game/grid-system";
+import { GridObjectType, GridSystem } from "../game/grid-system";
+import {
+  GamepadButton,
+  GamepadMoveSource,
+  GestureMoveSource,
+  InputManager,
+  KeyboardMoveSource,
+  QueuedMoveSource,
+  ReplayMoveSource,
+  TouchControls
+} from "../game/input-manager";
+import { describeKeyBindings } from "../game/key-bindings";
+import { generateLevel } from "../game/level-generator";
+import { calculateStars } from "../game/level-rating";
 import { LevelBuilder } from "../game/level-builder";
+import { RenderInterpolator } from "../game/render-interpolator";
+import { hashReplay, Replay, ReplayRecorder } from "../game/replay";
+import { CollectedItem } from "../game/respawn-tracker";
+import { GhostSplit, GhostTrackRecorder } from "../game/ghost-track";
+import { GameSimulation } from "../game/simulation";
+import { Checkpoint } from "../objects/checkpoint";
+import { Collectible, CollectibleType } from "../objects/collectible";
+import { Ghost } from "../objects/ghost";
 import { Obstacle } from "../objects/obstacle";
 import { Platform } from "../objects/platform";
 import { Player } from "../objects/player";
 import { AudioManager } from "../utils/audio-manager";
+import { BestRun, BestRunStore } from "../utils/best-run-store";
+import { ProgressStore } from "../utils/progress-store";
+import { GameSettings, SettingsStore } from "../utils/settings-store";
+import { formatElapsedTime } from "../utils/time-format";
+
+/**
+ * Scene data accepted by GameScene when it is started
+ */
+export interface GameSceneData {
+  /** Id of the registered level to play (defaults to the first level) */
+  levelId?: string;
+  /** Campaign run carried over from previous levels (defaults to a new run) */
+  campaign?: CampaignRun;
+  /** Unregistered level to play-test from the level editor; the run returns to the editor when it ends */
+  playtestLevel?: LevelConfig;
+  /** Seed of a generated level to play instead of a registered level */
+  seed?: string;
+  /** Mode to play (defaults to the campaign) */
+  mode?: GameMode;
+  /** Recording to play back, moving the ant instead of the player; the replay scene runs above the game */
+  replay?: Replay;
+}
+
+/**
+ * How far a replay has got, for the replay controls
+ */
+export interface ReplayProgress {
+  /** Frames played so far */
+  frame: number;
+  /** Frames the recorded run lasted */
+  frameCount: number;
+  /** True once the run has ended or the recording has run out */
+  finished: boolean;
+}
+
+/** Frames a replay keeps playing past the end of its recording before it gives up on the run ending */
+const REPLAY_OVERRUN_FRAMES = 120;
+
+const ENDLESS_INSTRUCTIONS = 'Climb as high as you can before the flood catches you!';
 
 export class GameScene extends Phaser.Scene {
+  // Level being played
+  private sceneData: GameSceneData = {};
+  private level!: LevelConfig;
+  private campaign!: CampaignRun;
+  private isPlaytest: boolean = false;
+  private seed?: string;
+  private runSeed!: string;
+  private mode: GameMode = GameMode.CAMPAIGN;
+  
+  // Replays
+  private frame: number = 0;
+  private recorder?: ReplayRecorder;
+  private replay?: Replay;
+  private replaySpeed: number = 1;
+  private replayStepping: boolean = false;
+  private replayFinished: boolean = false;
+  
+  // Ghost racer
+  private bestRun?: BestRun;
+  private ghost?: Ghost;
+  private ghostRecorder?: GhostTrackRecorder;
+  private splitRows: number[] = [];
+  private splits: GhostSplit[] = [];
+  
   // Core game objects
   private player!: Player;
-  private antHill!: Phaser.Physics.Arcade.Sprite;
+  private antHill?: Phaser.Physics.Arcade.Sprite;
   private obstacles!: Phaser.Physics.Arcade.Group;
   private collectibles!: Phaser.Physics.Arcade.Group;
-  private platforms!: Phaser.Physics.Arcade.Group;
+  private platforms!: Phaser.GameObjects.Group;
+  private checkpoints: Checkpoint[] = [];
   
   // Game systems
+  private simulation!: GameSimulation;
   private gridSystem!: GridSystem;
-  private collisionManager!: CollisionManager;
+  private endless?: EndlessController;
   private levelBuilder!: LevelBuilder;
   private gameUI!: GameUI;
+  private timestep!: FixedTimestep;
+  private interpolator!: RenderInterpolator;
+  private inputManager!: InputManager;
+  private touchInput?: QueuedMoveSource;
+  private gestureInput?: GestureMoveSource;
+  private settings!: GameSettings;
   private audioManager!: AudioManager;
+  private progressStore!: ProgressStore;
+  private bestRunStore!: BestRunStore;
   
   // Game state
-  private gameOver: boolean = false;
-  private gameWon: boolean = false;
   private gameMusic!: Phaser.Sound.BaseSound;
 
   constructor() {
     super({ key: SceneKeys.GAME });
   }
 
+  init(data: GameSceneData): void {
+    this.sceneData = data ?? {};
+    this.isPlaytest = data?.playtestLevel !== undefined;
+    this.seed = data?.seed;
+    this.mode = data?.mode ?? GameMode.CAMPAIGN;
+    this.replay = data?.replay;
+    // Endless runs without a seed get a new one, kept so the run can be replayed
+    this.runSeed = this.seed ?? Date.now().toString(36).toUpperCase();
+    
+    if (this.mode === GameMode.ENDLESS) {
+      this.level = createEndlessLevel();
+    } else if (data?.playtestLevel) {
+      this.level = data.playtestLevel;
+    } else if (this.seed !== undefined) {
+      this.level = generateLevel({ seed: this.seed });
+    } else {
+      this.level = this.resolveLevel(data?.levelId);
+    }
+    this.campaign = data?.campaign ?? createCampaignRun();
+  }
+
   create(): void {
     this.initializeGame();
     this.createLevel();
     this.createPlayer();
+    this.setupSimulation();
     this.setupAudio();
-    this.setupCollisions();
+    this.setupPause();
+    this.setupInput();
+    this.setupReplay();
+    this.setupGhost();
   }
 
-  update(): void {
-    if (this.gameOver || this.gameWon) return;
+  update(_time: number, delta: number): void {
+    this.interpolator.restore();
+    
+    // Gameplay runs in fixed steps, however often frames are drawn; faster replays use up real time
+    // faster, and stepping a paused replay runs a single step
+    const stepping = this.replayStepping;
+    this.replayStepping = false;
+    const steps = stepping ? 1 : this.timestep.advance(delta * (this.replay ? this.replaySpeed : 1));
+    
+    for (let i = 0; i < steps; i++) {
+      this.runStep();
+    }
+    if (!this.simulation.isOver()) {
+      this.gameUI.updateTimer(this.simulation.getElapsedMs());
+    }
+    this.updateFlood();
+    this.checkReplayOverrun();
+    
+    // Draw moving objects between the last two steps, by how far real time has got towards the next one
+    this.interpolator.interpolate(stepping ? 1 : this.timestep.getAlpha());
+    
+    // Stepping a paused replay pauses it again
+    if (stepping) {
+      this.scene.pause();
+    }
+  }
+
+  /**
+   * Pause or resume a replay, from the replay controls
+   */
+  public setReplayPaused(paused: boolean): void {
+    if (!this.replay || this.replayFinished) return;
+    
+    if (paused) {
+      this.scene.pause();
+    } else {
+      this.scene.resume();
+    }
+  }
+
+  /**
+   * Play a replay faster, from the replay controls
+   * @param speed - How many times faster than real time to play
+   */
+  public setReplaySpeed(speed: number): void {
+    // Clocks and tweens keep pace with the faster steps
+    this.replaySpeed = speed;
+    this.time.timeScale = speed;
+    this.tweens.timeScale = speed;
+  }
+
+  /**
+   * Play a single frame of a paused replay, from the replay controls
+   */
+  public stepReplayFrame(): void {
+    if (!this.replay || this.replayFinished || !this.scene.isPaused()) return;
+    
+    this.replayStepping = true;
+    this.scene.resume();
+  }
+
+  /**
+   * Get how far the replay has got
+   */
+  public getReplayProgress(): ReplayProgress {
+    return {
+      frame: this.frame,
+      frameCount: this.replay?.frameCount ?? this.frame,
+      finished: this.replayFinished
+    };
+  }
+
+  private runStep(): void {
+    this.interpolator.beforeStep(this.getMovingObjects());
+    
+    // Platforms and obstacles keep moving once the run has ended, while the ant dies or wins
+    if (this.simulation.isOver()) {
+      this.simulation.step();
+      this.updateLaneObjects();
+      return;
+    }
+    
+    this.frame++;
+    this.simulation.step(this.readInput());
+    this.updateLaneObjects();
     
-    this.updateGameObjects();
-    this.updateCollisions();
-    this.gameUI.updateTimer();
+    const { x, y } = this.simulation.getPlayerDrawPosition();
+    this.player.setPosition(x, y);
+    this.updateGhost();
+  }
+
+  private getMovingObjects(): Phaser.GameObjects.Sprite[] {
+    return [
+      ...this.platforms.getChildren() as Phaser.GameObjects.Sprite[],
+      ...this.obstacles.getChildren() as Phaser.GameObjects.Sprite[],
+      this.player,
+      ...(this.ghost ? [this.ghost] : [])
+    ];
+  }
+
+  private resolveLevel(levelId?: string): LevelConfig {
+    const requestedLevel = getLevel(levelId ?? DEFAULT_LEVEL_ID);
+    
+    if (!requestedLevel) {
+      console.warn(`Unknown level "${levelId}", falling back to ${DEFAULT_LEVEL_ID}`);
+    }
+    
+    return requestedLevel ?? getLevel(DEFAULT_LEVEL_ID)!;
   }
 
   private initializeGame(): void {
     // Stop any existing audio
     this.sound.stopAll();
     
-    // Validate level configuration
-    const levelErrors = validateLevel();
-    if (levelErrors.length > 0) {
-      console.error('❌ Level validation errors:', levelErrors);
-      levelErrors.forEach((error: string) => console.error(`  - ${error}`));
-    }
-    
     // Initialize systems
     this.audioManager = new AudioManager(this);
-    this.gridSystem = new GridSystem();
-    this.levelBuilder = new LevelBuilder(this, this.gridSystem);
-    this.gameUI = new GameUI(this, this.audioManager);
+    this.progressStore = new ProgressStore();
+    this.timestep = new FixedTimestep();
+    this.interpolator = new RenderInterpolator();
+    this.bestRunStore = new BestRunStore();
+    this.settings = new SettingsStore().getSettings();
+    this.simulation = new GameSimulation(this.level, {
+      viewWidth: this.cameras.main.width,
+      score: this.campaign.score,
+      seed: this.mode === GameMode.ENDLESS ? this.runSeed : this.seed,
+      endless: this.mode === GameMode.ENDLESS
+    });
+    this.gridSystem = this.simulation.getGridSystem();
+    this.levelBuilder = new LevelBuilder(this, this.gridSystem, this.level);
+    this.gameUI = new GameUI(this, this.audioManager, this.campaign.score, this.simulation.getLives());
     
     // Reset game state
-    this.gameOver = false;
-    this.gameWon = false;
+    this.endless = undefined;
+    this.frame = 0;
+    // The scene clock keeps its speed between runs, so every run starts at normal speed
+    this.setReplaySpeed(1);
+    this.replayStepping = false;
+    this.replayFinished = false;
+    this.bestRun = undefined;
+    this.ghost = undefined;
+    this.ghostRecorder = undefined;
+    this.recorder = undefined;
+    this.splitRows = [];
+    this.splits = [];
+    this.antHill = undefined;
     
-    // Create physics groups
+    // Create groups
     this.obstacles = this.physics.add.group();
     this.collectibles = this.physics.add.group();
-    this.platforms = this.physics.add.group();
-    
-    // Initialize collision manager
-    this.collisionManager = new CollisionManager(this.gridSystem, this.platforms);
+    this.platforms = this.add.group();
   }
 
   private createLevel(): void {
     // Create background tiles
-    this.levelBuilder.createBackground();
+    const backgroundTiles = this.levelBuilder.createBackground();
     
-    // Create static objects (obstacles, initial collectibles)
-    this.levelBuilder.createStaticObjects(this.obstacles, this.collectibles);
+    // Create static objects (initial collectibles)
+    this.levelBuilder.createStaticObjects(this.collectibles);
     
-    // Create water platforms
-    this.levelBuilder.createWaterPlatforms(this.platforms);
+    // Create obstacles and water platforms, which follow the simulation's lanes
+    this.levelBuilder.createLaneObjects(this.simulation.getEntities(), this.obstacles, this.platforms);
     
-    // Create ant hill
-    this.antHill = this.levelBuilder.createAntHill();
+    // Create checkpoint flags
+    this.checkpoints = this.levelBuilder.createCheckpoints();
+    
+    // Endless runs grow the level as the player climbs instead of ending at an ant hill
+    if (this.mode === GameMode.ENDLESS) {
+      this.endless = new EndlessController(
+        this,
+        this.gridSystem,
+        { obstacles: this.obstacles, collectibles: this.collectibles, platforms: this.platforms }
+      );
+      this.endless.create(backgroundTiles, this.simulation.getFloodY() ?? 0);
+    } else {
+      this.antHill = this.levelBuilder.createAntHill();
+    }
     
     // Create additional collectibles
     this.levelBuilder.createCollectibleSprites(this.collectibles);
     
     // Create UI
-    this.gameUI.create();
+    this.gameUI.create({
+      instructions: this.endless ? ENDLESS_INSTRUCTIONS : undefined,
+      moveKeys: describeKeyBindings(this.settings.keyBindings),
+      touchControls: this.settings.touchControls,
+      touchLayout: this.settings.touchLayout,
+      touchButtonSize: this.settings.touchButtonSize,
+      onPause: () => this.pauseGame(),
+      replay: this.replay !== undefined
+    });
   }
 
   private createPlayer(): void {
-    const startPosition = this.gridSystem.getWorldPosition(
-      LEVEL_1_CONFIG.antStartRow,
-      LEVEL_1_CONFIG.antStartCol
-    );
-    
-    this.player = new Player(this, startPosition.x, startPosition.y);
-    
-    // Store player reference in registry for mobile controls
-    this.registry.set('player', this.player);
-    
-    // Set up mobile control callbacks (kept for compatibility)
-    this.gameUI.setMobileControlCallbacks({
-      up: () => this.player.moveUp(),
-      down: () => this.player.moveDown(),
-      left: () => this.player.moveLeft(),
-      right: () => this.player.moveRight()
-    });
+    const { x, y } = this.simulation.getPlayerDrawPosition();
+    this.player = new Player(this, x, y);
     
     // Set up camera to follow the player
     this.setupCamera();
@@ -125,14 +365,15 @@ export class GameScene extends Phaser.Scene {
 
   private setupCamera(): void {
     const gameWidth = Number(this.sys.game.config.width);
+    const levelTop = this.gridSystem.getTopRow() * GRID_SIZE;
     const levelHeight = this.gridSystem.getGridHeight() * GRID_SIZE;
     
     // Don't set physics world bounds since we use grid-based movement
     // The player movement is controlled by grid constraints, not physics bounds
     
     // Set camera bounds to allow full level scrolling
-    // Make sure the camera can scroll to show the entire level
-    this.cameras.main.setBounds(0, 0, gameWidth, levelHeight);
+    // Make sure the camera can scroll to show the entire level (endless mode moves the bounds as rows change)
+    this.cameras.main.setBounds(0, levelTop, gameWidth, levelHeight);
     
     // Make camera follow the player with smooth scrolling in both directions
     this.cameras.main.startFollow(this.player, true, 0.1, 0.1);
@@ -144,6 +385,22 @@ export class GameScene extends Phaser.Scene {
     this.cameras.main.centerOn(this.player.x, this.player.y);
   }
 
+  private setupSimulation(): void {
+    // The simulation plays the run; the scene shows what happens in it
+    this.simulation.setCallbacks({
+      onMove: direction => this.player.showMove(direction),
+      onCollect: item => this.handleCollectible(item),
+      onCheckpoint: (row, col) => this.handleCheckpoint(row, col),
+      onScoreChange: score => this.gameUI.setScore(score),
+      onDeath: livesLeft => this.handlePlayerDeath(livesLeft),
+      onRespawn: restored => this.handleRespawn(restored),
+      onWin: () => this.handleWin(),
+      onSectionAdded: (section, firstRow, entities) => this.endless?.addSection(section, firstRow, entities),
+      onRowsRecycled: lowestKeptRow => this.endless?.recycleRows(lowestKeptRow)
+    });
+    this.simulation.generateAhead();
+  }
+
   private setupAudio(): void {
     this.gameMusic = this.audioManager.add(AudioKeys.MUSIC_GAME, { 
       loop: true, 
@@ -153,92 +410,297 @@ export class GameScene extends Phaser.Scene {
     this.audioManager.add(AudioKeys.SFX_COLLECT, { volume: 0.5 });
     this.audioManager.add(AudioKeys.SFX_WIN, { volume: 0.6 });
     
-    this.startGameMusicOnInteraction();
+    // Replays play without music
+    if (!this.replay) {
+      this.startGameMusicOnInteraction();
+    }
   }
 
-  private setupCollisions(): void {
-    // Set up physics collision for win condition
-    this.physics.add.overlap(
-      this.player,
-      this.antHill,
-      this.handleWin as Phaser.Types.Physics.Arcade.ArcadePhysicsCallback,
-      undefined,
-      this
-    );
+  private setupPause(): void {
+    // Replays are paused from the replay controls instead
+    if (this.replay) return;
+    
+    this.input.keyboard?.on('keydown-ESC', () => this.pauseGame());
+    this.input.keyboard?.on('keydown-P', () => this.pauseGame());
+    this.input.gamepad?.on(Phaser.Input.Gamepad.Events.BUTTON_DOWN, this.handleGamepadButton, this);
+    
+    // Pause by itself when the tab loses focus or is hidden, such as a mobile app going to the background
+    this.game.events.on(Phaser.Core.Events.BLUR, this.autoPause, this);
+    this.game.events.on(Phaser.Core.Events.HIDDEN, this.autoPause, this);
+    
+    this.events.on(Phaser.Scenes.Events.RESUME, this.handleResume, this);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      this.game.events.off(Phaser.Core.Events.BLUR, this.autoPause, this);
+      this.game.events.off(Phaser.Core.Events.HIDDEN, this.autoPause, this);
+      this.events.off(Phaser.Scenes.Events.RESUME, this.handleResume, this);
+    });
   }
 
-  private updateGameObjects(): void {
-    // Update player
-    this.player.update();
+  private setupInput(): void {
+    this.inputManager = new InputManager();
+    this.touchInput = undefined;
+    this.gestureInput = undefined;
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.inputManager.destroy());
     
-    // Update obstacles
+    if (this.replay) {
+      // The recording moves the ant, so the player's own input is ignored
+      this.inputManager.addSource(new ReplayMoveSource(this.replay.moves, () => this.frame));
+      return;
+    }
+    
+    this.inputManager.addSource(new KeyboardMoveSource(this, this.settings.keyBindings));
+    this.inputManager.addSource(new GamepadMoveSource(this));
+    this.touchInput = this.inputManager.addSource(new QueuedMoveSource());
+    this.gameUI.setMobileControlCallbacks({
+      up: () => this.touchInput?.push(Direction.UP),
+      down: () => this.touchInput?.push(Direction.DOWN),
+      left: () => this.touchInput?.push(Direction.LEFT),
+      right: () => this.touchInput?.push(Direction.RIGHT)
+    });
+    
+    // Swipes and taps on the canvas, for touch devices that haven't chosen the buttons alone
+    if (this.gameUI.isMobileDevice() && this.settings.touchControls !== TouchControls.DPAD) {
+      this.gestureInput = this.inputManager.addSource(new GestureMoveSource(this));
+    }
+  }
+
+  /** Start recording the run's moves, unless it is a replay or a play-test */
+  private setupReplay(): void {
+    if (this.replay) return;
+
+    // Play-tests aren't recorded, since their levels can't be loaded again
+    if (this.isPlaytest) return;
+
+    this.recorder = new ReplayRecorder({
+      levelId: this.level.id,
+      mode: this.mode,
+      seed: this.mode === GameMode.ENDLESS ? this.runSeed : this.seed ?? null,
+      campaign: this.campaign
+    });
+  }
+
+  private setupGhost(): void {
+    // Race the best run of levels that end at an ant hill; replays and play-tests neither race nor set one
+    if (this.replay || this.isPlaytest || this.endless) return;
+    
+    this.bestRun = this.bestRunStore.getBestRun(this.level.id);
+    if (this.bestRun) {
+      this.ghost = new Ghost(this, this.bestRun.track);
+    }
+    
+    const { x, y } = this.simulation.getPlayerDrawPosition();
+    this.ghostRecorder = new GhostTrackRecorder();
+    this.ghostRecorder.record(this.frame, x, y, true);
+    this.splitRows = [...new Set(this.checkpoints.map(checkpoint => checkpoint.getGridRow()))];
+  }
+
+  private updateGhost(): void {
+    const player = this.simulation.getPlayer();
+    const { x, y } = this.simulation.getPlayerDrawPosition();
+    this.ghost?.showFrame(this.frame);
+    this.ghostRecorder?.record(this.frame, x, y, !player.dead);
+    
+    if (!this.ghostRecorder || player.dead) return;
+    
+    // Time the first visit to each checkpoint row, and compare it with the best run's
+    const row = player.row;
+    if (!this.splitRows.includes(row) || this.splits.some(split => split.row === row)) return;
+    
+    const timeMs = this.simulation.getElapsedMs();
+    this.splits.push({ row, timeMs });
+    
+    const bestSplit = this.bestRun?.splits.find(split => split.row === row);
+    if (bestSplit) {
+      this.gameUI.showSplit(timeMs - bestSplit.timeMs);
+    }
+  }
+
+  private recordBestRun(timeMs: number, replay?: Replay): void {
+    if (!this.ghostRecorder || !replay) return;
+    
+    this.bestRunStore.recordRun(this.level.id, {
+      timeMs,
+      track: this.ghostRecorder.finish(),
+      splits: this.splits,
+      replay
+    });
+  }
+
+  private readInput(): Direction | undefined {
+    // Keys pressed while the ant is dead are kept for when it comes back; a replay makes
+    // every move on the frame it was recorded on
+    if (!this.replay && this.simulation.getPlayer().dead) return undefined;
+    
+    const direction = this.inputManager.readMove();
+    if (direction !== undefined) {
+      this.recorder?.record(this.frame, direction);
+    }
+    return direction;
+  }
+
+  private checkReplayOverrun(): void {
+    if (!this.replay || this.simulation.isOver() || this.replayFinished) return;
+    
+    // A run that doesn't end where the recording did has gone out of step with it
+    if (this.frame > this.replay.frameCount + REPLAY_OVERRUN_FRAMES) {
+      console.warn(`Replay went out of step with its recording after ${this.replay.frameCount} frames`);
+      this.finishReplay();
+    }
+  }
+
+  private finishReplay(): void {
+    this.replayFinished = true;
+    this.scene.pause();
+  }
+
+  private pauseGame(autoPaused: boolean = false): void {
+    if (this.simulation.isOver() || this.scene.isPaused()) return;
+    
+    // Pausing the scene freezes its physics, tweens, timers, and updates until the overlay resumes it
+    this.audioManager.pause(AudioKeys.MUSIC_GAME);
+    this.scene.pause();
+    this.scene.launch(SceneKeys.PAUSE, { gameData: this.sceneData, autoPaused });
+  }
+
+  private autoPause(): void {
+    if (this.simulation.isOver() || this.scene.isPaused()) return;
+    
+    this.audioManager.setMuted(true);
+    this.pauseGame(true);
+  }
+
+  private handleGamepadButton(_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button): void {
+    if (button.index === GamepadButton.START) {
+      this.pauseGame();
+    }
+  }
+
+  private handleResume(): void {
+    this.audioManager.setMuted(false);
+    this.audioManager.resume(AudioKeys.MUSIC_GAME);
+  }
+
+  private updateLaneObjects(): void {
+    // Show the obstacles and platforms where the simulation has them
     this.obstacles.getChildren().forEach((obstacle) => {
       (obstacle as Obstacle).update();
     });
     
-    // Update platforms
     this.platforms.getChildren().forEach((platform) => {
       (platform as Platform).update();
     });
   }
 
-  private updateCollisions(): void {
-    // Update object positions in grid
-    this.collisionManager.updateObstaclePositions(this.obstacles);
-    this.collisionManager.updatePlatformPositions();
-    
-    // Check player collision
-    const collisionResult = this.collisionManager.checkPlayerCollision(this.player);
-    
-    if (collisionResult.isDead) {
-      this.handlePlayerDeath();
-    } else if (collisionResult.isWin) {
-      this.handleWin(null as any, null as any);
-    } else if (collisionResult.collectible) {
-      this.handleCollectible(collisionResult.collectible);
-    } else if (collisionResult.platformMovement) {
-      this.player.moveWithPlatform(collisionResult.platformMovement.deltaX);
+  private updateFlood(): void {
+    const floodY = this.simulation.getFloodY();
+    if (floodY !== undefined) {
+      this.endless?.setFloodY(floodY);
     }
   }
 
-  private handleCollectible(collectible: {
-    type: any;
-    points: number;
-    row: number;
-    col: number;
-  }): void {
-    this.gameUI.updateScore(collectible.points);
+  private handleCheckpoint(row: number, col: number): void {
+    this.checkpoints.find(checkpoint => checkpoint.isAt(row, col))?.markReached();
     this.audioManager.play(AudioKeys.SFX_COLLECT);
-    this.gameUI.removeCollectibleSprite(collectible.row, collectible.col, this.collectibles);
+    this.gameUI.showBanner('CHECKPOINT REACHED');
   }
 
-  private handlePlayerDeath(): void {
+  private handleCollectible(item: CollectedItem): void {
+    this.audioManager.play(AudioKeys.SFX_COLLECT);
+    this.gameUI.removeCollectibleSprite(item.row, item.col, this.collectibles);
+  }
+
+  private handlePlayerDeath(livesLeft: number): void {
     this.player.die();
-    this.gameOver = true;
+    this.gameUI.updateLives(livesLeft);
+    
+    // The simulation brings the ant back by itself while it has lives left
+    if (livesLeft > 0) return;
     
     this.time.delayedCall(1500, () => {
       this.audioManager.stop(AudioKeys.MUSIC_GAME);
+      
+      if (this.replay) {
+        this.finishReplay();
+        return;
+      }
+      
+      if (this.isPlaytest) {
+        this.returnToEditor();
+        return;
+      }
+      
+      // The level's own results are ranked; campaign totals are only shown alongside them
+      const timeMs = this.simulation.getElapsedMs();
+      const campaign: CampaignRun = {
+        score: this.simulation.getScore(),
+        elapsedMs: this.campaign.elapsedMs + timeMs,
+        levelsCompleted: this.campaign.levelsCompleted
+      };
       this.scene.start(SceneKeys.GAME_OVER, {
-        score: this.gameUI.getScore(),
-        time: this.gameUI.getElapsedTime(),
-        won: false
+        score: this.simulation.getScore() - this.campaign.score,
+        time: formatElapsedTime(timeMs),
+        timeMs,
+        won: false,
+        campaign: campaign.levelsCompleted > 0 ? campaign : undefined,
+        levelId: this.level.id,
+        seed: this.seed,
+        mode: this.mode,
+        rowsClimbed: this.simulation.getRowsClimbed(),
+        ...this.finishRecording()
       });
     });
   }
 
-  private handleWin(
-    _player: Phaser.Types.Physics.Arcade.GameObjectWithBody | Phaser.Tilemaps.Tile,
-    _antHill: Phaser.Types.Physics.Arcade.GameObjectWithBody | Phaser.Tilemaps.Tile
-  ): void {
-    if (this.gameWon) return;
+  private handleRespawn(restored: CollectedItem[]): void {
+    // Put back anything collected since the checkpoint the ant returned to
+    restored.forEach(item => this.restoreCollectible(item));
+    
+    // Buttons tapped and swipes made while the ant was dead don't carry over
+    this.touchInput?.clear();
+    this.gestureInput?.clear();
+    this.player.respawn();
+  }
+
+  private restoreCollectible(item: CollectedItem): void {
+    const { x, y } = this.gridSystem.getWorldPosition(item.row, item.col);
+    const collectibleType = item.type === GridObjectType.CHERRY ? CollectibleType.CHERRY : CollectibleType.COOKIE;
     
-    this.gameWon = true;
+    this.collectibles.add(new Collectible(this, x, y, collectibleType));
+  }
+
+  private handleWin(): void {
     this.audioManager.play(AudioKeys.SFX_WIN);
     
+    const levelScore = this.simulation.getScore() - this.campaign.score;
+    const levelTimeMs = this.simulation.getElapsedMs();
+    const recording = this.finishRecording();
+    this.recordBestRun(levelTimeMs, recording.replay);
+    const campaign: CampaignRun = {
+      score: this.simulation.getScore(),
+      elapsedMs: this.campaign.elapsedMs + levelTimeMs,
+      levelsCompleted: this.campaign.levelsCompleted + 1
+    };
+    
+    // Play-tests and generated levels don't count towards campaign progress
+    const tracksProgress = !this.isPlaytest && !this.replay && this.seed === undefined;
+    if (tracksProgress) {
+      this.progressStore.recordCompletion(this.level.id, {
+        bestTimeMs: levelTimeMs,
+        bestScore: levelScore,
+        stars: calculateStars(this.level, levelTimeMs, this.simulation.getCollectedCount())
+      });
+    }
+    
+    // Unlock the next level as soon as this one is beaten
+    const nextLevel = tracksProgress ? getNextLevel(this.level.id) : undefined;
+    if (nextLevel) {
+      this.progressStore.unlockLevel(nextLevel.id);
+    }
+    
     // Show winning animation
     this.tweens.add({
       targets: this.player,
-      y: this.antHill.y,
+      y: this.antHill?.y ?? this.player.y,
       scale: 0.5,
       duration: 1000,
       onComplete: () => {
@@ -246,20 +708,56 @@ export class GameScene extends Phaser.Scene {
       }
     });
     
-    // Show game over (win) after a delay
+    // Show the level summary, or the final results when the campaign is complete
     this.time.delayedCall(2000, () => {
       this.audioManager.stop(AudioKeys.MUSIC_GAME);
-      this.scene.start(SceneKeys.GAME_OVER, {
-        score: this.gameUI.getScore(),
-        time: this.gameUI.getElapsedTime(),
-        won: true
-      });
+      
+      if (this.replay) {
+        this.finishReplay();
+      } else if (this.isPlaytest) {
+        this.returnToEditor();
+      } else if (nextLevel) {
+        this.scene.start(SceneKeys.LEVEL_COMPLETE, {
+          levelName: this.level.name,
+          levelScore,
+          levelTime: formatElapsedTime(levelTimeMs),
+          nextLevelId: nextLevel.id,
+          campaign
+        });
+      } else {
+        this.scene.start(SceneKeys.GAME_OVER, {
+          score: levelScore,
+          time: formatElapsedTime(levelTimeMs),
+          timeMs: levelTimeMs,
+          won: true,
+          campaign: campaign.levelsCompleted > 1 ? campaign : undefined,
+          levelId: this.level.id,
+          seed: this.seed,
+          ...recording
+        });
+      }
     });
   }
 
+  /** Stop recording and get the run's replay and its hash, if the run was recorded */
+  private finishRecording(): { replay?: Replay; replayHash?: string } {
+    if (!this.recorder) return {};
+
+    const replay = this.recorder.finish(this.frame);
+    return { replay, replayHash: hashReplay(replay) };
+  }
+
+  private returnToEditor(): void {
+    this.sound.stopAll();
+    this.scene.start(SceneKeys.LEVEL_EDITOR, { level: this.level });
+  }
+
   private startGameMusicOnInteraction(): void {
     const startMusic = () => {
-      if (!this.gameMusic.isPlaying) {
+      // Wait for the game to be resumed, so the pause button doesn't start the music
+      if (this.scene.isPaused()) return;
+      
+      if (!this.gameMusic.isPlaying && !this.gameMusic.isPaused) {
         try {
           this.gameMusic.play();
         } catch (error) {
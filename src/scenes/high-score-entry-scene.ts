@@ -0,0 +1,256 @@
+/**
+ * @fileoverview High score initials entry scene for the Antzer game
+ * Arcade-style screen where a player who made a high-score board picks three letters,
+ * then records the run and moves on to the game over screen
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, ImageKeys, SceneKeys } from "../config/constants";
+import { AudioManager } from "../utils/audio-manager";
+import { HighScoreBoard, HighScoreStore, INITIALS_LENGTH } from "../utils/high-score-store";
+import { PlayerProfileStore } from "../utils/player-profile";
+import { GameOverData } from "./game-over-scene";
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const SLOT_SPACING = 90;
+const SLOTS_Y = 330;
+const ARROW_OFFSET = 60;
+const SELECTED_COLOR = '#ffd700';
+const UNSELECTED_COLOR = '#ffffff';
+
+/**
+ * Initials entry data passed from the game over scene
+ */
+interface HighScoreEntryData {
+  /** The finished run */
+  gameOver: GameOverData;
+  /** Board the run is recorded on */
+  board: HighScoreBoard;
+}
+
+/**
+ * HighScoreEntryScene class - arcade-style initials entry for a new high score
+ *
+ * This scene provides:
+ * - The board name with the run's score and time
+ * - Three letter slots changed with the arrow keys, by typing, or with the arrows around each slot,
+ *   starting from the initials entered last time
+ * - Done button (or Enter) to record the run
+ *
+ * **Scene Flow:**
+ * GameScene → GameOverScene → **HighScoreEntryScene** → GameOverScene
+ */
+export class HighScoreEntryScene extends Phaser.Scene {
+  /** The run being recorded and the board it goes on */
+  private entryData!: HighScoreEntryData;
+  /** Audio manager for handling sound effects */
+  private audioManager!: AudioManager;
+  /** The player's saved initials */
+  private playerProfileStore!: PlayerProfileStore;
+  /** Index into LETTERS of each slot's letter */
+  private letterIndices: number[] = [];
+  /** Slot currently being changed */
+  private selectedSlot: number = 0;
+  /** Text showing each slot's letter */
+  private slotTexts: Phaser.GameObjects.Text[] = [];
+  /** Whether the run has been recorded, so it isn't recorded twice */
+  private recorded: boolean = false;
+
+  /**
+   * Create a new HighScoreEntryScene instance
+   * Initializes the scene with the HIGH_SCORE_ENTRY key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.HIGH_SCORE_ENTRY });
+  }
+
+  /**
+   * Initialize phase - receive the run and its board
+   * @param data - The finished run and the board it made
+   */
+  init(data: HighScoreEntryData): void {
+    this.entryData = data;
+    this.playerProfileStore = new PlayerProfileStore();
+    this.letterIndices = [...this.playerProfileStore.getProfile().initials]
+      .map(letter => Math.max(0, LETTERS.indexOf(letter)));
+    this.selectedSlot = 0;
+    this.slotTexts = [];
+    this.recorded = false;
+  }
+
+  /**
+   * Create phase - set up the letter slots and input handlers
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+
+    this.createBackground();
+    this.createTitle();
+    this.createSlots();
+    this.createDoneButton();
+    this.setupKeyboard();
+    this.updateSlots();
+  }
+
+  /**
+   * Create the dimmed background image
+   */
+  private createBackground(): void {
+    this.add.image(0, 0, ImageKeys.BACKGROUND)
+      .setOrigin(0)
+      .setDisplaySize(this.cameras.main.width, this.cameras.main.height)
+      .setTint(0x888888);
+  }
+
+  /**
+   * Create the title, board name, and run summary
+   */
+  private createTitle(): void {
+    const { gameOver, board } = this.entryData;
+
+    this.add.text(this.cameras.main.width / 2, 90, 'NEW HIGH SCORE!', {
+      font: '56px Arial',
+      color: SELECTED_COLOR
+    }).setOrigin(0.5)
+      .setShadow(3, 3, '#000000', 5);
+
+    this.add.text(
+      this.cameras.main.width / 2,
+      185,
+      `${board.name}\nScore: ${gameOver.score}   Time: ${gameOver.time}\n\nEnter your initials`,
+      {
+        font: '24px Arial',
+        color: UNSELECTED_COLOR,
+        align: 'center'
+      }
+    ).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 3);
+  }
+
+  /**
+   * Create a letter slot with an arrow above and below it for each initial
+   */
+  private createSlots(): void {
+    const left = this.cameras.main.width / 2 - (INITIALS_LENGTH - 1) * SLOT_SPACING / 2;
+
+    for (let slot = 0; slot < INITIALS_LENGTH; slot++) {
+      const x = left + slot * SLOT_SPACING;
+
+      const letter = this.add.text(x, SLOTS_Y, '', {
+        font: 'bold 64px Arial',
+        color: UNSELECTED_COLOR
+      }).setOrigin(0.5)
+        .setShadow(3, 3, '#000000', 5)
+        .setInteractive({ useHandCursor: true });
+      letter.on('pointerdown', () => this.selectSlot(slot));
+      this.slotTexts.push(letter);
+
+      this.createArrow(x, SLOTS_Y - ARROW_OFFSET, '▲', () => this.changeLetter(slot, 1));
+      this.createArrow(x, SLOTS_Y + ARROW_OFFSET, '▼', () => this.changeLetter(slot, -1));
+    }
+  }
+
+  /**
+   * Create a single arrow that changes a slot's letter
+   */
+  private createArrow(x: number, y: number, symbol: string, clickHandler: () => void): void {
+    this.add.text(x, y, symbol, {
+      font: '32px Arial',
+      color: UNSELECTED_COLOR
+    }).setOrigin(0.5)
+      .setInteractive({ useHandCursor: true })
+      .on('pointerdown', clickHandler);
+  }
+
+  /**
+   * Create the button that records the initials
+   */
+  private createDoneButton(): void {
+    const doneButton = this.add.image(this.cameras.main.width / 2, 480, ImageKeys.BUTTON)
+      .setOrigin(0.5)
+      .setDisplaySize(250, 60)
+      .setInteractive({ useHandCursor: true });
+
+    this.add.text(doneButton.x, doneButton.y, 'DONE', {
+      font: '20px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+
+    doneButton.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.recordEntry();
+    });
+  }
+
+  /**
+   * Set up arrow keys to change letters, typing to fill slots, and Enter to finish
+   */
+  private setupKeyboard(): void {
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => {
+      const key = event.key.toUpperCase();
+
+      if (event.key === 'ArrowUp') {
+        this.changeLetter(this.selectedSlot, 1);
+      } else if (event.key === 'ArrowDown') {
+        this.changeLetter(this.selectedSlot, -1);
+      } else if (event.key === 'ArrowLeft' || event.key === 'Backspace') {
+        this.selectSlot(this.selectedSlot - 1);
+      } else if (event.key === 'ArrowRight') {
+        this.selectSlot(this.selectedSlot + 1);
+      } else if (event.key === 'Enter') {
+        this.recordEntry();
+      } else if (key.length === 1 && LETTERS.includes(key)) {
+        this.letterIndices[this.selectedSlot] = LETTERS.indexOf(key);
+        this.selectSlot(this.selectedSlot + 1);
+      }
+    });
+  }
+
+  /**
+   * Step a slot's letter forwards or backwards through the alphabet, wrapping at either end
+   * @param slot - The slot to change
+   * @param step - 1 for the next letter, -1 for the previous one
+   */
+  private changeLetter(slot: number, step: number): void {
+    this.letterIndices[slot] = Phaser.Math.Wrap(this.letterIndices[slot] + step, 0, LETTERS.length);
+    this.selectedSlot = slot;
+    this.updateSlots();
+  }
+
+  /**
+   * Select the slot that changes next, staying within the slots
+   */
+  private selectSlot(slot: number): void {
+    this.selectedSlot = Phaser.Math.Clamp(slot, 0, INITIALS_LENGTH - 1);
+    this.updateSlots();
+  }
+
+  /**
+   * Show each slot's letter, highlighting the selected slot
+   */
+  private updateSlots(): void {
+    this.slotTexts.forEach((text, slot) => {
+      text.setText(LETTERS[this.letterIndices[slot]]);
+      text.setColor(slot === this.selectedSlot ? SELECTED_COLOR : UNSELECTED_COLOR);
+    });
+  }
+
+  /**
+   * Record the run with the chosen initials and show the game over screen with its rank
+   */
+  private recordEntry(): void {
+    if (this.recorded) return;
+    this.recorded = true;
+
+    const { gameOver, board } = this.entryData;
+    const initials = this.letterIndices.map(index => LETTERS[index]).join('');
+    this.playerProfileStore.setInitials(initials);
+    const rank = new HighScoreStore().addEntry(
+      board,
+      { score: gameOver.score, timeMs: gameOver.timeMs ?? 0, won: gameOver.won },
+      initials
+    );
+
+    this.scene.start(SceneKeys.GAME_OVER, { ...gameOver, highScoreRank: rank });
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview High scores scene for the Antzer game
+ * Shows the top runs recorded on each high-score board, one board at a time
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, GameMode, ImageKeys, SceneKeys } from "../config/constants";
+import { getLevels } from "../config/level-registry";
+import { AudioManager } from "../utils/audio-manager";
+import { getHighScoreBoard, HighScoreBoard, HighScoreEntry, HighScoreStore, MAX_HIGH_SCORES } from "../utils/high-score-store";
+import { formatElapsedTime } from "../utils/time-format";
+
+const TABLE_TOP = 175;
+const TABLE_LINE_HEIGHT = 30;
+const TABLE_FONT = '22px "Courier New", monospace';
+
+/**
+ * HighScoresScene class - lists the high scores of every level and mode
+ *
+ * This scene provides:
+ * - A board for every registered level, endless mode, and any seeded level with scores
+ * - Ranked entries with initials, score, time, and whether the run was won
+ * - Arrows (or the left and right keys) to move between boards
+ * - Leaderboard button to see the shared leaderboard for the board shown
+ * - Back button (or Escape) to return to the main menu
+ *
+ * **Scene Flow:**
+ * MenuScene → **HighScoresScene** → MenuScene (or LeaderboardScene as an overlay)
+ */
+export class HighScoresScene extends Phaser.Scene {
+  /** Audio manager for handling sound effects */
+  private audioManager!: AudioManager;
+  /** Persisted high scores */
+  private highScoreStore!: HighScoreStore;
+  /** Every board that can be shown */
+  private boards: HighScoreBoard[] = [];
+  /** Index of the board currently shown */
+  private boardIndex: number = 0;
+  /** Game objects making up the board currently shown */
+  private boardObjects: Phaser.GameObjects.GameObject[] = [];
+
+  /**
+   * Create a new HighScoresScene instance
+   * Initializes the scene with the HIGH_SCORES key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.HIGH_SCORES });
+  }
+
+  /**
+   * Create phase - set up the board list and navigation
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+    this.highScoreStore = new HighScoreStore();
+    this.boards = this.collectBoards();
+    this.boardIndex = 0;
+    this.boardObjects = [];
+
+    this.createBackground();
+    this.createTitle();
+    this.createBoardArrows();
+    this.createLeaderboardButton();
+    this.createBackButton();
+    this.showBoard(0);
+
+    this.input.keyboard?.on('keydown-LEFT', () => this.showBoard(this.boardIndex - 1));
+    this.input.keyboard?.on('keydown-RIGHT', () => this.showBoard(this.boardIndex + 1));
+    this.input.keyboard?.on('keydown-ESC', () => this.scene.start(SceneKeys.MENU));
+  }
+
+  /**
+   * List the boards in play order: registered levels, endless mode, then stored boards
+   * for levels that aren't registered (such as seeded levels)
+   */
+  private collectBoards(): HighScoreBoard[] {
+    const boards = [
+      ...getLevels().map(level => getHighScoreBoard(GameMode.CAMPAIGN, level.id, level.name)),
+      getHighScoreBoard(GameMode.ENDLESS, 'endless', 'Endless')
+    ];
+
+    this.highScoreStore.getBoards().forEach(board => {
+      if (!boards.some(known => known.id === board.id)) {
+        boards.push(board);
+      }
+    });
+
+    return boards;
+  }
+
+  /**
+   * Create the dimmed background image
+   */
+  private createBackground(): void {
+    this.add.image(0, 0, ImageKeys.BACKGROUND)
+      .setOrigin(0)
+      .setDisplaySize(this.cameras.main.width, this.cameras.main.height)
+      .setTint(0x888888);
+  }
+
+  /**
+   * Create the scene title
+   */
+  private createTitle(): void {
+    this.add.text(
+      this.cameras.main.width / 2,
+      60,
+      'HIGH SCORES',
+      {
+        font: '48px Arial',
+        color: '#ffffff'
+      }
+    ).setOrigin(0.5)
+      .setShadow(3, 3, '#000000', 5);
+  }
+
+  /**
+   * Create the arrows either side of the board name
+   */
+  private createBoardArrows(): void {
+    this.createArrow(this.cameras.main.width / 2 - 250, '◀', -1);
+    this.createArrow(this.cameras.main.width / 2 + 250, '▶', 1);
+  }
+
+  /**
+   * Create a single board arrow
+   */
+  private createArrow(x: number, symbol: string, step: number): void {
+    const arrow = this.add.text(x, 125, symbol, {
+      font: '32px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    arrow.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.showBoard(this.boardIndex + step);
+    });
+  }
+
+  /**
+   * Create the button that opens the shared leaderboard for the board shown, over this scene
+   */
+  private createLeaderboardButton(): void {
+    const leaderboardButton = this.add.image(this.cameras.main.width - 105, 60, ImageKeys.BUTTON)
+      .setOrigin(0.5)
+      .setDisplaySize(170, 50)
+      .setInteractive({ useHandCursor: true });
+
+    this.add.text(leaderboardButton.x, leaderboardButton.y, 'LEADERBOARD', {
+      font: '16px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+
+    leaderboardButton.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.scene.pause();
+      this.scene.launch(SceneKeys.LEADERBOARD, {
+        board: this.boards[this.boardIndex],
+        parentScene: SceneKeys.HIGH_SCORES
+      });
+    });
+  }
+
+  /**
+   * Create the button that returns to the main menu
+   */
+  private createBackButton(): void {
+    const backButton = this.add.image(
+      this.cameras.main.width / 2,
+      this.cameras.main.height - 45,
+      ImageKeys.BUTTON
+    ).setOrigin(0.5)
+      .setDisplaySize(200, 50)
+      .setInteractive({ useHandCursor: true });
+
+    this.add.text(backButton.x, backButton.y, 'BACK', {
+      font: '18px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+
+    backButton.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.scene.start(SceneKeys.MENU);
+    });
+  }
+
+  /**
+   * Show a board, replacing the current one
+   * Moving past either end wraps around to the other end
+   * @param index - Index of the board to show
+   */
+  private showBoard(index: number): void {
+    this.boardObjects.forEach(object => object.destroy());
+    this.boardObjects = [];
+
+    this.boardIndex = Phaser.Math.Wrap(index, 0, this.boards.length);
+    const board = this.boards[this.boardIndex];
+    const entries = this.highScoreStore.getEntries(board.id);
+
+    this.addBoardText(this.cameras.main.width / 2, 125, board.name, 'bold 28px Arial', '#ffd700');
+
+    if (entries.length === 0) {
+      this.addBoardText(this.cameras.main.width / 2, TABLE_TOP + 100, 'No scores yet', '24px Arial', '#ffffff');
+      return;
+    }
+
+    this.addBoardText(this.cameras.main.width / 2, TABLE_TOP, formatRow('#', 'NAME', 'SCORE', 'TIME', ''), TABLE_FONT, '#cccccc');
+    entries.slice(0, MAX_HIGH_SCORES).forEach((entry, rank) => {
+      this.addBoardText(
+        this.cameras.main.width / 2,
+        TABLE_TOP + (rank + 1) * TABLE_LINE_HEIGHT,
+        formatEntry(rank + 1, entry),
+        TABLE_FONT,
+        '#ffffff'
+      );
+    });
+  }
+
+  /**
+   * Add a centered line of text to the board currently shown
+   */
+  private addBoardText(x: number, y: number, text: string, font: string, color: string): void {
+    this.boardObjects.push(
+      this.add.text(x, y, text, { font, color }).setOrigin(0.5).setShadow(2, 2, '#000000', 2)
+    );
+  }
+}
+
+/**
+ * Format a board entry as a table row
+ */
+function formatEntry(rank: number, entry: HighScoreEntry): string {
+  return formatRow(
+    `${rank}`,
+    entry.initials,
+    `${entry.score}`,
+    formatElapsedTime(entry.timeMs),
+    entry.won ? 'WIN' : ''
+  );
+}
+
+/**
+ * Pad table columns so they line up in a monospace font
+ */
+function formatRow(rank: string, initials: string, score: string, time: string, result: string): string {
+  return `${rank.padStart(2)}  ${initials.padEnd(4)}  ${score.padStart(6)}  ${time.padStart(6)}  ${result.padEnd(3)}`;
+}
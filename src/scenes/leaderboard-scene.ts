@@ -0,0 +1,305 @@
+/**
+ * @fileoverview Leaderboard scene for the Antzer game
+ * Runs as an overlay above the paused scene that opened it and shows the shared leaderboard
+ * for a high-score board, with loading, empty, offline, and error states
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, ImageKeys, SceneKeys } from "../config/constants";
+import { AudioManager } from "../utils/audio-manager";
+import { createLeaderboardClient } from "../utils/create-leaderboard-client";
+import { HighScoreBoard } from "../utils/high-score-store";
+import { LeaderboardClient, LeaderboardEntry, LeaderboardError } from "../utils/leaderboard-client";
+import { PlayerProfileStore } from "../utils/player-profile";
+import { formatElapsedTime } from "../utils/time-format";
+
+const OVERLAY_ALPHA = 0.85;
+const TOP_LIMIT = 10;
+const AROUND_RADIUS = 4;
+const LIST_TOP = 190;
+const LIST_LINE_HEIGHT = 28;
+const LIST_FONT = '20px "Courier New", monospace';
+const PLAYER_COLOR = '#ffd700';
+const TAB_COLOR = '#888888';
+
+/**
+ * Which entries the leaderboard shows
+ */
+type LeaderboardView = 'top' | 'around';
+
+/**
+ * Leaderboard data passed from the scene that opens the overlay
+ */
+export interface LeaderboardSceneData {
+  /** Board to show */
+  board: HighScoreBoard;
+  /** Scene paused underneath the overlay, resumed when it closes */
+  parentScene: SceneKeys;
+}
+
+/**
+ * LeaderboardScene class - overlay showing the shared leaderboard for a board
+ *
+ * This scene provides:
+ * - The top runs on the board, or the runs around the player's own entry
+ * - The player's entry highlighted
+ * - Clear loading, empty, offline, and error messages, with a retry button
+ * - Close button (or Escape) to return to the scene underneath
+ *
+ * **Scene Flow:**
+ * GameOverScene or HighScoresScene → **LeaderboardScene** → back to the same scene
+ */
+export class LeaderboardScene extends Phaser.Scene {
+  /** Board and parent scene passed in when the overlay opened */
+  private leaderboardData!: LeaderboardSceneData;
+  /** Audio manager for handling sound effects */
+  private audioManager!: AudioManager;
+  /** Client for the leaderboard service */
+  private client!: LeaderboardClient;
+  /** Anonymous id of the local player */
+  private playerId!: string;
+  /** Entries currently shown */
+  private view: LeaderboardView = 'top';
+  /** Id of the latest request, so answers to older requests are ignored */
+  private requestId: number = 0;
+  /** Game objects making up the list currently shown */
+  private listObjects: Phaser.GameObjects.GameObject[] = [];
+  /** Tab labels, keyed by the view they show */
+  private tabs: Partial<Record<LeaderboardView, Phaser.GameObjects.Text>> = {};
+
+  /**
+   * Create a new LeaderboardScene instance
+   * Initializes the scene with the LEADERBOARD key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.LEADERBOARD });
+  }
+
+  /**
+   * Initialize phase - receive the board to show
+   * @param data - Board to show and the scene to return to
+   */
+  init(data: LeaderboardSceneData): void {
+    this.leaderboardData = data;
+    this.view = 'top';
+    this.listObjects = [];
+    this.tabs = {};
+  }
+
+  /**
+   * Create phase - set up the overlay and load the top entries
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+    this.client = createLeaderboardClient();
+    this.playerId = new PlayerProfileStore().getProfile().id;
+
+    this.createOverlay();
+    this.createTabs();
+    this.createCloseButton();
+    this.input.keyboard?.on('keydown-ESC', () => this.close());
+
+    this.showView('top');
+  }
+
+  /**
+   * Create the dimmed overlay, title, and board name
+   * The overlay is interactive so clicks don't reach the scene below
+   */
+  private createOverlay(): void {
+    const { width, height } = this.cameras.main;
+
+    this.add.rectangle(0, 0, width, height, 0x000000, OVERLAY_ALPHA)
+      .setOrigin(0)
+      .setInteractive();
+
+    this.add.text(width / 2, 50, 'LEADERBOARD', {
+      font: '44px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5)
+      .setShadow(3, 3, '#000000', 5);
+
+    this.add.text(width / 2, 100, this.leaderboardData.board.name, {
+      font: 'bold 24px Arial',
+      color: PLAYER_COLOR
+    }).setOrigin(0.5);
+  }
+
+  /**
+   * Create the tabs that switch between the top runs and the runs around the player
+   */
+  private createTabs(): void {
+    this.tabs.top = this.createTab(this.cameras.main.width / 2 - 100, 'TOP 10', 'top');
+    this.tabs.around = this.createTab(this.cameras.main.width / 2 + 100, 'AROUND ME', 'around');
+  }
+
+  /**
+   * Create a single tab
+   */
+  private createTab(x: number, label: string, view: LeaderboardView): Phaser.GameObjects.Text {
+    const tab = this.add.text(x, 145, label, {
+      font: 'bold 20px Arial',
+      color: TAB_COLOR
+    }).setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    tab.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.showView(view);
+    });
+    return tab;
+  }
+
+  /**
+   * Create the button that closes the overlay
+   */
+  private createCloseButton(): void {
+    const closeButton = this.add.image(
+      this.cameras.main.width / 2,
+      this.cameras.main.height - 45,
+      ImageKeys.BUTTON
+    ).setOrigin(0.5)
+      .setDisplaySize(200, 50)
+      .setInteractive({ useHandCursor: true });
+
+    this.add.text(closeButton.x, closeButton.y, 'CLOSE', {
+      font: '18px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+
+    closeButton.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.close();
+    });
+  }
+
+  /**
+   * Switch to a view and load its entries
+   */
+  private showView(view: LeaderboardView): void {
+    this.view = view;
+    Object.entries(this.tabs).forEach(([tabView, tab]) => {
+      tab.setColor(tabView === view ? '#ffffff' : TAB_COLOR);
+    });
+
+    this.loadEntries();
+  }
+
+  /**
+   * Request the entries for the current view, showing a loading message until they arrive
+   */
+  private loadEntries(): void {
+    const requestId = ++this.requestId;
+    const boardId = this.leaderboardData.board.id;
+    const request = this.view === 'top'
+      ? this.client.getTop(boardId, TOP_LIMIT)
+      : this.client.getAroundPlayer(boardId, this.playerId, AROUND_RADIUS);
+
+    this.showMessage('Loading...');
+
+    request
+      .then(entries => {
+        if (requestId === this.requestId) this.showEntries(entries);
+      })
+      .catch((error: unknown) => {
+        if (requestId === this.requestId) this.showError(error);
+      });
+  }
+
+  /**
+   * Show a list of entries, or a message when there are none
+   */
+  private showEntries(entries: LeaderboardEntry[]): void {
+    if (entries.length === 0) {
+      this.showMessage(this.view === 'top'
+        ? 'No runs submitted yet - be the first!'
+        : 'You have no run on this board yet');
+      return;
+    }
+
+    this.clearList();
+    this.addListText(LIST_TOP, formatRow('#', 'NAME', 'SCORE', 'TIME', ''), '#cccccc');
+    entries.forEach((entry, index) => {
+      this.addListText(
+        LIST_TOP + (index + 1) * LIST_LINE_HEIGHT,
+        formatRow(`${entry.rank}`, entry.initials, `${entry.score}`, formatElapsedTime(entry.timeMs), entry.won ? 'WIN' : ''),
+        entry.playerId === this.playerId ? PLAYER_COLOR : '#ffffff'
+      );
+    });
+  }
+
+  /**
+   * Explain why the entries couldn't be loaded and offer to try again
+   */
+  private showError(error: unknown): void {
+    const offline = error instanceof LeaderboardError && error.kind === 'offline';
+    if (!offline) {
+      console.error('❌ Leaderboard request failed:', error);
+    }
+
+    this.showMessage(offline
+      ? 'The leaderboard can\'t be reached right now.\nCheck your connection and try again.'
+      : 'Something went wrong loading the leaderboard.');
+
+    const retry = this.add.text(this.cameras.main.width / 2, LIST_TOP + 150, 'RETRY', {
+      font: 'bold 22px Arial',
+      color: '#ffffff',
+      backgroundColor: '#000000',
+      padding: { x: 14, y: 6 }
+    }).setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    retry.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.loadEntries();
+    });
+    this.listObjects.push(retry);
+  }
+
+  /**
+   * Replace the list with a message
+   */
+  private showMessage(message: string): void {
+    this.clearList();
+    this.listObjects.push(
+      this.add.text(this.cameras.main.width / 2, LIST_TOP + 80, message, {
+        font: '22px Arial',
+        color: '#ffffff',
+        align: 'center'
+      }).setOrigin(0.5)
+    );
+  }
+
+  /**
+   * Add a centered line to the list
+   */
+  private addListText(y: number, text: string, color: string): void {
+    this.listObjects.push(
+      this.add.text(this.cameras.main.width / 2, y, text, { font: LIST_FONT, color }).setOrigin(0.5)
+    );
+  }
+
+  /**
+   * Remove everything in the list
+   */
+  private clearList(): void {
+    this.listObjects.forEach(object => object.destroy());
+    this.listObjects = [];
+  }
+
+  /**
+   * Close the overlay and return to the scene underneath
+   */
+  private close(): void {
+    this.requestId++;
+    this.scene.resume(this.leaderboardData.parentScene);
+    this.scene.stop();
+  }
+}
+
+/**
+ * Pad table columns so they line up in a monospace font
+ */
+function formatRow(rank: string, initials: string, score: string, time: string, result: string): string {
+  return `${rank.padStart(4)}  ${initials.padEnd(4)}  ${score.padStart(6)}  ${time.padStart(6)}  ${result.padEnd(3)}`;
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Level complete scene for the Antzer game
+ * Displays a summary of the level the player just finished during a campaign run
+ * and lets the player continue to the next level or give up the run
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, ImageKeys, SceneKeys } from "../config/constants";
+import { CampaignRun } from "../game/campaign";
+import { MenuNavigator } from "../game/menu-navigator";
+import { AudioManager } from "../utils/audio-manager";
+import { formatElapsedTime } from "../utils/time-format";
+
+/**
+ * Level complete data interface containing the finished level's statistics
+ * Passed from the game scene when the ant reaches the ant hill
+ */
+interface LevelCompleteData {
+  /** Display name of the completed level */
+  levelName: string;
+  /** Points earned during the completed level */
+  levelScore: number;
+  /** Formatted completion time of the level (e.g., "1:12") */
+  levelTime: string;
+  /** Id of the level that follows in the campaign */
+  nextLevelId: string;
+  /** Campaign run including the completed level */
+  campaign: CampaignRun;
+}
+
+/**
+ * LevelCompleteScene class - displays the level summary between campaign levels
+ *
+ * This scene provides:
+ * - Level name with score and completion time for the level
+ * - Running campaign totals carried to the next level
+ * - Next level button to continue the campaign
+ * - Quit button to end the run and show the final results
+ *
+ * **Scene Flow:**
+ * GameScene → **LevelCompleteScene** → GameScene (next level) or GameOverScene
+ */
+export class LevelCompleteScene extends Phaser.Scene {
+  /** Level statistics passed from the game scene */
+  private levelData!: LevelCompleteData;
+  /** Audio manager for handling sound effects */
+  private audioManager!: AudioManager;
+
+  /**
+   * Create a new LevelCompleteScene instance
+   * Initializes the scene with the LEVEL_COMPLETE key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.LEVEL_COMPLETE });
+  }
+
+  /**
+   * Initialize phase - receive level data from the game scene
+   * @param data - Level statistics and the campaign run to continue
+   */
+  init(data: LevelCompleteData): void {
+    this.levelData = data;
+  }
+
+  /**
+   * Create phase - set up the level summary interface
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+    this.createBackground();
+    this.createTitle();
+    this.createLevelStats();
+    this.createButtons();
+  }
+
+  /**
+   * Create the background with a victory tint
+   */
+  private createBackground(): void {
+    this.add.image(0, 0, ImageKeys.BACKGROUND)
+      .setOrigin(0)
+      .setDisplaySize(this.cameras.main.width, this.cameras.main.height)
+      .setTint(0xccffcc);
+  }
+
+  /**
+   * Create the title and completed level name
+   */
+  private createTitle(): void {
+    this.add.text(
+      this.cameras.main.width / 2,
+      this.cameras.main.height / 4 - 30,
+      'LEVEL COMPLETE!',
+      {
+        font: '56px Arial',
+        color: '#00ff00'
+      }
+    ).setOrigin(0.5)
+      .setShadow(3, 3, '#000000', 5);
+
+    this.add.text(
+      this.cameras.main.width / 2,
+      this.cameras.main.height / 4 + 30,
+      this.levelData.levelName,
+      {
+        font: '28px Arial',
+        color: '#ffffff'
+      }
+    ).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 3);
+  }
+
+  /**
+   * Create level and campaign statistics
+   * Shows what was earned on this level and the totals carried forward
+   */
+  private createLevelStats(): void {
+    const { levelScore, levelTime, campaign } = this.levelData;
+    const lines = [
+      `Level Score: ${levelScore}`,
+      `Level Time: ${levelTime}`,
+      `Total Score: ${campaign.score}`,
+      `Total Time: ${formatElapsedTime(campaign.elapsedMs)}`
+    ];
+
+    this.add.text(
+      this.cameras.main.width / 2,
+      this.cameras.main.height / 2 + 10,
+      lines.join('\n'),
+      {
+        font: '26px Arial',
+        color: '#ffffff',
+        align: 'center',
+        lineSpacing: 6
+      }
+    ).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 3);
+  }
+
+  /**
+   * Create next level and quit buttons, which a gamepad can move between
+   */
+  private createButtons(): void {
+    new MenuNavigator(this, [
+      this.createButton(this.cameras.main.width / 2 - 125, 'NEXT LEVEL', () => this.startNextLevel()),
+      this.createButton(this.cameras.main.width / 2 + 125, 'QUIT', () => this.quitCampaign())
+    ]);
+  }
+
+  /**
+   * Create a single button with its label
+   * @param x - Horizontal center of the button
+   * @param label - Text shown on the button
+   * @param clickHandler - Function to call when the button is clicked
+   * @returns The button image
+   */
+  private createButton(x: number, label: string, clickHandler: () => void): Phaser.GameObjects.Image {
+    const button = this.add.image(
+      x,
+      this.cameras.main.height / 2 + 170,
+      ImageKeys.BUTTON
+    ).setOrigin(0.5)
+      .setDisplaySize(250, 60)
+      .setInteractive({ useHandCursor: true });
+
+    this.add.text(
+      button.x,
+      button.y,
+      label,
+      {
+        font: '20px Arial',
+        color: '#ffffff'
+      }
+    ).setOrigin(0.5);
+
+    button.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.sound.stopAll(); // Clean up audio before scene transition
+      clickHandler();
+    });
+    return button;
+  }
+
+  /**
+   * Continue the campaign on the next level, carrying the run forward
+   */
+  private startNextLevel(): void {
+    this.scene.start(SceneKeys.GAME, {
+      levelId: this.levelData.nextLevelId,
+      campaign: this.levelData.campaign
+    });
+  }
+
+  /**
+   * Give up the campaign and show the final results
+   * No level was played, so the totals aren't ranked on any board
+   */
+  private quitCampaign(): void {
+    this.scene.start(SceneKeys.GAME_OVER, {
+      score: this.levelData.campaign.score,
+      time: formatElapsedTime(this.levelData.campaign.elapsedMs),
+      won: false
+    });
+  }
+}
@@ -0,0 +1,914 @@
+/**
+ * @fileoverview Level editor scene for the Antzer game
+ * Lets level designers paint level grids with the level legend, edit per-row lane settings,
+ * check their work with validateLevel, play-test in GameScene, and import or export level files
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, Direction, GRID_SIZE, ImageKeys, SceneKeys } from "../config/constants";
+import { createLevelConfig, LaneSettings, LevelConfig, LevelDefinition, validateLevel } from "../config/level-config";
+import { createLevelFileData, readLevelFile } from "../config/level-loader";
+import { GridSystem } from "../game/grid-system";
+import { LevelBuilder, TILE_INDICES } from "../game/level-builder";
+import { AudioManager } from "../utils/audio-manager";
+import { UndoHistory } from "../utils/undo-history";
+
+const LEVEL_VIEW_WIDTH = 500;
+const LEVEL_VIEW_ZOOM = 0.625;
+const PANEL_COLOR = 0x1a1a1a;
+const SELECTED_COLOR = 0xffd700;
+const OBJECT_DISPLAY_SIZE = 36;
+
+const SWATCH_SIZE = 42;
+const SWATCH_SPACING = 48;
+const PALETTE_COLUMNS = 6;
+const PALETTE_TOP = 85;
+
+const ROW_TOOLS_Y = 200;
+const LANE_FIELDS_TOP = 232;
+const LANE_FIELD_SPACING = 22;
+
+const VALIDATION_TOP = 372;
+const VALIDATION_DELAY_MS = 300;
+const MAX_SHOWN_ERRORS = 3;
+
+const BUTTONS_TOP = 530;
+const BUTTON_SPACING = 42;
+const BUTTON_COLUMNS = 3;
+const BUTTON_WIDTH = 92;
+const BUTTON_HEIGHT = 36;
+
+/** Characters that may appear only once in a level */
+const UNIQUE_CHARACTERS = ['A', 'H'];
+
+/**
+ * A paintable level character and how it is previewed
+ */
+interface PaletteEntry {
+  /** Level legend character */
+  char: string;
+  /** Background tile frame for the character's terrain */
+  tile: number;
+  /** Image drawn over the terrain for characters that place an object */
+  image?: ImageKeys;
+  /** Spritesheet frame of the image */
+  frame?: number;
+}
+
+const PALETTE: readonly PaletteEntry[] = [
+  { char: 'G', tile: TILE_INDICES.GRASS },
+  { char: 'R', tile: TILE_INDICES.ROAD },
+  { char: 'W', tile: TILE_INDICES.WATER },
+  { char: 'P', tile: TILE_INDICES.ROAD, image: ImageKeys.POISON },
+  { char: 'Y', tile: TILE_INDICES.ROAD, image: ImageKeys.SPRAY },
+  { char: 'N', tile: TILE_INDICES.ROAD, image: ImageKeys.NAIL },
+  { char: 'T', tile: TILE_INDICES.GRASS, image: ImageKeys.FROG, frame: 0 },
+  { char: 'C', tile: TILE_INDICES.GRASS, image: ImageKeys.CHERRY },
+  { char: 'K', tile: TILE_INDICES.GRASS, image: ImageKeys.COOKIE },
+  { char: 'S', tile: TILE_INDICES.GRASS, image: ImageKeys.CHECKPOINT },
+  { char: 'H', tile: TILE_INDICES.GRASS, image: ImageKeys.ANT_HILL },
+  { char: 'A', tile: TILE_INDICES.GRASS, image: ImageKeys.ANT, frame: 0 }
+];
+
+/**
+ * Lane setting that can be edited (every setting except the row it applies to)
+ */
+type LaneField = Exclude<keyof LaneSettings, 'row'>;
+
+/**
+ * How a lane setting is stepped through in the lane editor
+ * Settings with options cycle through them, numeric settings step between min and max;
+ * stepping below the first option or the minimum clears the setting back to the default
+ */
+interface LaneFieldConfig {
+  field: LaneField;
+  label: string;
+  options?: readonly string[];
+  step?: number;
+  min?: number;
+  max?: number;
+}
+
+const LANE_FIELDS: readonly LaneFieldConfig[] = [
+  { field: 'direction', label: 'Direction', options: [Direction.LEFT, Direction.RIGHT] },
+  { field: 'speed', label: 'Speed', step: 5, min: 5, max: 300 },
+  { field: 'platform', label: 'Platform', options: ['log', 'leaf'] },
+  { field: 'obstacle', label: 'Obstacle', options: ['poison', 'spray', 'nail'] },
+  { field: 'gap', label: 'Gap', step: GRID_SIZE / 4, min: 0, max: GRID_SIZE * 10 },
+  { field: 'count', label: 'Count', step: 1, min: 1, max: 20 }
+];
+
+/**
+ * Level opened when the editor starts without a level
+ */
+const NEW_LEVEL: LevelDefinition = {
+  id: 'custom-level',
+  name: 'Custom Level',
+  parTimeSeconds: 60,
+  grid: [
+    'GGGGGGGHGGGGGGGG',
+    'GGGGGGGGGGGGGGGG',
+    'WWWWWWWWWWWWWWWW',
+    'WWWWWWWWWWWWWWWW',
+    'GGGGGGGGGGGGGGGG',
+    'RRRPRRRRRRRPRRRR',
+    'RRRRRRYRRRRRRRRR',
+    'GGGGGGGGGGGGGGGG',
+    'GGGGGGGAGGGGGGGG'
+  ]
+};
+
+/**
+ * Scene data accepted by LevelEditorScene when it is started
+ */
+export interface LevelEditorData {
+  /** Level to open (defaults to a new level) */
+  level?: LevelDefinition;
+}
+
+/**
+ * Level being edited, with grid and lanes that can be changed in place
+ */
+interface EditorDraft extends LevelDefinition {
+  grid: string[];
+  lanes: LaneSettings[];
+}
+
+/**
+ * Part of the draft restored by undo and redo
+ */
+interface EditorSnapshot {
+  grid: string[];
+  lanes: LaneSettings[];
+}
+
+/**
+ * LevelEditorScene class - level design tool for building and testing levels
+ *
+ * This scene provides:
+ * - Level view rendered with LevelBuilder, scrolled with the mouse wheel or arrow keys
+ * - Palette for painting cells with the level legend characters
+ * - Row insert/delete tools and per-row lane settings for the selected row
+ * - Undo/redo for every change (Ctrl+Z, Ctrl+Y or Ctrl+Shift+Z)
+ * - Validation panel that re-checks the level with validateLevel after each change
+ * - Play-testing in GameScene and import/export as level file JSON
+ *
+ * **Scene Flow:**
+ * MenuScene → **LevelEditorScene** ⇄ GameScene (play-test)
+ */
+export class LevelEditorScene extends Phaser.Scene {
+  /** Audio manager for handling sound effects */
+  private audioManager!: AudioManager;
+  /** Camera that draws the side panel on top of the level view */
+  private panelCamera!: Phaser.Cameras.Scene2D.Camera;
+  /** Level being edited */
+  private draft!: EditorDraft;
+  /** Undo/redo history of the draft */
+  private history!: UndoHistory<EditorSnapshot>;
+  /** Game objects drawing the current level */
+  private levelObjects: Phaser.GameObjects.GameObject[] = [];
+  /** Character painted by clicking the level */
+  private selectedChar: string = 'G';
+  /** Row targeted by the row tools and lane editor */
+  private selectedRow: number = 0;
+  /** Whether the left mouse button is held down over the level */
+  private isPainting: boolean = false;
+  /** Whether the current paint stroke has been recorded in the history */
+  private strokeRecorded: boolean = false;
+  /** Selection frames around the palette swatches, keyed by character */
+  private swatchFrames = new Map<string, Phaser.GameObjects.Rectangle>();
+  /** Label showing the selected row */
+  private rowLabel!: Phaser.GameObjects.Text;
+  /** Value labels in the lane editor, keyed by lane setting */
+  private laneValueTexts = new Map<LaneField, Phaser.GameObjects.Text>();
+  /** Validation results */
+  private validationText!: Phaser.GameObjects.Text;
+  /** Pending validation run, restarted after each change */
+  private validationTimer?: Phaser.Time.TimerEvent;
+  /** Text box used to import and export level files, while open */
+  private textPanel: HTMLTextAreaElement | null = null;
+
+  /**
+   * Create a new LevelEditorScene instance
+   * Initializes the scene with the LEVEL_EDITOR key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.LEVEL_EDITOR });
+  }
+
+  /**
+   * Initialize phase - open the requested level or a new one
+   * @param data - Level to open, usually the level just play-tested
+   */
+  init(data: LevelEditorData): void {
+    this.draft = this.createDraft(data?.level ?? NEW_LEVEL);
+    this.history = new UndoHistory<EditorSnapshot>();
+    this.levelObjects = [];
+    this.swatchFrames.clear();
+    this.laneValueTexts.clear();
+    this.selectedRow = this.draft.grid.length - 1;
+    this.isPainting = false;
+    this.validationTimer = undefined;
+  }
+
+  /**
+   * Create phase - set up the level view, side panel, and input
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+
+    this.setupCameras();
+    this.createPanel();
+    this.setupInput();
+    this.refresh();
+
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.closeTextPanel());
+  }
+
+  /**
+   * Set up the zoomed level camera and the panel camera beside it
+   */
+  private setupCameras(): void {
+    const { height } = this.cameras.main;
+
+    this.cameras.main
+      .setViewport(0, 0, LEVEL_VIEW_WIDTH, height)
+      .setZoom(LEVEL_VIEW_ZOOM)
+      .setBackgroundColor(0x000000);
+
+    this.panelCamera = this.cameras.add(0, 0, this.scale.width, height);
+  }
+
+  /**
+   * Create the side panel with the palette, row tools, lane editor, validation panel, and buttons
+   */
+  private createPanel(): void {
+    const panelWidth = this.scale.width - LEVEL_VIEW_WIDTH;
+    const centerX = LEVEL_VIEW_WIDTH + panelWidth / 2;
+
+    this.addToPanel(
+      this.add.rectangle(centerX, this.scale.height / 2, panelWidth, this.scale.height, PANEL_COLOR)
+    );
+    this.addToPanel(
+      this.add.text(centerX, 22, 'LEVEL EDITOR', { font: 'bold 22px Arial', color: '#ffffff' }).setOrigin(0.5)
+    );
+    this.addToPanel(
+      this.add.text(centerX, 45, 'Click: paint · Right-click: select row · Wheel: scroll', {
+        font: '11px Arial',
+        color: '#aaaaaa'
+      }).setOrigin(0.5)
+    );
+
+    this.createPalette();
+    this.createRowTools();
+    this.createLaneEditor();
+    this.createValidationPanel();
+    this.createButtons();
+  }
+
+  /**
+   * Create a swatch for every paintable character
+   */
+  private createPalette(): void {
+    const left = LEVEL_VIEW_WIDTH + (this.scale.width - LEVEL_VIEW_WIDTH - (PALETTE_COLUMNS - 1) * SWATCH_SPACING) / 2;
+
+    PALETTE.forEach((entry, index) => {
+      const x = left + (index % PALETTE_COLUMNS) * SWATCH_SPACING;
+      const y = PALETTE_TOP + Math.floor(index / PALETTE_COLUMNS) * SWATCH_SPACING;
+
+      const swatch = this.add.image(x, y, ImageKeys.BACKGROUND_TILES, entry.tile)
+        .setDisplaySize(SWATCH_SIZE, SWATCH_SIZE)
+        .setInteractive({ useHandCursor: true });
+      this.addToPanel(swatch);
+
+      if (entry.image) {
+        this.addToPanel(this.add.image(x, y, entry.image, entry.frame).setDisplaySize(SWATCH_SIZE - 12, SWATCH_SIZE - 12));
+      }
+
+      this.addToPanel(
+        this.add.text(x + SWATCH_SIZE / 2 - 3, y + SWATCH_SIZE / 2 - 2, entry.char, {
+          font: 'bold 12px Arial',
+          color: '#ffffff'
+        }).setOrigin(1).setShadow(1, 1, '#000000', 2)
+      );
+
+      const frame = this.add.rectangle(x, y, SWATCH_SIZE + 4, SWATCH_SIZE + 4)
+        .setStrokeStyle(3, SELECTED_COLOR)
+        .setVisible(entry.char === this.selectedChar);
+      this.addToPanel(frame);
+      this.swatchFrames.set(entry.char, frame);
+
+      swatch.on('pointerdown', () => {
+        this.audioManager.play(AudioKeys.SFX_BUTTON);
+        this.selectCharacter(entry.char);
+      });
+    });
+  }
+
+  /**
+   * Create the selected row label and the insert/delete row tools
+   */
+  private createRowTools(): void {
+    this.rowLabel = this.add.text(LEVEL_VIEW_WIDTH + 15, ROW_TOOLS_Y, '', {
+      font: 'bold 16px Arial',
+      color: '#ffd700'
+    }).setOrigin(0, 0.5);
+    this.addToPanel(this.rowLabel);
+
+    this.createTextButton(this.scale.width - 115, ROW_TOOLS_Y, 'INSERT', () => this.insertRow());
+    this.createTextButton(this.scale.width - 45, ROW_TOOLS_Y, 'DELETE', () => this.deleteRow());
+  }
+
+  /**
+   * Create a stepper for every lane setting of the selected row
+   */
+  private createLaneEditor(): void {
+    LANE_FIELDS.forEach((config, index) => {
+      const y = LANE_FIELDS_TOP + index * LANE_FIELD_SPACING;
+
+      this.addToPanel(
+        this.add.text(LEVEL_VIEW_WIDTH + 15, y, config.label, { font: '14px Arial', color: '#ffffff' }).setOrigin(0, 0.5)
+      );
+
+      const valueText = this.add.text(this.scale.width - 80, y, '', { font: '14px Arial', color: '#ffffff' })
+        .setOrigin(0.5);
+      this.addToPanel(valueText);
+      this.laneValueTexts.set(config.field, valueText);
+
+      this.createTextButton(this.scale.width - 140, y, '◀', () => this.changeLaneField(config, -1));
+      this.createTextButton(this.scale.width - 20, y, '▶', () => this.changeLaneField(config, 1));
+    });
+  }
+
+  /**
+   * Create the validation panel
+   */
+  private createValidationPanel(): void {
+    this.addToPanel(
+      this.add.text(LEVEL_VIEW_WIDTH + 15, VALIDATION_TOP, 'VALIDATION', { font: 'bold 14px Arial', color: '#aaaaaa' })
+    );
+
+    this.validationText = this.add.text(LEVEL_VIEW_WIDTH + 15, VALIDATION_TOP + 22, '', {
+      font: '12px Arial',
+      color: '#ffffff',
+      wordWrap: { width: this.scale.width - LEVEL_VIEW_WIDTH - 30 }
+    });
+    this.addToPanel(this.validationText);
+  }
+
+  /**
+   * Create the undo/redo, import/export, play-test, and menu buttons
+   */
+  private createButtons(): void {
+    const columnWidth = (this.scale.width - LEVEL_VIEW_WIDTH) / BUTTON_COLUMNS;
+
+    const buttons = [
+      { label: 'UNDO', handler: () => this.undo() },
+      { label: 'REDO', handler: () => this.redo() },
+      { label: 'PLAYTEST', handler: () => this.playtest() },
+      { label: 'IMPORT', handler: () => this.importLevel() },
+      { label: 'EXPORT', handler: () => this.exportLevel() },
+      { label: 'MENU', handler: () => this.scene.start(SceneKeys.MENU) }
+    ];
+
+    buttons.forEach((button, index) => {
+      const x = LEVEL_VIEW_WIDTH + ((index % BUTTON_COLUMNS) + 0.5) * columnWidth;
+      const y = BUTTONS_TOP + Math.floor(index / BUTTON_COLUMNS) * BUTTON_SPACING;
+      this.createPanelButton(x, y, button.label, button.handler);
+    });
+  }
+
+  /**
+   * Create a panel button with its label
+   * @param x - Horizontal center of the button
+   * @param y - Vertical center of the button
+   * @param label - Text shown on the button
+   * @param clickHandler - Function to call when the button is clicked
+   */
+  private createPanelButton(x: number, y: number, label: string, clickHandler: () => void): void {
+    const button = this.add.image(x, y, ImageKeys.BUTTON)
+      .setDisplaySize(BUTTON_WIDTH, BUTTON_HEIGHT)
+      .setInteractive({ useHandCursor: true });
+    this.addToPanel(button);
+
+    this.addToPanel(this.add.text(x, y, label, { font: '14px Arial', color: '#ffffff' }).setOrigin(0.5));
+
+    button.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      clickHandler();
+    });
+  }
+
+  /**
+   * Create a small clickable text label
+   * @param x - Horizontal center of the label
+   * @param y - Vertical center of the label
+   * @param label - Text shown
+   * @param clickHandler - Function to call when the label is clicked
+   */
+  private createTextButton(x: number, y: number, label: string, clickHandler: () => void): void {
+    const text = this.add.text(x, y, label, { font: 'bold 14px Arial', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    this.addToPanel(text);
+
+    text.on('pointerover', () => text.setColor('#ffffff'));
+    text.on('pointerout', () => text.setColor('#88ccff'));
+    text.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      clickHandler();
+    });
+  }
+
+  /**
+   * Set up painting, row selection, scrolling, and keyboard shortcuts
+   */
+  private setupInput(): void {
+    this.input.mouse?.disableContextMenu();
+
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      const cell = this.getCellAt(pointer);
+      if (!cell) return;
+
+      this.selectRow(cell.row);
+      if (pointer.rightButtonDown()) return;
+
+      this.isPainting = true;
+      this.strokeRecorded = false;
+      this.paintCell(cell.row, cell.col);
+    });
+
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (!this.isPainting) return;
+
+      const cell = this.getCellAt(pointer);
+      if (cell) {
+        this.paintCell(cell.row, cell.col);
+      }
+    });
+
+    this.input.on('pointerup', () => {
+      this.isPainting = false;
+    });
+
+    this.input.on('wheel', (_pointer: Phaser.Input.Pointer, _objects: unknown[], _deltaX: number, deltaY: number) => {
+      this.cameras.main.scrollY += deltaY;
+    });
+
+    this.input.keyboard?.on('keydown-UP', () => { this.cameras.main.scrollY -= GRID_SIZE; });
+    this.input.keyboard?.on('keydown-DOWN', () => { this.cameras.main.scrollY += GRID_SIZE; });
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && event.shiftKey || key === 'y') {
+        this.redo();
+      } else if (key === 'z') {
+        this.undo();
+      }
+    });
+  }
+
+  /**
+   * Get the level cell under a pointer
+   * @returns The row and column, or null if the pointer is outside the level
+   */
+  private getCellAt(pointer: Phaser.Input.Pointer): { row: number; col: number } | null {
+    if (pointer.x >= LEVEL_VIEW_WIDTH) return null;
+
+    const world = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+    const row = Math.floor(world.y / GRID_SIZE);
+    const col = Math.floor(world.x / GRID_SIZE);
+
+    if (row < 0 || row >= this.draft.grid.length || col < 0 || col >= this.draft.grid[row].length) {
+      return null;
+    }
+    return { row, col };
+  }
+
+  /**
+   * Select the character to paint with
+   */
+  private selectCharacter(char: string): void {
+    this.selectedChar = char;
+    this.swatchFrames.forEach((frame, frameChar) => frame.setVisible(frameChar === char));
+  }
+
+  /**
+   * Select the row targeted by the row tools and lane editor
+   */
+  private selectRow(row: number): void {
+    if (row === this.selectedRow) return;
+
+    this.selectedRow = row;
+    this.renderLevel();
+    this.updateRowTools();
+  }
+
+  /**
+   * Paint a cell with the selected character
+   * The ant start and ant hill are moved rather than duplicated
+   */
+  private paintCell(row: number, col: number): void {
+    const char = this.selectedChar;
+    if (this.draft.grid[row][col] === char) return;
+
+    // Record the whole stroke as a single change
+    if (!this.strokeRecorded) {
+      this.history.record(this.takeSnapshot());
+      this.strokeRecorded = true;
+    }
+
+    if (UNIQUE_CHARACTERS.includes(char)) {
+      this.draft.grid = this.draft.grid.map(line => line.split(char).join('G'));
+    }
+    this.draft.grid[row] = this.draft.grid[row].slice(0, col) + char + this.draft.grid[row].slice(col + 1);
+
+    this.refresh();
+  }
+
+  /**
+   * Insert a grass row above the selected row
+   * Lane settings below the new row move down with their rows
+   */
+  private insertRow(): void {
+    const at = this.selectedRow;
+    const width = this.draft.grid[0]?.length ?? NEW_LEVEL.grid[0].length;
+
+    this.applyChange(() => {
+      this.draft.grid.splice(at, 0, 'G'.repeat(width));
+      this.draft.lanes = this.draft.lanes.map(lane => (lane.row >= at ? { ...lane, row: lane.row + 1 } : lane));
+    });
+  }
+
+  /**
+   * Delete the selected row along with its lane settings
+   * The last remaining row cannot be deleted
+   */
+  private deleteRow(): void {
+    const at = this.selectedRow;
+    if (this.draft.grid.length <= 1) return;
+
+    this.applyChange(() => {
+      this.draft.grid.splice(at, 1);
+      this.draft.lanes = this.draft.lanes
+        .filter(lane => lane.row !== at)
+        .map(lane => (lane.row > at ? { ...lane, row: lane.row - 1 } : lane));
+      this.selectedRow = Math.min(at, this.draft.grid.length - 1);
+    });
+  }
+
+  /**
+   * Step a lane setting of the selected row
+   * Lane entries are removed once every setting is back to its default
+   * @param config - The lane setting to change
+   * @param delta - 1 to step forward, -1 to step back
+   */
+  private changeLaneField(config: LaneFieldConfig, delta: number): void {
+    const row = this.selectedRow;
+    const lane = this.draft.lanes.find(existing => existing.row === row);
+    const value = this.stepLaneValue(config, lane?.[config.field], delta);
+
+    if (value === lane?.[config.field]) return;
+
+    this.applyChange(() => {
+      const updated: LaneSettings = { ...lane, row, [config.field]: value };
+      if (value === undefined) {
+        delete updated[config.field];
+      }
+
+      const others = this.draft.lanes.filter(existing => existing.row !== row);
+      this.draft.lanes = Object.keys(updated).length > 1
+        ? [...others, updated].sort((a, b) => a.row - b.row)
+        : others;
+    });
+  }
+
+  /**
+   * Get the next value of a lane setting
+   * @param config - The lane setting being changed
+   * @param value - The current value (undefined for the default)
+   * @param delta - 1 to step forward, -1 to step back
+   * @returns The new value, or undefined to use the default
+   */
+  private stepLaneValue(
+    config: LaneFieldConfig,
+    value: string | number | undefined,
+    delta: number
+  ): string | number | undefined {
+    if (config.options) {
+      const choices = [undefined, ...config.options];
+      const index = choices.indexOf(value as string | undefined);
+      return choices[(index + delta + choices.length) % choices.length];
+    }
+
+    const min = config.min ?? 0;
+    if (value === undefined) {
+      return delta > 0 ? min : undefined;
+    }
+
+    const next = (value as number) + delta * (config.step ?? 1);
+    return next < min ? undefined : Math.min(next, config.max ?? next);
+  }
+
+  /**
+   * Apply a change to the draft, recording it for undo
+   * @param change - Function that changes the draft
+   */
+  private applyChange(change: () => void): void {
+    this.history.record(this.takeSnapshot());
+    change();
+    this.refresh();
+  }
+
+  /**
+   * Undo the last change
+   */
+  private undo(): void {
+    const snapshot = this.history.undo(this.takeSnapshot());
+    if (snapshot) {
+      this.restoreSnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Redo the last undone change
+   */
+  private redo(): void {
+    const snapshot = this.history.redo(this.takeSnapshot());
+    if (snapshot) {
+      this.restoreSnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Take a copy of the draft's grid and lanes
+   */
+  private takeSnapshot(): EditorSnapshot {
+    return {
+      grid: [...this.draft.grid],
+      lanes: this.draft.lanes.map(lane => ({ ...lane }))
+    };
+  }
+
+  /**
+   * Restore the draft's grid and lanes from a snapshot
+   */
+  private restoreSnapshot(snapshot: EditorSnapshot): void {
+    this.draft.grid = [...snapshot.grid];
+    this.draft.lanes = snapshot.lanes.map(lane => ({ ...lane }));
+    this.selectedRow = Math.min(this.selectedRow, this.draft.grid.length - 1);
+    this.refresh();
+  }
+
+  /**
+   * Redraw the level and panel after the draft changes, and schedule validation
+   */
+  private refresh(): void {
+    this.renderLevel();
+    this.updateRowTools();
+    this.scheduleValidation();
+  }
+
+  /**
+   * Draw the level: terrain from LevelBuilder, object previews, lane markers, and the selected row
+   */
+  private renderLevel(): void {
+    this.levelObjects.forEach(object => object.destroy());
+    this.levelObjects = [];
+
+    const level = this.getLevelConfig();
+    const gridSystem = new GridSystem(level);
+    const levelBuilder = new LevelBuilder(this, gridSystem, level);
+    levelBuilder.createBackground().forEach(tile => this.addToLevel(tile));
+
+    level.grid.forEach((line, row) => {
+      [...line].forEach((char, col) => {
+        const entry = PALETTE.find(paletteEntry => paletteEntry.char === char);
+        if (!entry?.image) return;
+
+        const { x, y } = gridSystem.getWorldPosition(row, col);
+        this.addToLevel(this.add.image(x, y, entry.image, entry.frame).setDisplaySize(OBJECT_DISPLAY_SIZE, OBJECT_DISPLAY_SIZE));
+      });
+    });
+
+    // Mark rows with lane settings in the gutter to the right of the grid
+    this.draft.lanes.forEach(lane => {
+      const marker = lane.direction === Direction.LEFT ? '◀' : lane.direction === Direction.RIGHT ? '▶' : '●';
+      this.addToLevel(
+        this.add.text(level.width * GRID_SIZE + GRID_SIZE / 3, lane.row * GRID_SIZE + GRID_SIZE / 2, marker, {
+          font: '24px Arial',
+          color: '#ffd700'
+        }).setOrigin(0.5)
+      );
+    });
+
+    this.addToLevel(
+      this.add.rectangle(
+        (level.width * GRID_SIZE) / 2,
+        this.selectedRow * GRID_SIZE + GRID_SIZE / 2,
+        level.width * GRID_SIZE,
+        GRID_SIZE
+      ).setFillStyle(SELECTED_COLOR, 0.15).setStrokeStyle(4, SELECTED_COLOR)
+    );
+
+    this.cameras.main.setBounds(0, 0, LEVEL_VIEW_WIDTH / LEVEL_VIEW_ZOOM, level.height * GRID_SIZE);
+  }
+
+  /**
+   * Update the selected row label and lane editor values
+   */
+  private updateRowTools(): void {
+    const lane = this.draft.lanes.find(existing => existing.row === this.selectedRow);
+
+    this.rowLabel.setText(`ROW ${this.selectedRow}`);
+    LANE_FIELDS.forEach(config => {
+      const value = lane?.[config.field];
+      this.laneValueTexts.get(config.field)?.setText(value === undefined ? 'default' : String(value));
+    });
+  }
+
+  /**
+   * Validate the level shortly after the last change
+   * Waiting keeps painting responsive, since validation plays out the whole level
+   */
+  private scheduleValidation(): void {
+    this.validationTimer?.remove();
+    this.validationText.setColor('#aaaaaa').setText('Checking...');
+    this.validationTimer = this.time.delayedCall(VALIDATION_DELAY_MS, () => {
+      this.showValidation(validateLevel(this.getLevelConfig()));
+    });
+  }
+
+  /**
+   * Show validation results in the validation panel
+   * @param errors - Validation errors, empty if the level is valid
+   * @param heading - Optional line shown above the errors
+   */
+  private showValidation(errors: string[], heading?: string): void {
+    if (errors.length === 0) {
+      this.validationText.setColor('#66ff66').setText('✔ Level is valid and winnable');
+      return;
+    }
+
+    const shown = errors.slice(0, MAX_SHOWN_ERRORS).map(error => `• ${error}`);
+    if (errors.length > MAX_SHOWN_ERRORS) {
+      shown.push(`…and ${errors.length - MAX_SHOWN_ERRORS} more`);
+    }
+    this.validationText.setColor('#ff6666').setText([...(heading ? [heading] : []), ...shown].join('\n'));
+  }
+
+  /**
+   * Play the level in GameScene
+   * Only valid levels can be play-tested
+   */
+  private playtest(): void {
+    const level = this.getLevelConfig();
+    const errors = validateLevel(level);
+
+    if (errors.length > 0) {
+      this.showValidation(errors, 'Fix these problems to play-test:');
+      return;
+    }
+
+    this.scene.start(SceneKeys.GAME, { playtestLevel: level });
+  }
+
+  /**
+   * Show the level as level file JSON and copy it to the clipboard
+   */
+  private exportLevel(): void {
+    const text = JSON.stringify(createLevelFileData(this.draft), null, 2);
+    this.openTextPanel(text);
+
+    try {
+      navigator.clipboard?.writeText(text).catch(() => {
+        // Clipboard unavailable - the text box still holds the level
+      });
+    } catch (error) {
+      // Clipboard unavailable - the text box still holds the level
+    }
+  }
+
+  /**
+   * Import a level from level file JSON
+   * The first click opens the text box; clicking again loads what was pasted into it
+   */
+  private importLevel(): void {
+    if (!this.textPanel) {
+      this.openTextPanel('', 'Paste a level file here, then press IMPORT again');
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(this.textPanel.value);
+    } catch (error) {
+      this.showValidation([(error as Error).message], 'Import failed:');
+      return;
+    }
+
+    const result = readLevelFile(data);
+    if (!result.level) {
+      this.showValidation(result.errors, 'Import failed:');
+      return;
+    }
+
+    const imported = this.createDraft(result.level);
+    this.applyChange(() => {
+      this.draft = imported;
+      this.selectedRow = Math.min(this.selectedRow, imported.grid.length - 1);
+    });
+    this.closeTextPanel();
+  }
+
+  /**
+   * Open the import/export text box over the level view
+   * @param text - Initial contents of the text box
+   * @param placeholder - Hint shown while the text box is empty
+   */
+  private openTextPanel(text: string, placeholder: string = ''): void {
+    if (!this.textPanel) {
+      const bounds = this.game.canvas.getBoundingClientRect();
+      const scale = bounds.width / this.scale.width;
+      const textPanel = document.createElement('textarea');
+
+      Object.assign(textPanel.style, {
+        position: 'absolute',
+        left: `${bounds.left + window.scrollX + 10 * scale}px`,
+        top: `${bounds.top + window.scrollY + 10 * scale}px`,
+        width: `${(LEVEL_VIEW_WIDTH - 20) * scale}px`,
+        height: `${(this.scale.height - 20) * scale}px`,
+        boxSizing: 'border-box',
+        font: '12px monospace',
+        color: '#ffffff',
+        background: 'rgba(0, 0, 0, 0.85)',
+        border: '2px solid #ffd700',
+        zIndex: '10'
+      });
+
+      // Keep key presses in the text box away from the scene's shortcuts (Escape closes it)
+      textPanel.addEventListener('keydown', (event) => {
+        event.stopPropagation();
+        if (event.key === 'Escape') {
+          this.closeTextPanel();
+        }
+      });
+
+      document.body.appendChild(textPanel);
+      this.textPanel = textPanel;
+    }
+
+    this.textPanel.value = text;
+    this.textPanel.placeholder = placeholder;
+    this.textPanel.focus();
+    this.textPanel.select();
+  }
+
+  /**
+   * Close the import/export text box
+   */
+  private closeTextPanel(): void {
+    if (!this.textPanel) return;
+
+    this.textPanel.remove();
+    this.textPanel = null;
+  }
+
+  /**
+   * Build a level configuration from the draft
+   */
+  private getLevelConfig(): LevelConfig {
+    return createLevelConfig(this.draft);
+  }
+
+  /**
+   * Create an editable copy of a level definition
+   */
+  private createDraft(level: LevelDefinition): EditorDraft {
+    return {
+      id: level.id,
+      name: level.name,
+      ...(level.author !== undefined && { author: level.author }),
+      ...(level.parTimeSeconds !== undefined && { parTimeSeconds: level.parTimeSeconds }),
+      ...(level.lives !== undefined && { lives: level.lives }),
+      grid: [...level.grid],
+      lanes: (level.lanes ?? []).map(lane => ({ ...lane }))
+    };
+  }
+
+  /**
+   * Track a game object as part of the level view (hidden from the panel camera)
+   */
+  private addToLevel(object: Phaser.GameObjects.GameObject): void {
+    this.panelCamera.ignore(object);
+    this.levelObjects.push(object);
+  }
+
+  /**
+   * Track a game object as part of the side panel (hidden from the level camera)
+   */
+  private addToPanel(object: Phaser.GameObjects.GameObject): void {
+    this.cameras.main.ignore(object);
+  }
+}
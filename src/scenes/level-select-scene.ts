@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Level select scene for the Antzer game
+ * Lists every registered level as a grid of cards showing lock state, best results, and star ratings
+ * Picking an unlocked card starts the campaign from that level
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, ImageKeys, SceneKeys } from "../config/constants";
+import { LevelConfig } from "../config/level-config";
+import { getLevels } from "../config/level-registry";
+import { MAX_STARS } from "../game/level-rating";
+import { AudioManager } from "../utils/audio-manager";
+import { ProgressStore } from "../utils/progress-store";
+import { formatElapsedTime } from "../utils/time-format";
+
+const CARD_COLUMNS = 3;
+const CARD_ROWS = 2;
+const CARDS_PER_PAGE = CARD_COLUMNS * CARD_ROWS;
+const CARD_WIDTH = 220;
+const CARD_HEIGHT = 170;
+const CARD_GAP = 25;
+const CARDS_TOP = 130;
+
+const CARD_COLOR = 0x1f4d1f;
+const CARD_HOVER_COLOR = 0x2e6b2e;
+const CARD_LOCKED_COLOR = 0x333333;
+const SEED_LENGTH = 6;
+const STAR_FILLED = '★';
+const STAR_EMPTY = '☆';
+
+/**
+ * LevelSelectScene class - lets the player pick any unlocked level
+ *
+ * This scene provides:
+ * - A card for every registered level, paged when there are many levels
+ * - Lock state for levels that have not been unlocked in the campaign
+ * - Best completion time, best score, and star rating per level
+ * - Seeded level button to play a generated level from a shared or random seed
+ * - Back button to return to the main menu
+ *
+ * **Scene Flow:**
+ * MenuScene → **LevelSelectScene** → GameScene
+ */
+export class LevelSelectScene extends Phaser.Scene {
+  /** Audio manager for handling sound effects */
+  private audioManager!: AudioManager;
+  /** Persisted campaign progress and level records */
+  private progressStore!: ProgressStore;
+  /** Game objects making up the current page of cards */
+  private pageObjects: Phaser.GameObjects.GameObject[] = [];
+  /** Index of the page currently shown */
+  private page: number = 0;
+
+  /**
+   * Create a new LevelSelectScene instance
+   * Initializes the scene with the LEVEL_SELECT key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.LEVEL_SELECT });
+  }
+
+  /**
+   * Create phase - set up the level grid and navigation
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+    this.progressStore = new ProgressStore();
+    this.page = 0;
+    this.pageObjects = [];
+
+    this.createBackground();
+    this.createTitle();
+    this.createSeededLevelButton();
+    this.createBackButton();
+    this.showPage(0);
+  }
+
+  /**
+   * Create the dimmed background image
+   */
+  private createBackground(): void {
+    this.add.image(0, 0, ImageKeys.BACKGROUND)
+      .setOrigin(0)
+      .setDisplaySize(this.cameras.main.width, this.cameras.main.height)
+      .setTint(0x888888);
+  }
+
+  /**
+   * Create the scene title
+   */
+  private createTitle(): void {
+    this.add.text(
+      this.cameras.main.width / 2,
+      60,
+      'SELECT LEVEL',
+      {
+        font: '48px Arial',
+        color: '#ffffff'
+      }
+    ).setOrigin(0.5)
+      .setShadow(3, 3, '#000000', 5);
+  }
+
+  /**
+   * Create the button that plays a generated level from a seed
+   */
+  private createSeededLevelButton(): void {
+    const seedButton = this.add.image(this.cameras.main.width - 105, 60, ImageKeys.BUTTON)
+      .setOrigin(0.5)
+      .setDisplaySize(170, 50)
+      .setInteractive({ useHandCursor: true });
+
+    this.add.text(seedButton.x, seedButton.y, 'SEEDED LEVEL', {
+      font: '16px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+
+    seedButton.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.startSeededLevel();
+    });
+  }
+
+  /**
+   * Ask for a seed and play the level generated from it
+   * Seeds are case-insensitive; leaving the seed blank picks a random one
+   */
+  private startSeededLevel(): void {
+    const input = window.prompt('Enter a level seed to play a shared level, or leave blank for a random one', '');
+    if (input === null) return;
+
+    const seed = input.trim().toUpperCase()
+      || Math.random().toString(36).slice(2, 2 + SEED_LENGTH).toUpperCase();
+
+    this.sound.stopAll(); // Clean up audio before scene transition
+    this.scene.start(SceneKeys.GAME, { seed });
+  }
+
+  /**
+   * Create the button that returns to the main menu
+   */
+  private createBackButton(): void {
+    const backButton = this.add.image(
+      this.cameras.main.width / 2,
+      this.cameras.main.height - 45,
+      ImageKeys.BUTTON
+    ).setOrigin(0.5)
+      .setDisplaySize(200, 50)
+      .setInteractive({ useHandCursor: true });
+
+    this.add.text(backButton.x, backButton.y, 'BACK', {
+      font: '18px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+
+    backButton.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.scene.start(SceneKeys.MENU);
+    });
+  }
+
+  /**
+   * Show a page of level cards, replacing the current page
+   * @param page - Index of the page to show
+   */
+  private showPage(page: number): void {
+    this.pageObjects.forEach(object => object.destroy());
+    this.pageObjects = [];
+
+    const levels = getLevels();
+    const pageCount = Math.max(1, Math.ceil(levels.length / CARDS_PER_PAGE));
+    this.page = Phaser.Math.Clamp(page, 0, pageCount - 1);
+
+    const gridWidth = CARD_COLUMNS * CARD_WIDTH + (CARD_COLUMNS - 1) * CARD_GAP;
+    const left = (this.cameras.main.width - gridWidth) / 2;
+
+    levels
+      .slice(this.page * CARDS_PER_PAGE, (this.page + 1) * CARDS_PER_PAGE)
+      .forEach((level, index) => {
+        const column = index % CARD_COLUMNS;
+        const row = Math.floor(index / CARD_COLUMNS);
+        const x = left + column * (CARD_WIDTH + CARD_GAP) + CARD_WIDTH / 2;
+        const y = CARDS_TOP + row * (CARD_HEIGHT + CARD_GAP) + CARD_HEIGHT / 2;
+        const levelNumber = this.page * CARDS_PER_PAGE + index + 1;
+
+        this.createLevelCard(level, levelNumber, x, y);
+      });
+
+    if (pageCount > 1) {
+      this.createPageControls(pageCount);
+    }
+  }
+
+  /**
+   * Create a single level card
+   * @param level - The level the card represents
+   * @param levelNumber - 1-based position of the level in play order
+   * @param x - Horizontal center of the card
+   * @param y - Vertical center of the card
+   */
+  private createLevelCard(level: LevelConfig, levelNumber: number, x: number, y: number): void {
+    const unlocked = this.progressStore.isUnlocked(level.id);
+    const record = this.progressStore.getLevelRecord(level.id);
+
+    const card = this.add.rectangle(x, y, CARD_WIDTH, CARD_HEIGHT, unlocked ? CARD_COLOR : CARD_LOCKED_COLOR, 0.9)
+      .setStrokeStyle(3, unlocked ? 0xffffff : 0x777777);
+    this.pageObjects.push(card);
+
+    this.addCardText(x, y - 60, `LEVEL ${levelNumber}`, '16px Arial', '#cccccc');
+    this.addCardText(x, y - 35, level.name, 'bold 20px Arial', '#ffffff');
+
+    if (!unlocked) {
+      this.addCardText(x, y + 20, 'LOCKED', 'bold 24px Arial', '#999999');
+      return;
+    }
+
+    const stars = record?.stars ?? 0;
+    this.addCardText(x, y + 2, STAR_FILLED.repeat(stars) + STAR_EMPTY.repeat(MAX_STARS - stars), '28px Arial', '#ffd700');
+    this.addCardText(
+      x,
+      y + 50,
+      record
+        ? `Best Time: ${formatElapsedTime(record.bestTimeMs)}\nBest Score: ${record.bestScore}`
+        : 'Not completed yet',
+      '16px Arial',
+      '#ffffff'
+    );
+
+    card.setInteractive({ useHandCursor: true });
+    card.on('pointerover', () => card.setFillStyle(CARD_HOVER_COLOR, 0.9));
+    card.on('pointerout', () => card.setFillStyle(CARD_COLOR, 0.9));
+    card.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.sound.stopAll(); // Clean up audio before scene transition
+      this.scene.start(SceneKeys.GAME, { levelId: level.id });
+    });
+  }
+
+  /**
+   * Add a centered line of text to the current page
+   */
+  private addCardText(x: number, y: number, text: string, font: string, color: string): void {
+    this.pageObjects.push(
+      this.add.text(x, y, text, { font, color, align: 'center' }).setOrigin(0.5)
+    );
+  }
+
+  /**
+   * Create previous/next page arrows and the page indicator
+   * @param pageCount - Total number of pages
+   */
+  private createPageControls(pageCount: number): void {
+    const y = this.cameras.main.height - 45;
+
+    const indicator = this.add.text(this.cameras.main.width / 2 + 200, y, `${this.page + 1} / ${pageCount}`, {
+      font: '18px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+    this.pageObjects.push(indicator);
+
+    if (this.page > 0) {
+      this.createPageArrow(this.cameras.main.width / 2 - 200, y, '◀', this.page - 1);
+    }
+    if (this.page < pageCount - 1) {
+      this.createPageArrow(this.cameras.main.width / 2 + 270, y, '▶', this.page + 1);
+    }
+  }
+
+  /**
+   * Create a single page arrow
+   */
+  private createPageArrow(x: number, y: number, symbol: string, targetPage: number): void {
+    const arrow = this.add.text(x, y, symbol, {
+      font: '32px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    arrow.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      this.showPage(targetPage);
+    });
+    this.pageObjects.push(arrow);
+  }
+}
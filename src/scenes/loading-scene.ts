@@ -1,5 +1,18 @@
 import Phaser from "phaser";
 import { AnimationKeys, AudioKeys, ImageKeys, SceneKeys } from "../config/constants";
+import {
+  LEVEL_FILES_PATH,
+  LEVEL_MANIFEST_PATH,
+  LevelManifest,
+  parseLevelFile
+} from "../config/level-loader";
+import { registerLevel } from "../config/level-registry";
+
+const LEVEL_MANIFEST_KEY = 'level-manifest';
+const LEVEL_FILE_KEY_PREFIX = 'level-file:';
+
+const CHECKPOINT_TEXTURE_SIZE = 48;
+const CHECKPOINT_POLE_COLOR = 0x5c3a1e;
 
 /**
  * @fileoverview Loading scene for the Antzer game
@@ -12,9 +25,11 @@ import { AnimationKeys, AudioKeys, ImageKeys, SceneKeys } from "../config/consta
  * LoadingScene class - handles all game asset loading with visual feedback
  * 
  * This scene is responsible for:
- * - Loading all game assets (images, audio, spritesheets)
+ * - Loading all game assets (images, audio, spritesheets, level files)
+ * - Checking and registering level files listed in the level manifest
  * - Displaying loading progress with a visual progress bar
  * - Creating all sprite animations for the game
+ * - Drawing textures that have no image file (the checkpoint flag)
  * - Showing game credits and challenge information
  * - Transitioning to the menu scene when loading is complete
  * 
@@ -53,6 +68,8 @@ export class LoadingScene extends Phaser.Scene {
    */
   create(): void {
     this.createAnimations();
+    this.createGeneratedTextures();
+    this.registerLevelFiles();
     
     // Start menu scene with a slight delay to show completion
     this.time.delayedCall(1000, () => {
@@ -187,6 +204,7 @@ export class LoadingScene extends Phaser.Scene {
     this.loadImages();
     this.loadSpritesheets();
     this.loadAudio();
+    this.loadLevelFiles();
   }
 
   /**
@@ -229,6 +247,12 @@ export class LoadingScene extends Phaser.Scene {
       frameWidth: 192, // 1536 / 8 frames = 192px per frame
       frameHeight: 1024
     });
+    
+    // Frog enemy spritesheet (1536x1024 total, 192x1024 per frame, 8 frames)
+    this.load.spritesheet(ImageKeys.FROG, 'assets/images/frog-spritesheet.png', {
+      frameWidth: 192,
+      frameHeight: 1024
+    });
   }
 
   /**
@@ -248,12 +272,75 @@ export class LoadingScene extends Phaser.Scene {
     this.load.audio(AudioKeys.SFX_WIN, 'assets/audio/win.mp3');
   }
 
+  /**
+   * Load the level manifest, then every level file it lists
+   * Level files are queued as soon as the manifest arrives so they load in the same pass
+   */
+  private loadLevelFiles(): void {
+    this.load.once(`filecomplete-json-${LEVEL_MANIFEST_KEY}`, (_key: string, _type: string, manifest: LevelManifest) => {
+      if (!manifest || !Array.isArray(manifest.levels)) {
+        console.error(`❌ Level manifest ${LEVEL_MANIFEST_PATH} must contain a "levels" array`);
+        return;
+      }
+      
+      manifest.levels.forEach((fileName) => {
+        this.load.json(`${LEVEL_FILE_KEY_PREFIX}${fileName}`, `${LEVEL_FILES_PATH}${fileName}`);
+      });
+    });
+    
+    this.load.json(LEVEL_MANIFEST_KEY, LEVEL_MANIFEST_PATH);
+  }
+
+  /**
+   * Check every loaded level file and register the valid ones
+   * Invalid files are reported and skipped so one broken level cannot block the game
+   */
+  private registerLevelFiles(): void {
+    const manifest = this.cache.json.get(LEVEL_MANIFEST_KEY) as LevelManifest | undefined;
+    if (!manifest || !Array.isArray(manifest.levels)) return;
+    
+    manifest.levels.forEach((fileName) => {
+      const data = this.cache.json.get(`${LEVEL_FILE_KEY_PREFIX}${fileName}`);
+      const result = data === undefined
+        ? { errors: ['File could not be loaded'] }
+        : parseLevelFile(data);
+      
+      if (result.level) {
+        registerLevel(result.level);
+      } else {
+        console.error(`❌ Level file ${fileName} rejected:`, result.errors);
+        result.errors.forEach((error: string) => console.error(`  - ${error}`));
+      }
+    });
+  }
+
   /**
    * Create all sprite animations for the game
    * Defines animation sequences for all animated game objects
    */
   private createAnimations(): void {
     this.createAntAnimations();
+    this.createFrogAnimations();
+  }
+
+  /**
+   * Draw textures that are generated at runtime instead of loaded from image files
+   * The checkpoint flag is drawn white so it can be tinted to show whether it has been reached
+   */
+  private createGeneratedTextures(): void {
+    const size = CHECKPOINT_TEXTURE_SIZE;
+    const graphics = this.make.graphics({}, false);
+    
+    // Flag pole
+    graphics.fillStyle(CHECKPOINT_POLE_COLOR, 1);
+    graphics.fillRect(size * 0.3, size * 0.1, size * 0.08, size * 0.8);
+    
+    // Pennant
+    graphics.fillStyle(0xffffff, 1);
+    graphics.fillTriangle(size * 0.38, size * 0.1, size * 0.9, size * 0.27, size * 0.38, size * 0.44);
+    
+    graphics.generateTexture(ImageKeys.CHECKPOINT, size, size);
+    graphics.destroy();
   }
 
   /**
@@ -293,4 +380,26 @@ export class LoadingScene extends Phaser.Scene {
       repeat: 0
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Create all animations for the frog enemy
+   * The crouch before a hop (frame 4) is shown by the frog itself, timed by the simulation
+   */
+  private createFrogAnimations(): void {
+    // Frog idle animation (breathing)
+    this.anims.create({
+      key: AnimationKeys.FROG_IDLE,
+      frames: this.anims.generateFrameNumbers(ImageKeys.FROG, { start: 0, end: 3 }),
+      frameRate: 4,
+      repeat: -1
+    });
+    
+    // Frog jumping animation (extend, mid-air, landing), played over one hop
+    this.anims.create({
+      key: AnimationKeys.FROG_JUMP,
+      frames: this.anims.generateFrameNumbers(ImageKeys.FROG, { start: 5, end: 7 }),
+      frameRate: 15,
+      repeat: 0
+    });
+  }
+}
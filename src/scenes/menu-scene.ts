@@ -5,8 +5,23 @@
  */
 
 import Phaser from "phaser";
-import { AudioKeys, ImageKeys, SceneKeys } from "../config/constants";
+import { AudioKeys, Direction, GameMode, ImageKeys, SceneKeys } from "../config/constants";
+import { TouchControls } from "../game/input-manager";
+import { formatKeys, getPresetName } from "../game/key-bindings";
+import { MenuNavigator } from "../game/menu-navigator";
 import { AudioManager } from "../utils/audio-manager";
+import { SettingsStore } from "../utils/settings-store";
+
+const MENU_LOGO_Y = 110;
+const MENU_BUTTONS_TOP = 195;
+const MENU_BUTTON_SPACING = 49;
+const MENU_BUTTON_HEIGHT = 44;
+/** How each choice of touch controls is described in the controls box */
+const MOBILE_CONTROLS_DESCRIPTIONS: Record<TouchControls, string> = {
+  [TouchControls.DPAD]: 'Touch the directional buttons',
+  [TouchControls.SWIPES]: 'Swipe to move, tap to hop forward',
+  [TouchControls.BOTH]: 'Swipe, tap, or touch the buttons'
+};
 
 /**
  * MenuScene class - the main menu interface for the game
@@ -14,7 +29,11 @@ import { AudioManager } from "../utils/audio-manager";
  * This scene provides:
  * - Game logo with floating animation
  * - Start game button to begin gameplay
- * - Controls button to show game instructions
+ * - Endless mode button to climb a never-ending level
+ * - Level select button to pick an unlocked level
+ * - High scores button to see the best runs of every level and mode
+ * - Settings button to remap the movement keys
+ * - Controls button to show the current keys and game instructions
  * - Background music with user interaction handling
  * - Credit information about the game's creation
  * - Modal dialog for displaying controls
@@ -27,6 +46,10 @@ export class MenuScene extends Phaser.Scene {
   private music!: Phaser.Sound.BaseSound;
   /** Audio manager for handling sound effects and music */
   private audioManager!: AudioManager;
+  /** Menu buttons, in order */
+  private menuButtons: Phaser.GameObjects.Image[] = [];
+  /** Gamepad focus for the menu buttons and the controls modal */
+  private menuNavigator!: MenuNavigator;
 
   /**
    * Create a new MenuScene instance
@@ -78,7 +101,7 @@ export class MenuScene extends Phaser.Scene {
   private createLogo(): void {
     const logo = this.add.image(
       this.cameras.main.width / 2,
-      this.cameras.main.height / 4,
+      MENU_LOGO_Y,
       ImageKeys.LOGO
     ).setOrigin(0.5)
      .setDisplaySize(120, 120);
@@ -96,65 +119,59 @@ export class MenuScene extends Phaser.Scene {
 
   /**
    * Create all menu buttons with interactions
-   * Includes start game and controls buttons with hover effects
+   * Includes start game, endless mode, level select, high scores, level editor, settings, and controls buttons with hover effects
    */
   private createButtons(): void {
-    this.createStartButton();
-    this.createControlsButton();
-  }
-
-  /**
-   * Create the start game button with interactions
-   * Handles button styling, hover effects, and click functionality
-   */
-  private createStartButton(): void {
-    const startButton = this.add.image(
-      this.cameras.main.width / 2,
-      this.cameras.main.height / 2 + 50,
-      ImageKeys.BUTTON
-    ).setOrigin(0.5)
-      .setDisplaySize(250, 60)
-      .setInteractive({ useHandCursor: true });
+    const buttons = [
+      { label: 'START GAME', handler: () => this.startGame() },
+      { label: 'ENDLESS MODE', handler: () => this.startEndless() },
+      { label: 'LEVEL SELECT', handler: () => this.showLevelSelect() },
+      { label: 'HIGH SCORES', handler: () => this.showHighScores() },
+      { label: 'LEVEL EDITOR', handler: () => this.showLevelEditor() },
+      { label: 'SETTINGS', handler: () => this.showSettings() },
+      { label: 'CONTROLS', handler: () => this.showControls() }
+    ];
     
-    // Add button text
-    this.add.text(
-      startButton.x,
-      startButton.y,
-      'START GAME',
-      {
-        font: '18px Arial',
-        color: '#ffffff'
-      }
-    ).setOrigin(0.5);
-    
-    this.setupButtonInteractions(startButton, () => this.startGame());
+    this.menuButtons = buttons.map((button, index) =>
+      this.createMenuButton(
+        button.label,
+        MENU_BUTTONS_TOP + index * MENU_BUTTON_SPACING,
+        button.handler
+      )
+    );
+    this.menuNavigator = new MenuNavigator(this, this.menuButtons);
   }
 
   /**
-   * Create the controls button with interactions
+   * Create a single menu button with interactions
    * Handles button styling, hover effects, and click functionality
+   * @param label - Text shown on the button
+   * @param y - Vertical center of the button
+   * @param clickHandler - Function to call when the button is clicked
+   * @returns The button image
    */
-  private createControlsButton(): void {
-    const controlsButton = this.add.image(
+  private createMenuButton(label: string, y: number, clickHandler: () => void): Phaser.GameObjects.Image {
+    const button = this.add.image(
       this.cameras.main.width / 2,
-      this.cameras.main.height / 2 + 150,
+      y,
       ImageKeys.BUTTON
     ).setOrigin(0.5)
-      .setDisplaySize(250, 60)
+      .setDisplaySize(250, MENU_BUTTON_HEIGHT)
       .setInteractive({ useHandCursor: true });
     
     // Add button text
     this.add.text(
-      controlsButton.x,
-      controlsButton.y,
-      'CONTROLS',
+      button.x,
+      button.y,
+      label,
       {
         font: '18px Arial',
         color: '#ffffff'
       }
     ).setOrigin(0.5);
     
-    this.setupButtonInteractions(controlsButton, () => this.showControls());
+    this.setupButtonInteractions(button, clickHandler);
+    return button;
   }
 
   /**
@@ -189,7 +206,7 @@ export class MenuScene extends Phaser.Scene {
   private createCredits(): void {
     this.add.text(
       this.cameras.main.width / 2,
-      this.cameras.main.height - 70,
+      this.cameras.main.height - 50,
       'Game Concept by Ryan E\nCreated for the AWS Build Games Challenge\nGenerated with Amazon Q Developer (w/ minimal time investment)',
       {
         font: '16px Arial',
@@ -253,9 +270,64 @@ export class MenuScene extends Phaser.Scene {
     this.scene.start(SceneKeys.GAME);
   }
 
+  /**
+   * Open the level select screen
+   * Stops menu music before leaving the menu
+   */
+  private showLevelSelect(): void {
+    if (this.music) {
+      this.music.stop();
+    }
+    this.scene.start(SceneKeys.LEVEL_SELECT);
+  }
+
+  /**
+   * Open the high scores screen
+   * Stops menu music before leaving the menu
+   */
+  private showHighScores(): void {
+    if (this.music) {
+      this.music.stop();
+    }
+    this.scene.start(SceneKeys.HIGH_SCORES);
+  }
+
+  /**
+   * Start an endless run
+   * Stops menu music and switches to the game scene in endless mode
+   */
+  private startEndless(): void {
+    if (this.music) {
+      this.music.stop();
+    }
+    this.scene.start(SceneKeys.GAME, { mode: GameMode.ENDLESS });
+  }
+
+  /**
+   * Open the level editor
+   * Stops menu music before leaving the menu
+   */
+  private showLevelEditor(): void {
+    if (this.music) {
+      this.music.stop();
+    }
+    this.scene.start(SceneKeys.LEVEL_EDITOR);
+  }
+
+  /**
+   * Open the settings screen
+   * Stops menu music before leaving the menu
+   */
+  private showSettings(): void {
+    if (this.music) {
+      this.music.stop();
+    }
+    this.scene.start(SceneKeys.SETTINGS);
+  }
+
   /**
    * Show the controls modal dialog
-   * Creates a modal overlay with game control instructions for desktop and mobile
+   * Creates a modal overlay with the current keys for desktop and instructions for mobile
    */
   private showControls(): void {
     const modalContainer = this.createControlsModal();
@@ -304,19 +376,19 @@ export class MenuScene extends Phaser.Scene {
     // Controls image
     const controlsImage = this.add.image(
       this.cameras.main.width / 2,
-      this.cameras.main.height / 2 - 50,
+      this.cameras.main.height / 2 - 60,
       ImageKeys.CONTROLS
     ).setOrigin(0.5)
-     .setDisplaySize(200, 150);
+     .setDisplaySize(160, 120);
     modalContainer.add(controlsImage);
     
-    // Controls description
+    // Controls description, with the keys currently bound in settings
     const descText = this.add.text(
       this.cameras.main.width / 2,
-      this.cameras.main.height / 2 + 50,
-      'Desktop: Arrow Keys\nMobile: Touch the directional buttons',
+      this.cameras.main.height / 2 + 55,
+      this.describeControls(),
       {
-        font: '20px Arial',
+        font: '18px Arial',
         color: '#ffffff',
         align: 'center'
       }
@@ -324,6 +396,22 @@ export class MenuScene extends Phaser.Scene {
     modalContainer.add(descText);
   }
 
+  /**
+   * Describe the saved key bindings and the chosen touch controls
+   * @returns Text listing the keys for each direction
+   */
+  private describeControls(): string {
+    const { keyBindings, touchControls } = new SettingsStore().getSettings();
+    const keysFor = (direction: Direction) => formatKeys(keyBindings[direction]);
+    
+    return [
+      `Desktop (${getPresetName(keyBindings)}):`,
+      `Up: ${keysFor(Direction.UP)}    Down: ${keysFor(Direction.DOWN)}`,
+      `Left: ${keysFor(Direction.LEFT)}    Right: ${keysFor(Direction.RIGHT)}`,
+      `Mobile: ${MOBILE_CONTROLS_DESCRIPTIONS[touchControls]}`
+    ].join('\n');
+  }
+
   /**
    * Set up the close button for the controls modal
    * @param modalContainer - The modal container to close when button is clicked
@@ -355,6 +443,10 @@ export class MenuScene extends Phaser.Scene {
     closeButton.on('pointerdown', () => {
       this.sound.play(AudioKeys.SFX_BUTTON);
       modalContainer.destroy(); // Destroys all children in the container
+      this.menuNavigator.setButtons(this.menuButtons);
     });
+    
+    // Gamepad focus stays on the modal until it is closed
+    this.menuNavigator.setButtons([closeButton], { onBack: () => closeButton.emit('pointerdown') });
   }
 }
\ No newline at end of file
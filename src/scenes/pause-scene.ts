@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Pause scene for the Antzer game
+ * Runs as an overlay above the paused game scene and lets the player resume,
+ * restart the level, change settings, or quit to the menu, or just asks the player
+ * to tap to resume when the game paused itself
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, ImageKeys, SceneKeys } from "../config/constants";
+import { MenuNavigator } from "../game/menu-navigator";
+import { AudioManager } from "../utils/audio-manager";
+import { GameSettings, SettingsStore } from "../utils/settings-store";
+import { GameSceneData } from "./game-scene";
+
+const OVERLAY_COLOR = 0x000000;
+const OVERLAY_ALPHA = 0.6;
+const PANEL_WIDTH = 400;
+const PANEL_HEIGHT = 440;
+const PANEL_ALPHA = 0.8;
+const BUTTONS_TOP = 220;
+const BUTTON_SPACING = 75;
+
+/** Settings switched on and off from the settings panel */
+type ToggleSetting = Extract<keyof GameSettings, 'musicEnabled' | 'soundEnabled'>;
+
+/**
+ * Pause data passed from the game scene when it is paused
+ */
+export interface PauseSceneData {
+  /** Data the game scene was started with, used to restart the level */
+  gameData: GameSceneData;
+  /** True when the game paused itself because the tab lost focus or was hidden */
+  autoPaused?: boolean;
+}
+
+/**
+ * PauseScene class - overlay menu shown while the game scene is paused
+ *
+ * This scene provides:
+ * - Resume button (or Escape / P, or Start on a gamepad) to carry on where the game left off
+ * - Restart level button to play the level again from its start
+ * - Settings panel to switch music and sound effects on or off
+ * - Quit button to leave for the menu, or the level editor during a play-test
+ * - A "tap to resume" prompt instead of the menu when the game paused itself
+ * - Gamepad focus on the buttons, with B going back from the settings panel
+ *
+ * The game scene is paused while this scene runs, which stops its physics, tweens,
+ * timers, and updates until it is resumed.
+ *
+ * **Scene Flow:**
+ * GameScene → **PauseScene** → GameScene (resumed or restarted), MenuScene, or LevelEditorScene
+ */
+export class PauseScene extends Phaser.Scene {
+  /** Data the game scene was started with */
+  private gameData!: GameSceneData;
+  /** Audio manager for sound effects and settings */
+  private audioManager!: AudioManager;
+  /** Saved music and sound effect settings */
+  private settingsStore!: SettingsStore;
+  /** Whether the game paused itself rather than being paused by the player */
+  private autoPaused: boolean = false;
+  /** Resume, restart, settings, and quit buttons */
+  private mainPanel!: Phaser.GameObjects.Container;
+  /** Music and sound effect toggles */
+  private settingsPanel!: Phaser.GameObjects.Container;
+  /** Gamepad focus for the panel shown */
+  private menuNavigator!: MenuNavigator;
+
+  /**
+   * Create a new PauseScene instance
+   * Initializes the scene with the PAUSE key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.PAUSE });
+  }
+
+  /**
+   * Initialize phase - receive the game scene's start data
+   * @param data - Data needed to restart or quit the paused game
+   */
+  init(data: PauseSceneData): void {
+    this.gameData = data.gameData;
+    this.autoPaused = data.autoPaused ?? false;
+  }
+
+  /**
+   * Create phase - set up the overlay, both panels, and the resume keys
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+    this.settingsStore = new SettingsStore();
+
+    if (this.autoPaused) {
+      this.createResumePrompt();
+      return;
+    }
+
+    this.createOverlay();
+    this.mainPanel = this.createMainPanel();
+    this.settingsPanel = this.createSettingsPanel();
+    this.settingsPanel.setVisible(false);
+    this.menuNavigator = new MenuNavigator(this, getButtons(this.mainPanel), this.getMainPanelActions());
+
+    this.input.keyboard?.on('keydown-ESC', () => this.resumeGame());
+    this.input.keyboard?.on('keydown-P', () => this.resumeGame());
+  }
+
+  /**
+   * Create the dimmed overlay and panel behind the menu
+   * The overlay is interactive so clicks don't reach the game scene below
+   */
+  private createOverlay(): void {
+    const { width, height } = this.cameras.main;
+
+    this.add.rectangle(0, 0, width, height, OVERLAY_COLOR, OVERLAY_ALPHA)
+      .setOrigin(0)
+      .setInteractive();
+    this.add.rectangle(width / 2, height / 2, PANEL_WIDTH, PANEL_HEIGHT, OVERLAY_COLOR, PANEL_ALPHA)
+      .setOrigin(0.5);
+
+    this.add.text(width / 2, height / 2 - 170, 'PAUSED', {
+      font: '40px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 3);
+  }
+
+  /**
+   * Create the "tap to resume" prompt shown when the game paused itself
+   * Any tap, click, key press, or gamepad button resumes the game
+   */
+  private createResumePrompt(): void {
+    const { width, height } = this.cameras.main;
+
+    this.add.rectangle(0, 0, width, height, OVERLAY_COLOR, OVERLAY_ALPHA)
+      .setOrigin(0)
+      .setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.resumeGame());
+
+    this.add.text(width / 2, height / 2, 'PAUSED\n\nTap to resume', {
+      font: '40px Arial',
+      color: '#ffffff',
+      align: 'center'
+    }).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 3);
+
+    this.input.keyboard?.once('keydown', () => this.resumeGame());
+    this.input.gamepad?.once(Phaser.Input.Gamepad.Events.BUTTON_DOWN, () => this.resumeGame());
+  }
+
+  /**
+   * Create the main pause menu buttons
+   * @returns Container holding the buttons
+   */
+  private createMainPanel(): Phaser.GameObjects.Container {
+    const quitLabel = this.gameData.playtestLevel ? 'QUIT TO EDITOR' : 'QUIT TO MENU';
+
+    return this.add.container(0, 0, [
+      ...this.createButton(0, 'RESUME', () => this.resumeGame()),
+      ...this.createButton(1, 'RESTART LEVEL', () => this.restartLevel()),
+      ...this.createButton(2, 'SETTINGS', () => this.showSettings(true)),
+      ...this.createButton(3, quitLabel, () => this.quitGame())
+    ]);
+  }
+
+  /**
+   * Create the settings toggles and back button
+   * @returns Container holding the settings
+   */
+  private createSettingsPanel(): Phaser.GameObjects.Container {
+    const musicButton = this.createButton(0, '', () => this.toggleSetting('musicEnabled', musicButton[1]));
+    const soundButton = this.createButton(1, '', () => this.toggleSetting('soundEnabled', soundButton[1]));
+    this.updateToggleLabel(musicButton[1], 'musicEnabled');
+    this.updateToggleLabel(soundButton[1], 'soundEnabled');
+
+    return this.add.container(0, 0, [
+      ...musicButton,
+      ...soundButton,
+      ...this.createButton(3, 'BACK', () => this.showSettings(false))
+    ]);
+  }
+
+  /**
+   * Create a single button with its label
+   * @param slot - Position of the button from the top of the panel
+   * @param label - Text shown on the button
+   * @param clickHandler - Function to call when the button is clicked
+   * @returns The button image and its label
+   */
+  private createButton(
+    slot: number,
+    label: string,
+    clickHandler: () => void
+  ): [Phaser.GameObjects.Image, Phaser.GameObjects.Text] {
+    const button = this.add.image(
+      this.cameras.main.width / 2,
+      BUTTONS_TOP + slot * BUTTON_SPACING,
+      ImageKeys.BUTTON
+    ).setOrigin(0.5)
+      .setDisplaySize(250, 60)
+      .setInteractive({ useHandCursor: true });
+
+    const text = this.add.text(button.x, button.y, label, {
+      font: '20px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5);
+
+    button.on('pointerover', () => button.setTint(0xcccccc));
+    button.on('pointerout', () => button.clearTint());
+    button.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      clickHandler();
+    });
+
+    return [button, text];
+  }
+
+  /**
+   * Switch between the main menu and the settings panel
+   * @param visible - True to show the settings panel
+   */
+  private showSettings(visible: boolean): void {
+    this.mainPanel.setVisible(!visible);
+    this.settingsPanel.setVisible(visible);
+
+    if (visible) {
+      this.menuNavigator.setButtons(getButtons(this.settingsPanel), {
+        onBack: () => this.showSettings(false),
+        onStart: () => this.resumeGame()
+      });
+    } else {
+      this.menuNavigator.setButtons(getButtons(this.mainPanel), this.getMainPanelActions());
+    }
+  }
+
+  /**
+   * Get the gamepad actions for the main menu, where B and Start both resume the game
+   */
+  private getMainPanelActions(): { onBack: () => void; onStart: () => void } {
+    return { onBack: () => this.resumeGame(), onStart: () => this.resumeGame() };
+  }
+
+  /**
+   * Switch a setting on or off, save it, and apply it to every sound
+   * @param setting - The setting to switch
+   * @param label - Button label showing the setting
+   */
+  private toggleSetting(setting: ToggleSetting, label: Phaser.GameObjects.Text): void {
+    this.settingsStore.updateSettings({ [setting]: !this.settingsStore.getSettings()[setting] });
+    this.audioManager.applySettings(this.settingsStore.getSettings());
+    this.updateToggleLabel(label, setting);
+  }
+
+  /**
+   * Show a setting's current state on its button
+   * @param label - Button label showing the setting
+   * @param setting - The setting shown
+   */
+  private updateToggleLabel(label: Phaser.GameObjects.Text, setting: ToggleSetting): void {
+    const name = setting === 'musicEnabled' ? 'MUSIC' : 'SOUND EFFECTS';
+    label.setText(`${name}: ${this.settingsStore.getSettings()[setting] ? 'ON' : 'OFF'}`);
+  }
+
+  /**
+   * Close the overlay and carry on with the game
+   */
+  private resumeGame(): void {
+    this.scene.resume(SceneKeys.GAME);
+    this.scene.stop();
+  }
+
+  /**
+   * Play the level again from its start, with the score it started with
+   */
+  private restartLevel(): void {
+    this.sound.stopAll();
+    this.scene.start(SceneKeys.GAME, this.gameData);
+  }
+
+  /**
+   * Leave the game for the menu, or for the level editor during a play-test
+   */
+  private quitGame(): void {
+    this.sound.stopAll();
+    this.scene.stop(SceneKeys.GAME);
+
+    if (this.gameData.playtestLevel) {
+      this.scene.start(SceneKeys.LEVEL_EDITOR, { level: this.gameData.playtestLevel });
+    } else {
+      this.scene.start(SceneKeys.MENU);
+    }
+  }
+}
+
+/**
+ * Get the button images in a panel, leaving out their labels
+ */
+function getButtons(panel: Phaser.GameObjects.Container): Phaser.GameObjects.Image[] {
+  return panel.list.filter((child): child is Phaser.GameObjects.Image => child instanceof Phaser.GameObjects.Image);
+}
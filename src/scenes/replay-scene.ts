@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Replay scene for the Antzer game
+ * Plays a recorded run back in the game scene, which runs underneath this scene, and
+ * shows the playback controls: pause, double speed, and single frame steps
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, GameMode, SceneKeys } from "../config/constants";
+import { Replay, validateReplay } from "../game/replay";
+import { AudioManager } from "../utils/audio-manager";
+import { GameScene, GameSceneData } from "./game-scene";
+
+const CONTROLS_Y_OFFSET = 30;
+const CONTROLS_FONT = '18px Arial';
+const CONTROLS_BACKGROUND = '#000000';
+const CONTROLS_PADDING = { x: 10, y: 5 };
+const FAST_SPEED = 2;
+const OVERLAY_ALPHA = 0.6;
+const REPLAY_LABEL_COLOR = '#ff4444';
+
+/**
+ * Replay data passed from the scene that shows the replay
+ */
+export interface ReplaySceneData {
+  /** Recording to play back */
+  replay: Replay;
+  /** Scene to go back to when the replay is closed (defaults to the menu) */
+  returnScene?: SceneKeys;
+  /** Data to start the return scene with */
+  returnData?: object;
+}
+
+/**
+ * ReplayScene class - plays back a recorded run with playback controls
+ *
+ * This scene provides:
+ * - The recorded run, played in the game scene with the ant moved by the recording
+ * - Pause button (or Space) to stop and start playback
+ * - Speed button (or F) to switch between normal and double speed
+ * - Step button (or the right arrow) to play one frame at a time while paused
+ * - Frame counter showing how far the replay has got
+ * - Watch again and exit buttons once the run ends, and exit (or Escape) at any time
+ *
+ * **Scene Flow:**
+ * GameOverScene → **ReplayScene** (over GameScene) → GameOverScene
+ */
+export class ReplayScene extends Phaser.Scene {
+  /** Recording and return scene passed in when the replay started */
+  private replayData!: ReplaySceneData;
+  /** Audio manager for handling sound effects */
+  private audioManager!: AudioManager;
+  /** Game scene playing the recording */
+  private gameScene!: GameScene;
+  /** Whether playback is paused */
+  private paused: boolean = false;
+  /** How many times faster than real time the replay plays */
+  private speed: number = 1;
+  /** Pause button label */
+  private pauseButton!: Phaser.GameObjects.Text;
+  /** Speed button label */
+  private speedButton!: Phaser.GameObjects.Text;
+  /** Frame counter, shown once playback has started */
+  private frameText?: Phaser.GameObjects.Text;
+  /** Whether the end of the replay is shown */
+  private finishedShown: boolean = false;
+
+  /**
+   * Create a new ReplayScene instance
+   * Initializes the scene with the REPLAY key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.REPLAY });
+  }
+
+  /**
+   * Initialize phase - receive the recording to play
+   * @param data - Recording and the scene to return to
+   */
+  init(data: ReplaySceneData): void {
+    this.replayData = data;
+    this.paused = false;
+    this.speed = 1;
+    this.finishedShown = false;
+    this.frameText = undefined;
+  }
+
+  /**
+   * Create phase - start the game scene underneath and set up the controls
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+    this.input.keyboard?.on('keydown-ESC', () => this.exit());
+
+    const errors = validateReplay(this.replayData.replay);
+    if (errors.length > 0) {
+      console.error('❌ Replay can\'t be played:', errors);
+      this.showMessage('This replay can\'t be played', errors.join('\n'));
+      return;
+    }
+
+    this.gameScene = this.scene.get(SceneKeys.GAME) as GameScene;
+    this.scene.launch(SceneKeys.GAME, getGameSceneData(this.replayData.replay));
+    this.scene.bringToTop();
+
+    this.createReplayLabel();
+    this.createControls();
+    this.input.keyboard?.on('keydown-SPACE', () => this.togglePause());
+    this.input.keyboard?.on('keydown-F', () => this.toggleSpeed());
+    this.input.keyboard?.on('keydown-RIGHT', () => this.step());
+  }
+
+  /**
+   * Update phase - keep the frame counter current and show the end of the replay
+   */
+  update(): void {
+    if (!this.frameText) return;
+
+    const progress = this.gameScene.getReplayProgress();
+    this.frameText.setText(`Frame ${progress.frame} / ${progress.frameCount}`);
+
+    if (progress.finished && !this.finishedShown) {
+      this.finishedShown = true;
+      this.showFinished();
+    }
+  }
+
+  /**
+   * Create the label showing that a replay is playing
+   */
+  private createReplayLabel(): void {
+    this.add.text(this.cameras.main.width / 2, 32, '● REPLAY', {
+      font: 'bold 24px Arial',
+      color: REPLAY_LABEL_COLOR
+    }).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 2);
+  }
+
+  /**
+   * Create the playback controls along the bottom of the screen
+   */
+  private createControls(): void {
+    const y = this.cameras.main.height - CONTROLS_Y_OFFSET;
+
+    this.pauseButton = this.createButton(60, y, 'PAUSE', () => this.togglePause());
+    this.speedButton = this.createButton(150, y, `${FAST_SPEED}X`, () => this.toggleSpeed());
+    this.createButton(225, y, 'STEP', () => this.step());
+    this.createButton(this.cameras.main.width - 60, y, 'EXIT', () => this.exit());
+
+    this.frameText = this.add.text(this.cameras.main.width / 2, y, '', {
+      font: CONTROLS_FONT,
+      color: '#ffffff'
+    }).setOrigin(0.5)
+      .setShadow(1, 1, '#000000', 1);
+  }
+
+  /**
+   * Create a single control button
+   * @returns The button, so its label can be changed
+   */
+  private createButton(x: number, y: number, label: string, clickHandler: () => void): Phaser.GameObjects.Text {
+    const button = this.add.text(x, y, label, {
+      font: CONTROLS_FONT,
+      color: '#ffffff',
+      backgroundColor: CONTROLS_BACKGROUND,
+      padding: CONTROLS_PADDING
+    }).setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+
+    button.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      clickHandler();
+    });
+    return button;
+  }
+
+  /**
+   * Pause or resume playback
+   */
+  private togglePause(): void {
+    if (this.finishedShown) return;
+
+    this.paused = !this.paused;
+    this.gameScene.setReplayPaused(this.paused);
+    this.pauseButton.setText(this.paused ? 'PLAY' : 'PAUSE');
+  }
+
+  /**
+   * Switch between normal and double speed
+   */
+  private toggleSpeed(): void {
+    this.speed = this.speed === 1 ? FAST_SPEED : 1;
+    this.gameScene.setReplaySpeed(this.speed);
+    this.speedButton.setText(this.speed === 1 ? `${FAST_SPEED}X` : '1X');
+  }
+
+  /**
+   * Play a single frame, pausing playback first if it is running
+   */
+  private step(): void {
+    if (this.finishedShown) return;
+
+    if (!this.paused) {
+      this.togglePause();
+      return;
+    }
+    this.gameScene.stepReplayFrame();
+  }
+
+  /**
+   * Show that the run has ended, with buttons to watch it again or leave
+   */
+  private showFinished(): void {
+    this.showMessage('REPLAY FINISHED');
+
+    const { width, height } = this.cameras.main;
+    this.createButton(width / 2 - 90, height / 2 + 60, 'WATCH AGAIN', () => this.watchAgain());
+    this.createButton(width / 2 + 90, height / 2 + 60, 'EXIT', () => this.exit());
+  }
+
+  /**
+   * Dim the screen and show a message in the middle of it
+   * The overlay is interactive so clicks don't reach the game scene below
+   * @param title - Large text to show
+   * @param detail - Smaller text to show below the title
+   */
+  private showMessage(title: string, detail?: string): void {
+    const { width, height } = this.cameras.main;
+
+    this.add.rectangle(0, 0, width, height, 0x000000, OVERLAY_ALPHA)
+      .setOrigin(0)
+      .setInteractive();
+
+    this.add.text(width / 2, height / 2 - 40, title, {
+      font: '40px Arial',
+      color: '#ffffff'
+    }).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 3);
+
+    if (detail) {
+      this.add.text(width / 2, height / 2 + 10, detail, {
+        font: '18px Arial',
+        color: '#ffffff',
+        align: 'center'
+      }).setOrigin(0.5, 0);
+      this.createButton(width / 2, height - 60, 'EXIT', () => this.exit());
+    }
+  }
+
+  /**
+   * Play the recording again from the start
+   */
+  private watchAgain(): void {
+    this.scene.stop(SceneKeys.GAME);
+    this.scene.restart(this.replayData);
+  }
+
+  /**
+   * Stop the replay and go back to the scene it was opened from
+   */
+  private exit(): void {
+    this.sound.stopAll();
+    this.scene.stop(SceneKeys.GAME);
+    this.scene.start(this.replayData.returnScene ?? SceneKeys.MENU, this.replayData.returnData);
+  }
+}
+
+/**
+ * Get the game scene data that rebuilds the level a replay was recorded on
+ */
+function getGameSceneData(replay: Replay): GameSceneData {
+  const seed = replay.seed ?? undefined;
+
+  if (replay.mode === GameMode.ENDLESS) {
+    return { mode: GameMode.ENDLESS, seed, replay };
+  }
+  return seed !== undefined
+    ? { seed, campaign: replay.campaign, replay }
+    : { levelId: replay.levelId, campaign: replay.campaign, replay };
+}
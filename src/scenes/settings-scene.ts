@@ -0,0 +1,359 @@
+/**
+ * @fileoverview Settings scene for the Antzer game
+ * Lets the player choose the keys that move the ant, from a preset or one direction at a time,
+ * and the touch controls used on touch devices (which controls, where the buttons sit, and how
+ * big they are), and saves them for every later game
+ */
+
+import Phaser from "phaser";
+import { AudioKeys, Direction, ImageKeys, SceneKeys } from "../config/constants";
+import { TouchControls } from "../game/input-manager";
+import { TouchButtonSize, TouchLayout } from "../game/mobile-controls";
+import {
+  BINDING_DIRECTIONS,
+  bindKey,
+  copyKeyBindings,
+  formatKeys,
+  getPresetName,
+  KEY_BINDING_PRESETS,
+  KeyBindings,
+  MAX_KEYS_PER_DIRECTION,
+  RESERVED_KEYS
+} from "../game/key-bindings";
+import { AudioManager } from "../utils/audio-manager";
+import { GameSettings, SettingsStore } from "../utils/settings-store";
+
+const TITLE_Y = 40;
+const CONTROLS_HEADING_Y = 95;
+const PRESETS_Y = 140;
+const PRESET_SPACING = 180;
+const BINDINGS_TOP = 190;
+const BINDING_SPACING = 46;
+const HINT_Y = 372;
+const TOUCH_TOP = 415;
+const TOUCH_ROW_SPACING = 45;
+const TOUCH_OPTION_SPACING = 140;
+const BUTTON_HEIGHT = 40;
+const SELECTED_COLOR = '#ffd700';
+const TEXT_COLOR = '#ffffff';
+const HINT_COLOR = '#cccccc';
+const DEFAULT_HINT = `Click a direction, then press a key to add it (up to ${MAX_KEYS_PER_DIRECTION} each)`;
+
+/** Touch settings chosen from a row of buttons */
+type TouchSetting = Extract<keyof GameSettings, 'touchControls' | 'touchLayout' | 'touchButtonSize'>;
+
+/** Rows of touch settings, in the order they are shown, with the label of each option */
+const TOUCH_SETTING_ROWS: { setting: TouchSetting; label: string; options: { value: GameSettings[TouchSetting]; label: string }[] }[] = [
+  {
+    setting: 'touchControls',
+    label: 'TOUCH',
+    options: [
+      { value: TouchControls.DPAD, label: 'D-PAD' },
+      { value: TouchControls.SWIPES, label: 'SWIPES' },
+      { value: TouchControls.BOTH, label: 'BOTH' }
+    ]
+  },
+  {
+    setting: 'touchLayout',
+    label: 'LAYOUT',
+    options: [
+      { value: TouchLayout.LEFT_HANDED, label: 'LEFT HAND' },
+      { value: TouchLayout.SPLIT, label: 'SPLIT' },
+      { value: TouchLayout.RIGHT_HANDED, label: 'RIGHT HAND' }
+    ]
+  },
+  {
+    setting: 'touchButtonSize',
+    label: 'SIZE',
+    options: [
+      { value: TouchButtonSize.SMALL, label: 'SMALL' },
+      { value: TouchButtonSize.MEDIUM, label: 'MEDIUM' },
+      { value: TouchButtonSize.LARGE, label: 'LARGE' }
+    ]
+  }
+];
+
+/**
+ * SettingsScene class - lets the player remap the movement keys
+ *
+ * This scene provides:
+ * - Preset buttons for arrow keys, WASD, and vim keys (H J K L)
+ * - A button for each direction showing its keys; click one, then press a key to add it
+ * - Escape to cancel a key being chosen, or to return to the main menu
+ * - Touch control buttons for the direction buttons, swipes, or both, and for the layout and
+ *   size of the direction buttons
+ * - Back button to return to the main menu
+ *
+ * Settings are saved as soon as they change, and used by the next game started.
+ *
+ * **Scene Flow:**
+ * MenuScene → **SettingsScene** → MenuScene
+ */
+export class SettingsScene extends Phaser.Scene {
+  /** Audio manager for handling sound effects */
+  private audioManager!: AudioManager;
+  /** Saved settings, including the key bindings */
+  private settingsStore!: SettingsStore;
+  /** Bindings currently shown */
+  private bindings!: KeyBindings;
+  /** Direction waiting for a key press, if any */
+  private listeningDirection?: Direction;
+  /** Label of each preset button */
+  private presetLabels: Phaser.GameObjects.Text[] = [];
+  /** Label of each direction's button, showing its keys */
+  private bindingLabels = new Map<Direction, Phaser.GameObjects.Text>();
+  /** Line under the bindings explaining what to do */
+  private hintText!: Phaser.GameObjects.Text;
+  /** Label of each touch setting option's button, with the setting and value it chooses */
+  private touchLabels: { setting: TouchSetting; value: GameSettings[TouchSetting]; label: Phaser.GameObjects.Text }[] = [];
+
+  /**
+   * Create a new SettingsScene instance
+   * Initializes the scene with the SETTINGS key for scene management
+   */
+  constructor() {
+    super({ key: SceneKeys.SETTINGS });
+  }
+
+  /**
+   * Create phase - show the presets, the bindings, and the back button
+   */
+  create(): void {
+    this.audioManager = new AudioManager(this);
+    this.settingsStore = new SettingsStore();
+    this.bindings = this.settingsStore.getSettings().keyBindings;
+    this.listeningDirection = undefined;
+    this.presetLabels = [];
+    this.bindingLabels = new Map();
+    this.touchLabels = [];
+
+    this.createBackground();
+    this.createTitle();
+    this.createPresetButtons();
+    this.createBindingButtons();
+    this.createTouchButtons();
+    this.createBackButton();
+    this.hintText = this.add.text(this.cameras.main.width / 2, HINT_Y, DEFAULT_HINT, {
+      font: '18px Arial',
+      color: HINT_COLOR
+    }).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 2);
+    this.refresh();
+
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => this.handleKey(event));
+  }
+
+  /**
+   * Create the dimmed background image
+   */
+  private createBackground(): void {
+    this.add.image(0, 0, ImageKeys.BACKGROUND)
+      .setOrigin(0)
+      .setDisplaySize(this.cameras.main.width, this.cameras.main.height)
+      .setTint(0x888888);
+  }
+
+  /**
+   * Create the scene title and the controls heading
+   */
+  private createTitle(): void {
+    this.add.text(this.cameras.main.width / 2, TITLE_Y, 'SETTINGS', {
+      font: '48px Arial',
+      color: TEXT_COLOR
+    }).setOrigin(0.5)
+      .setShadow(3, 3, '#000000', 5);
+
+    this.add.text(this.cameras.main.width / 2, CONTROLS_HEADING_Y, 'CONTROLS', {
+      font: 'bold 28px Arial',
+      color: SELECTED_COLOR
+    }).setOrigin(0.5)
+      .setShadow(2, 2, '#000000', 2);
+  }
+
+  /**
+   * Create a button for each preset, side by side
+   */
+  private createPresetButtons(): void {
+    const firstX = this.cameras.main.width / 2 - PRESET_SPACING * (KEY_BINDING_PRESETS.length - 1) / 2;
+
+    KEY_BINDING_PRESETS.forEach((preset, index) => {
+      const label = this.createButton(firstX + index * PRESET_SPACING, PRESETS_Y, 160, preset.name, () => {
+        this.saveBindings(copyKeyBindings(preset.bindings));
+      });
+      this.presetLabels.push(label);
+    });
+  }
+
+  /**
+   * Create a row for each direction: its name, and a button showing its keys
+   */
+  private createBindingButtons(): void {
+    const centerX = this.cameras.main.width / 2;
+
+    BINDING_DIRECTIONS.forEach((direction, index) => {
+      const y = BINDINGS_TOP + index * BINDING_SPACING;
+
+      this.add.text(centerX - 120, y, direction.toUpperCase(), {
+        font: 'bold 22px Arial',
+        color: TEXT_COLOR
+      }).setOrigin(1, 0.5)
+        .setShadow(2, 2, '#000000', 2);
+
+      const label = this.createButton(centerX + 60, y, 250, '', () => this.listenForKey(direction));
+      this.bindingLabels.set(direction, label);
+    });
+  }
+
+  /**
+   * Create a row of buttons for each touch setting, one button per option
+   */
+  private createTouchButtons(): void {
+    const centerX = this.cameras.main.width / 2;
+
+    TOUCH_SETTING_ROWS.forEach(({ setting, label, options }, rowIndex) => {
+      const y = TOUCH_TOP + rowIndex * TOUCH_ROW_SPACING;
+
+      this.add.text(centerX - 170, y, label, {
+        font: 'bold 22px Arial',
+        color: TEXT_COLOR
+      }).setOrigin(1, 0.5)
+        .setShadow(2, 2, '#000000', 2);
+
+      options.forEach((option, index) => {
+        const button = this.createButton(centerX - 90 + index * TOUCH_OPTION_SPACING, y, 130, option.label, () => {
+          this.settingsStore.updateSettings({ [setting]: option.value });
+          this.refresh();
+        });
+        this.touchLabels.push({ setting, value: option.value, label: button });
+      });
+    });
+  }
+
+  /**
+   * Create the button that returns to the main menu
+   */
+  private createBackButton(): void {
+    this.createButton(this.cameras.main.width / 2, this.cameras.main.height - 30, 200, 'BACK', () => this.close());
+  }
+
+  /**
+   * Create a single button with its label
+   * @param x - Horizontal center of the button
+   * @param y - Vertical center of the button
+   * @param width - Width of the button
+   * @param text - Text shown on the button
+   * @param clickHandler - Function to call when the button is clicked
+   * @returns The button's label
+   */
+  private createButton(x: number, y: number, width: number, text: string, clickHandler: () => void): Phaser.GameObjects.Text {
+    const button = this.add.image(x, y, ImageKeys.BUTTON)
+      .setOrigin(0.5)
+      .setDisplaySize(width, BUTTON_HEIGHT)
+      .setInteractive({ useHandCursor: true });
+
+    const label = this.add.text(x, y, text, {
+      font: '18px Arial',
+      color: TEXT_COLOR
+    }).setOrigin(0.5);
+
+    button.on('pointerover', () => button.setTint(0xcccccc));
+    button.on('pointerout', () => button.clearTint());
+    button.on('pointerdown', () => {
+      this.audioManager.play(AudioKeys.SFX_BUTTON);
+      clickHandler();
+    });
+
+    return label;
+  }
+
+  /**
+   * Wait for the next key press, to bind it to a direction
+   * @param direction - The direction the key will move the ant in
+   */
+  private listenForKey(direction: Direction): void {
+    this.listeningDirection = direction;
+    this.refresh();
+  }
+
+  /**
+   * Bind the key pressed to the direction waiting for one, or leave on Escape
+   * @param event - The key press
+   */
+  private handleKey(event: KeyboardEvent): void {
+    const keyName = getKeyName(event.keyCode);
+
+    if (this.listeningDirection === undefined) {
+      if (keyName === 'ESC') this.close();
+      return;
+    }
+
+    if (keyName === 'ESC') {
+      this.listeningDirection = undefined;
+      this.refresh();
+      return;
+    }
+
+    if (!keyName || RESERVED_KEYS.includes(keyName)) {
+      this.hintText.setText(`${keyName ?? 'That key'} can't move the ant - press another key`);
+      return;
+    }
+
+    const direction = this.listeningDirection;
+    this.listeningDirection = undefined;
+    this.saveBindings(bindKey(this.bindings, direction, keyName));
+  }
+
+  /**
+   * Save new bindings and show them
+   * @param bindings - The bindings to save
+   */
+  private saveBindings(bindings: KeyBindings): void {
+    this.bindings = bindings;
+    this.settingsStore.updateSettings({ keyBindings: bindings });
+    this.refresh();
+  }
+
+  /**
+   * Show the current bindings, the preset they match, the direction waiting for a key, and
+   * the touch settings chosen
+   */
+  private refresh(): void {
+    const presetName = getPresetName(this.bindings);
+    this.presetLabels.forEach(label => {
+      label.setColor(label.text === presetName ? SELECTED_COLOR : TEXT_COLOR);
+    });
+
+    this.bindingLabels.forEach((label, direction) => {
+      const listening = direction === this.listeningDirection;
+      label.setText(listening ? 'PRESS A KEY...' : formatKeys(this.bindings[direction]));
+      label.setColor(listening ? SELECTED_COLOR : TEXT_COLOR);
+    });
+
+    const settings = this.settingsStore.getSettings();
+    this.touchLabels.forEach(({ setting, value, label }) => {
+      label.setColor(settings[setting] === value ? SELECTED_COLOR : TEXT_COLOR);
+    });
+
+    this.hintText.setText(
+      this.listeningDirection === undefined
+        ? DEFAULT_HINT
+        : `Press a key for ${this.listeningDirection.toUpperCase()} (Esc cancels)`
+    );
+  }
+
+  /**
+   * Return to the main menu
+   */
+  private close(): void {
+    this.scene.start(SceneKeys.MENU);
+  }
+}
+
+/**
+ * Get the name of a key from its key code, as used in key bindings
+ * @returns The key name, or undefined for keys the game doesn't know
+ */
+function getKeyName(keyCode: number): string | undefined {
+  const keyCodes = Phaser.Input.Keyboard.KeyCodes as unknown as Record<string, number>;
+  return Object.keys(keyCodes).find(name => keyCodes[name] === keyCode);
+}
@@ -1,11 +1,18 @@
 import Phaser from 'phaser';
+import { AudioKeys } from '../config/constants';
+import { GameSettings, SettingsStore } from './settings-store';
+
+/** Sounds switched by the music setting; every other sound is a sound effect */
+const MUSIC_KEYS: readonly string[] = [AudioKeys.MUSIC_GAME, AudioKeys.MUSIC_MENU];
 
 export class AudioManager {
   private scene: Phaser.Scene;
   private soundCache: Map<string, Phaser.Sound.BaseSound | null> = new Map();
+  private settings: GameSettings;
   
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.settings = new SettingsStore().getSettings();
   }
 
   /**
@@ -21,6 +28,7 @@ export class AudioManager {
       // Try to create the sound
       const sound = this.scene.sound.add(key, config);
       this.soundCache.set(key, sound);
+      this.applyMute(sound);
       return sound;
     } catch (error) {
       return this.createDummySound();
@@ -65,6 +73,69 @@ export class AudioManager {
     }
   }
 
+  /**
+   * Safely pauses a sound so it can be resumed where it left off
+   */
+  pause(key: string): void {
+    try {
+      const sound = this.soundCache.get(key);
+      if (sound && sound.isPlaying) {
+        sound.pause();
+      }
+    } catch (error) {
+      // Failed to pause sound - continue silently
+    }
+  }
+
+  /**
+   * Safely resumes a paused sound
+   */
+  resume(key: string): void {
+    try {
+      const sound = this.soundCache.get(key);
+      if (sound && sound.isPaused) {
+        sound.resume();
+      }
+    } catch (error) {
+      // Failed to resume sound - continue silently
+    }
+  }
+
+  /**
+   * Safely mutes or unmutes every sound in the game, without changing the saved settings
+   */
+  setMuted(muted: boolean): void {
+    try {
+      this.scene.sound.setMute(muted);
+    } catch (error) {
+      // Failed to mute sounds - continue silently
+    }
+  }
+
+  /**
+   * Applies new music and sound effect settings to every sound in the game,
+   * including sounds added by other scenes
+   */
+  applySettings(settings: GameSettings): void {
+    this.settings = { ...settings };
+
+    try {
+      Object.values(AudioKeys).forEach(key => {
+        this.scene.sound.getAll(key).forEach(sound => this.applyMute(sound));
+      });
+    } catch (error) {
+      // Failed to update sounds - continue silently
+    }
+  }
+
+  /**
+   * Mutes a sound when its music or sound effect setting is switched off
+   */
+  private applyMute(sound: Phaser.Sound.BaseSound): void {
+    const enabled = MUSIC_KEYS.includes(sound.key) ? this.settings.musicEnabled : this.settings.soundEnabled;
+    (sound as Phaser.Sound.WebAudioSound | Phaser.Sound.HTML5AudioSound).setMute(!enabled);
+  }
+
   /**
    * Creates a dummy sound object that implements the BaseSound interface
    * but doesn't do anything when methods are called
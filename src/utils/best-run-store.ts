@@ -0,0 +1,94 @@
+import { GhostSplit, GhostTrack } from '../game/ghost-track';
+import { Replay } from '../game/replay';
+
+const STORAGE_KEY = 'antzer-best-runs';
+const BEST_RUNS_VERSION = 6;
+
+/**
+ * The fastest completion of a level, kept to race against as a ghost
+ */
+export interface BestRun {
+  /** Level time in milliseconds */
+  timeMs: number;
+  /** Path the ant took, drawn as the ghost */
+  track: GhostTrack;
+  /** Times the run first reached each checkpoint row */
+  splits: GhostSplit[];
+  /** Recording of the run */
+  replay: Replay;
+}
+
+/**
+ * Best runs persisted between sessions
+ */
+interface BestRunData {
+  /** Schema version of the stored data */
+  version: number;
+  /** Best runs keyed by level id */
+  runs: Record<string, BestRun>;
+}
+
+/**
+ * Persists the fastest completion of each level in localStorage
+ * Storage failures are ignored; best runs are then kept for the session only
+ */
+export class BestRunStore {
+  private data: BestRunData;
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  /**
+   * Get the fastest completion of a level
+   * @returns The best run, or undefined if the level has never been completed
+   */
+  getBestRun(levelId: string): BestRun | undefined {
+    return this.data.runs[levelId];
+  }
+
+  /**
+   * Record a completion of a level, keeping it if it is the fastest so far
+   * @returns True if the run is the level's new best
+   */
+  recordRun(levelId: string, run: BestRun): boolean {
+    const existing = this.data.runs[levelId];
+    if (existing && existing.timeMs <= run.timeMs) return false;
+
+    this.data.runs[levelId] = run;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Safely loads best runs from localStorage
+   */
+  private load(): BestRunData {
+    const emptyBestRuns: BestRunData = { version: BEST_RUNS_VERSION, runs: {} };
+
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (!stored) return emptyBestRuns;
+
+      const parsed = JSON.parse(stored) as Partial<BestRunData>;
+      if (parsed.version !== BEST_RUNS_VERSION || typeof parsed.runs !== 'object' || parsed.runs === null) {
+        return emptyBestRuns;
+      }
+
+      return { version: BEST_RUNS_VERSION, runs: parsed.runs };
+    } catch (error) {
+      return emptyBestRuns;
+    }
+  }
+
+  /**
+   * Safely saves best runs to localStorage
+   */
+  private save(): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      // Storage unavailable - keep best runs in memory only
+    }
+  }
+}
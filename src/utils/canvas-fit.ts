@@ -0,0 +1,54 @@
+/** Share of the window the canvas may take up, leaving a margin around it */
+const WINDOW_SHARE = 0.95;
+/** Largest the canvas is ever drawn */
+const MAX_CANVAS_WIDTH = 1600;
+const MAX_CANVAS_HEIGHT = 1200;
+
+/**
+ * Size of the canvas on the page, in CSS pixels
+ */
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Get the size to draw the canvas at in a window, keeping the game's aspect ratio
+ * The canvas is centered in the window, so the space left around it is letterbox
+ * @param windowWidth - Width of the browser window
+ * @param windowHeight - Height of the browser window
+ * @param gameWidth - Width of the game in game pixels
+ * @param gameHeight - Height of the game in game pixels
+ * @returns The canvas size, fitted to the window
+ */
+export function fitCanvas(windowWidth: number, windowHeight: number, gameWidth: number, gameHeight: number): CanvasSize {
+  const windowRatio = windowWidth / windowHeight;
+  const gameRatio = gameWidth / gameHeight;
+
+  // Calculate optimal size while maintaining aspect ratio
+  let width: number;
+  let height: number;
+
+  if (windowRatio > gameRatio) {
+    // Window is wider than game - fit to height and center horizontally
+    height = Math.min(windowHeight * WINDOW_SHARE, MAX_CANVAS_HEIGHT);
+    width = height * gameRatio;
+  } else {
+    // Window is taller than game - fit to width and center vertically
+    width = Math.min(windowWidth * WINDOW_SHARE, MAX_CANVAS_WIDTH);
+    height = width / gameRatio;
+  }
+
+  // Ensure we don't exceed viewport bounds
+  if (width > windowWidth * WINDOW_SHARE) {
+    width = windowWidth * WINDOW_SHARE;
+    height = width / gameRatio;
+  }
+
+  if (height > windowHeight * WINDOW_SHARE) {
+    height = windowHeight * WINDOW_SHARE;
+    width = height * gameRatio;
+  }
+
+  return { width: Math.round(width), height: Math.round(height) };
+}
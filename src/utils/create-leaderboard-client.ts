@@ -0,0 +1,16 @@
+import { HttpLeaderboardClient } from './http-leaderboard-client';
+import { LeaderboardClient } from './leaderboard-client';
+import { LocalLeaderboardClient } from './local-leaderboard-client';
+
+/** URL parameter naming the leaderboard server, e.g. `?leaderboard=http://localhost:3001` */
+const LEADERBOARD_URL_PARAM = 'leaderboard';
+
+/**
+ * Create the leaderboard client for this session
+ * Talks to the server given in the page URL, or keeps a leaderboard in localStorage when there is none
+ */
+export function createLeaderboardClient(): LeaderboardClient {
+  const serverUrl = new URLSearchParams(window.location.search).get(LEADERBOARD_URL_PARAM);
+
+  return serverUrl ? new HttpLeaderboardClient(serverUrl) : new LocalLeaderboardClient(true);
+}
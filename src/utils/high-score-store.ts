@@ -0,0 +1,184 @@
+import { GameMode } from '../config/constants';
+
+const STORAGE_KEY = 'antzer-high-scores';
+const HIGH_SCORES_VERSION = 1;
+
+/** Entries kept on each board */
+export const MAX_HIGH_SCORES = 10;
+/** Letters in a player's initials */
+export const INITIALS_LENGTH = 3;
+
+/**
+ * A finished run, before initials are entered
+ */
+export interface HighScoreResult {
+  /** Final score */
+  score: number;
+  /** Run time in milliseconds */
+  timeMs: number;
+  /** Whether the run reached the ant hill */
+  won: boolean;
+}
+
+/**
+ * A run recorded on a high-score board
+ */
+export interface HighScoreEntry extends HighScoreResult {
+  /** Player's initials */
+  initials: string;
+  /** When the run was recorded, in milliseconds since the epoch */
+  recordedAt: number;
+}
+
+/**
+ * A high-score board - one per level and mode
+ */
+export interface HighScoreBoard {
+  /** Key the board is stored under */
+  id: string;
+  /** Name shown above the board */
+  name: string;
+}
+
+/**
+ * Stored entries for a single board
+ */
+interface HighScoreTable {
+  name: string;
+  entries: HighScoreEntry[];
+}
+
+/**
+ * High scores persisted between sessions
+ */
+interface HighScoreData {
+  /** Schema version of the stored data */
+  version: number;
+  /** Tables keyed by board id */
+  tables: Record<string, HighScoreTable>;
+}
+
+/**
+ * Get the board for a level played in a mode
+ * @param mode - Mode the level was played in
+ * @param levelId - Id of the level
+ * @param name - Name shown above the board
+ */
+export function getHighScoreBoard(mode: GameMode, levelId: string, name: string): HighScoreBoard {
+  return { id: `${mode}:${levelId}`, name };
+}
+
+/**
+ * Order two results on a board
+ * Wins rank above losses; wins are ranked by time (fastest first) and everything else by score
+ * @returns A negative number if `a` ranks above `b`
+ */
+export function compareHighScores(a: HighScoreResult, b: HighScoreResult): number {
+  if (a.won !== b.won) {
+    return a.won ? -1 : 1;
+  }
+
+  return a.won
+    ? a.timeMs - b.timeMs || b.score - a.score
+    : b.score - a.score || a.timeMs - b.timeMs;
+}
+
+/**
+ * Persists the top runs of every level and mode in localStorage
+ * Storage failures are ignored so the game stays playable with in-memory high scores only
+ */
+export class HighScoreStore {
+  private data: HighScoreData;
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  /**
+   * Get every board that has entries
+   */
+  getBoards(): HighScoreBoard[] {
+    return Object.entries(this.data.tables).map(([id, table]) => ({ id, name: table.name }));
+  }
+
+  /**
+   * Get a board's entries, best first
+   */
+  getEntries(boardId: string): readonly HighScoreEntry[] {
+    return this.data.tables[boardId]?.entries ?? [];
+  }
+
+  /**
+   * Get the rank a result would take on a board
+   * @returns The 1-based rank, or null if the result doesn't make the board
+   */
+  getRank(boardId: string, result: HighScoreResult): number | null {
+    const entries = this.getEntries(boardId);
+    const index = entries.findIndex(entry => compareHighScores(result, entry) < 0);
+    const rank = (index === -1 ? entries.length : index) + 1;
+
+    return rank <= MAX_HIGH_SCORES ? rank : null;
+  }
+
+  /**
+   * Record a run on a board, dropping entries that fall off the bottom
+   * @param board - Board the run was played on
+   * @param result - The finished run
+   * @param initials - Player's initials
+   * @returns The 1-based rank of the new entry, or null if it didn't make the board
+   */
+  addEntry(board: HighScoreBoard, result: HighScoreResult, initials: string): number | null {
+    const rank = this.getRank(board.id, result);
+    if (rank === null) return null;
+
+    const entries = [...this.getEntries(board.id)];
+    entries.splice(rank - 1, 0, { ...result, initials, recordedAt: Date.now() });
+
+    this.data.tables[board.id] = { name: board.name, entries: entries.slice(0, MAX_HIGH_SCORES) };
+    this.save();
+    return rank;
+  }
+
+  /**
+   * Safely loads high scores from localStorage, upgrading older schema versions
+   */
+  private load(): HighScoreData {
+    const emptyHighScores: HighScoreData = { version: HIGH_SCORES_VERSION, tables: {} };
+
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (!stored) return emptyHighScores;
+
+      return migrate(JSON.parse(stored)) ?? emptyHighScores;
+    } catch (error) {
+      return emptyHighScores;
+    }
+  }
+
+  /**
+   * Safely saves high scores to localStorage
+   */
+  private save(): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      // Storage unavailable - keep high scores in memory only
+    }
+  }
+}
+
+/**
+ * Bring stored high scores up to the current schema version
+ * Add a case for each old version when the schema changes
+ * @returns The upgraded data, or null if it can't be read
+ */
+function migrate(stored: Partial<HighScoreData>): HighScoreData | null {
+  switch (stored.version) {
+    case HIGH_SCORES_VERSION:
+      return typeof stored.tables === 'object' && stored.tables !== null
+        ? { version: HIGH_SCORES_VERSION, tables: stored.tables }
+        : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,93 @@
+import { LeaderboardClient, LeaderboardEntry, LeaderboardError, LeaderboardRun } from './leaderboard-client';
+
+/** Time to wait for the leaderboard server before giving up */
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Leaderboard client for a leaderboard server over HTTP
+ *
+ * Endpoints, relative to the server's base URL:
+ * - `POST /boards/:boardId/runs` with a run as JSON → `{ entry }`
+ * - `GET /boards/:boardId/top?limit=N` → `{ entries }`
+ * - `GET /boards/:boardId/players/:playerId/around?radius=N` → `{ entries }`
+ *
+ * Errors are answered with a non-2xx status and `{ errors: string[] }`.
+ */
+export class HttpLeaderboardClient implements LeaderboardClient {
+  private baseUrl: string;
+
+  /**
+   * @param baseUrl - Base URL of the leaderboard server
+   */
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Submit a finished run
+   */
+  async submit(run: LeaderboardRun): Promise<LeaderboardEntry> {
+    const { entry } = await this.request<{ entry: LeaderboardEntry }>(
+      `/boards/${encodeURIComponent(run.boardId)}/runs`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(run)
+      }
+    );
+    return entry;
+  }
+
+  /**
+   * Get the best entries on a board
+   */
+  async getTop(boardId: string, limit: number): Promise<LeaderboardEntry[]> {
+    const { entries } = await this.request<{ entries: LeaderboardEntry[] }>(
+      `/boards/${encodeURIComponent(boardId)}/top?limit=${limit}`
+    );
+    return entries;
+  }
+
+  /**
+   * Get the entries around a player's entry on a board
+   */
+  async getAroundPlayer(boardId: string, playerId: string, radius: number): Promise<LeaderboardEntry[]> {
+    const { entries } = await this.request<{ entries: LeaderboardEntry[] }>(
+      `/boards/${encodeURIComponent(boardId)}/players/${encodeURIComponent(playerId)}/around?radius=${radius}`
+    );
+    return entries;
+  }
+
+  /**
+   * Send a request to the server and parse its JSON answer
+   * Network failures and timeouts become `offline` errors; error answers become `server` errors
+   */
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      throw new LeaderboardError('No internet connection', 'offline');
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, { ...init, signal: controller.signal });
+    } catch (error) {
+      throw new LeaderboardError('Could not reach the leaderboard', 'offline');
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const errors: string[] = Array.isArray(body.errors) ? body.errors : [];
+      throw new LeaderboardError(
+        errors.length > 0 ? errors.join(', ') : `Leaderboard error (${response.status})`,
+        'server'
+      );
+    }
+
+    return body as T;
+  }
+}
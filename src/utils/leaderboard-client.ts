@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Leaderboard service interface for the Antzer game
+ * Describes the runs submitted to a shared leaderboard and the queries a leaderboard answers,
+ * so the game can talk to an HTTP server or to a local stand-in through the same client
+ */
+
+import { HighScoreResult, INITIALS_LENGTH } from './high-score-store';
+
+/**
+ * A finished run submitted to the leaderboard
+ */
+export interface LeaderboardRun extends HighScoreResult {
+  /** High-score board the run was played on (one per level and mode) */
+  boardId: string;
+  /** Name shown above the board */
+  boardName: string;
+  /** Anonymous id of the player who submitted the run */
+  playerId: string;
+  /** Player's initials */
+  initials: string;
+  /** Hash of the run's replay, so the run can be checked against it (null when no replay was recorded) */
+  replayHash: string | null;
+}
+
+/**
+ * A run on the leaderboard
+ */
+export interface LeaderboardEntry extends LeaderboardRun {
+  /** 1-based position on the board */
+  rank: number;
+  /** When the run was submitted, in milliseconds since the epoch */
+  submittedAt: number;
+}
+
+/**
+ * Why a leaderboard request failed
+ * - `offline`: the leaderboard couldn't be reached (no connection, timeout, server down)
+ * - `server`: the leaderboard answered with an error or rejected the run
+ */
+export type LeaderboardErrorKind = 'offline' | 'server';
+
+/**
+ * Error thrown by leaderboard clients
+ */
+export class LeaderboardError extends Error {
+  readonly kind: LeaderboardErrorKind;
+
+  constructor(message: string, kind: LeaderboardErrorKind) {
+    super(message);
+    this.name = 'LeaderboardError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Leaderboard service. Each player keeps their best run on each board, ranked like the
+ * local high scores: wins by time, everything else by score
+ */
+export interface LeaderboardClient {
+  /**
+   * Submit a finished run
+   * @returns The player's entry on the board after the submission
+   */
+  submit(run: LeaderboardRun): Promise<LeaderboardEntry>;
+
+  /**
+   * Get the best entries on a board
+   * @param limit - Most entries to return
+   */
+  getTop(boardId: string, limit: number): Promise<LeaderboardEntry[]>;
+
+  /**
+   * Get the entries around a player's entry on a board
+   * @param radius - Entries to return above and below the player's entry
+   * @returns The entries, or an empty list if the player has no entry on the board
+   */
+  getAroundPlayer(boardId: string, playerId: string, radius: number): Promise<LeaderboardEntry[]>;
+}
+
+/**
+ * Check a submitted run
+ * @returns Array of error messages (empty if the run is valid)
+ */
+export function validateLeaderboardRun(run: Partial<LeaderboardRun>): string[] {
+  const errors: string[] = [];
+
+  if (typeof run.boardId !== 'string' || run.boardId.length === 0) {
+    errors.push('boardId must be a non-empty string');
+  }
+  if (typeof run.boardName !== 'string') {
+    errors.push('boardName must be a string');
+  }
+  if (typeof run.playerId !== 'string' || run.playerId.length === 0) {
+    errors.push('playerId must be a non-empty string');
+  }
+  if (typeof run.initials !== 'string' || !new RegExp(`^[A-Z]{${INITIALS_LENGTH}}$`).test(run.initials)) {
+    errors.push(`initials must be ${INITIALS_LENGTH} capital letters`);
+  }
+  if (!Number.isInteger(run.score) || (run.score as number) < 0) {
+    errors.push('score must be a whole number of 0 or more');
+  }
+  if (typeof run.timeMs !== 'number' || !Number.isFinite(run.timeMs) || run.timeMs < 0) {
+    errors.push('timeMs must be a number of 0 or more');
+  }
+  if (typeof run.won !== 'boolean') {
+    errors.push('won must be true or false');
+  }
+  if (run.replayHash !== null && typeof run.replayHash !== 'string') {
+    errors.push('replayHash must be a string or null');
+  }
+
+  return errors;
+}
@@ -0,0 +1,125 @@
+import { compareHighScores } from './high-score-store';
+import {
+  LeaderboardClient,
+  LeaderboardEntry,
+  LeaderboardError,
+  LeaderboardRun,
+  validateLeaderboardRun
+} from './leaderboard-client';
+
+const STORAGE_KEY = 'antzer-leaderboard';
+const LEADERBOARD_VERSION = 1;
+
+/**
+ * A run kept on a board, before it is ranked
+ */
+type StoredRun = Omit<LeaderboardEntry, 'rank'>;
+
+/**
+ * Leaderboard data persisted between sessions
+ */
+interface LeaderboardData {
+  /** Schema version of the stored data */
+  version: number;
+  /** Each player's best run, keyed by board id */
+  boards: Record<string, StoredRun[]>;
+}
+
+/**
+ * Leaderboard kept in memory, and optionally in localStorage, with no server involved.
+ * Used when no leaderboard server is configured, by the mock leaderboard server, and offline
+ * Storage failures are ignored so the leaderboard keeps working in memory only
+ */
+export class LocalLeaderboardClient implements LeaderboardClient {
+  private data: LeaderboardData;
+  private persist: boolean;
+
+  /**
+   * @param persist - Whether to keep the leaderboard in localStorage between sessions
+   */
+  constructor(persist: boolean = false) {
+    this.persist = persist;
+    this.data = this.load();
+  }
+
+  /**
+   * Submit a run, keeping it only if it is the player's best on its board
+   */
+  async submit(run: LeaderboardRun): Promise<LeaderboardEntry> {
+    const errors = validateLeaderboardRun(run);
+    if (errors.length > 0) {
+      throw new LeaderboardError(`Run rejected: ${errors.join(', ')}`, 'server');
+    }
+
+    const runs = this.data.boards[run.boardId] ?? [];
+    const previousBest = runs.find(stored => stored.playerId === run.playerId);
+
+    if (!previousBest || compareHighScores(run, previousBest) < 0) {
+      const others = runs.filter(stored => stored.playerId !== run.playerId);
+      this.data.boards[run.boardId] = [...others, { ...run, submittedAt: Date.now() }].sort(compareHighScores);
+      this.save();
+    }
+
+    return this.getRanked(run.boardId).find(entry => entry.playerId === run.playerId)!;
+  }
+
+  /**
+   * Get the best entries on a board
+   */
+  async getTop(boardId: string, limit: number): Promise<LeaderboardEntry[]> {
+    return this.getRanked(boardId).slice(0, limit);
+  }
+
+  /**
+   * Get the entries around a player's entry on a board
+   */
+  async getAroundPlayer(boardId: string, playerId: string, radius: number): Promise<LeaderboardEntry[]> {
+    const ranked = this.getRanked(boardId);
+    const index = ranked.findIndex(entry => entry.playerId === playerId);
+    if (index === -1) return [];
+
+    return ranked.slice(Math.max(0, index - radius), index + radius + 1);
+  }
+
+  /**
+   * Get every entry on a board with its rank
+   */
+  private getRanked(boardId: string): LeaderboardEntry[] {
+    return (this.data.boards[boardId] ?? []).map((run, index) => ({ ...run, rank: index + 1 }));
+  }
+
+  /**
+   * Safely loads the leaderboard from localStorage
+   */
+  private load(): LeaderboardData {
+    const emptyLeaderboard: LeaderboardData = { version: LEADERBOARD_VERSION, boards: {} };
+    if (!this.persist) return emptyLeaderboard;
+
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (!stored) return emptyLeaderboard;
+
+      const parsed = JSON.parse(stored) as Partial<LeaderboardData>;
+      if (parsed.version !== LEADERBOARD_VERSION || typeof parsed.boards !== 'object' || parsed.boards === null) {
+        return emptyLeaderboard;
+      }
+
+      return { version: LEADERBOARD_VERSION, boards: parsed.boards };
+    } catch (error) {
+      return emptyLeaderboard;
+    }
+  }
+
+  /**
+   * Safely saves the leaderboard to localStorage
+   */
+  private save(): void {
+    if (!this.persist) return;
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      // Storage unavailable - keep the leaderboard in memory only
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { INITIALS_LENGTH } from './high-score-store';
+
+const STORAGE_KEY = 'antzer-player';
+const DEFAULT_INITIALS = 'ANT';
+
+/**
+ * The local player, as known to the leaderboard
+ */
+export interface PlayerProfile {
+  /** Anonymous id that ties the player's leaderboard runs together */
+  id: string;
+  /** Initials last entered for a high score */
+  initials: string;
+}
+
+/**
+ * Persists the player's anonymous id and last initials in localStorage
+ * Storage failures are ignored; the player then gets a new id each session
+ */
+export class PlayerProfileStore {
+  private profile: PlayerProfile;
+
+  constructor() {
+    this.profile = this.load();
+  }
+
+  /**
+   * Get the player's profile
+   */
+  getProfile(): PlayerProfile {
+    return { ...this.profile };
+  }
+
+  /**
+   * Remember the initials the player entered, to suggest them next time
+   */
+  setInitials(initials: string): void {
+    this.profile.initials = initials;
+    this.save();
+  }
+
+  /**
+   * Safely loads the profile from localStorage, creating a new one if there is none
+   */
+  private load(): PlayerProfile {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) as Partial<PlayerProfile> : {};
+
+      if (typeof parsed.id === 'string' && typeof parsed.initials === 'string'
+        && parsed.initials.length === INITIALS_LENGTH) {
+        return { id: parsed.id, initials: parsed.initials };
+      }
+    } catch (error) {
+      // Unreadable profile - start a new one
+    }
+
+    const profile = { id: createPlayerId(), initials: DEFAULT_INITIALS };
+    this.profile = profile;
+    this.save();
+    return profile;
+  }
+
+  /**
+   * Safely saves the profile to localStorage
+   */
+  private save(): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.profile));
+    } catch (error) {
+      // Storage unavailable - keep the profile in memory only
+    }
+  }
+}
+
+/**
+ * Create a random anonymous player id
+ */
+function createPlayerId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,121 @@
+import { DEFAULT_LEVEL_ID } from '../config/level-registry';
+
+const STORAGE_KEY = 'antzer-progress';
+const PROGRESS_VERSION = 1;
+
+/**
+ * Best results recorded for a single level
+ */
+export interface LevelRecord {
+  /** Fastest completion time in milliseconds */
+  bestTimeMs: number;
+  /** Highest score earned on the level */
+  bestScore: number;
+  /** Highest star rating earned on the level */
+  stars: number;
+}
+
+/**
+ * Campaign progress persisted between sessions
+ */
+interface ProgressData {
+  /** Schema version of the stored data */
+  version: number;
+  /** Ids of every level the player has unlocked */
+  unlockedLevelIds: string[];
+  /** Best results keyed by level id */
+  levelRecords: Record<string, LevelRecord>;
+}
+
+/**
+ * Persists campaign progress (unlocked levels and per-level bests) in localStorage
+ * Storage failures (private browsing, quota, disabled storage) are ignored so
+ * the game stays playable with in-memory progress only
+ */
+export class ProgressStore {
+  private data: ProgressData;
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  /**
+   * Check whether a level is unlocked
+   * The first level is always unlocked
+   */
+  isUnlocked(levelId: string): boolean {
+    return levelId === DEFAULT_LEVEL_ID || this.data.unlockedLevelIds.includes(levelId);
+  }
+
+  /**
+   * Unlock a level and save progress
+   */
+  unlockLevel(levelId: string): void {
+    if (this.isUnlocked(levelId)) return;
+
+    this.data.unlockedLevelIds.push(levelId);
+    this.save();
+  }
+
+  /**
+   * Get the best results recorded for a level
+   * @returns The level record, or undefined if the level has never been completed
+   */
+  getLevelRecord(levelId: string): LevelRecord | undefined {
+    return this.data.levelRecords[levelId];
+  }
+
+  /**
+   * Record a level completion, keeping the best time, score, and stars separately
+   * @param levelId - The completed level
+   * @param completion - Time, score, and stars earned by this completion
+   */
+  recordCompletion(levelId: string, completion: LevelRecord): void {
+    const existing = this.data.levelRecords[levelId];
+
+    this.data.levelRecords[levelId] = existing
+      ? {
+          bestTimeMs: Math.min(existing.bestTimeMs, completion.bestTimeMs),
+          bestScore: Math.max(existing.bestScore, completion.bestScore),
+          stars: Math.max(existing.stars, completion.stars)
+        }
+      : { ...completion };
+    this.save();
+  }
+
+  /**
+   * Safely loads progress from localStorage
+   */
+  private load(): ProgressData {
+    const emptyProgress: ProgressData = { version: PROGRESS_VERSION, unlockedLevelIds: [], levelRecords: {} };
+
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (!stored) return emptyProgress;
+
+      const parsed = JSON.parse(stored) as Partial<ProgressData>;
+      if (parsed.version !== PROGRESS_VERSION || !Array.isArray(parsed.unlockedLevelIds)) {
+        return emptyProgress;
+      }
+
+      return {
+        version: PROGRESS_VERSION,
+        unlockedLevelIds: parsed.unlockedLevelIds,
+        levelRecords: parsed.levelRecords ?? {}
+      };
+    } catch (error) {
+      return emptyProgress;
+    }
+  }
+
+  /**
+   * Safely saves progress to localStorage
+   */
+  private save(): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      // Storage unavailable - keep progress in memory only
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Deterministic pseudo-random number generator (mulberry32)
+ * The same seed always produces the same sequence, on every platform, so anything
+ * built from it (such as generated levels) can be recreated from the seed alone
+ */
+export class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  /**
+   * @param seed - Number or text to seed the sequence with
+   */
+  constructor(seed: number | string) {
+    this.seed = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+    this.state = this.seed;
+  }
+
+  /**
+   * Derive an independent sequence from this one's seed
+   * The result depends only on the seed and the name, never on how many numbers have been drawn,
+   * so drawing from one split never changes another
+   * @param name - Name of the derived sequence; the same name always gives the same sequence
+   */
+  split(name: string): SeededRandom {
+    return new SeededRandom(hashSeed(`${this.seed}:${name}`));
+  }
+
+  /**
+   * Get the next number in the sequence
+   * @returns A number from 0 (inclusive) to 1 (exclusive)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get a whole number between min and max, both inclusive
+   */
+  nextInt(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Return true with the given probability
+   * @param probability - Chance from 0 to 1
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random item from a list
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+/**
+ * Hash text into a 32-bit seed (FNV-1a)
+ * @param text - The seed text
+ * @returns Unsigned 32-bit seed
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
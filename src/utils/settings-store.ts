@@ -0,0 +1,112 @@
+import { TouchControls } from '../game/input-manager';
+import { copyKeyBindings, DEFAULT_KEY_BINDINGS, isValidKeyBindings, KeyBindings } from '../game/key-bindings';
+import { TouchButtonSize, TouchLayout } from '../game/mobile-controls';
+
+const STORAGE_KEY = 'antzer-settings';
+const SETTINGS_VERSION = 1;
+
+/**
+ * Player settings persisted between sessions
+ */
+export interface GameSettings {
+  /** Whether background music plays */
+  musicEnabled: boolean;
+  /** Whether sound effects play */
+  soundEnabled: boolean;
+  /** Keys that move the ant in each direction */
+  keyBindings: KeyBindings;
+  /** Touch controls used on touch devices */
+  touchControls: TouchControls;
+  /** Where the direction buttons sit on touch devices */
+  touchLayout: TouchLayout;
+  /** How big the direction buttons are on touch devices */
+  touchButtonSize: TouchButtonSize;
+}
+
+const DEFAULT_SETTINGS: GameSettings = {
+  musicEnabled: true,
+  soundEnabled: true,
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  touchControls: TouchControls.BOTH,
+  touchLayout: TouchLayout.RIGHT_HANDED,
+  touchButtonSize: TouchButtonSize.MEDIUM
+};
+
+/**
+ * Persists player settings in localStorage
+ * Storage failures are ignored so settings still apply for the current session
+ */
+export class SettingsStore {
+  private settings: GameSettings;
+
+  constructor() {
+    this.settings = this.load();
+  }
+
+  /**
+   * Get the current settings
+   */
+  getSettings(): GameSettings {
+    return { ...this.settings, keyBindings: copyKeyBindings(this.settings.keyBindings) };
+  }
+
+  /**
+   * Change some settings and save them
+   * @param changes - Settings to change, the rest are kept
+   */
+  updateSettings(changes: Partial<GameSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    this.save();
+  }
+
+  /**
+   * Safely loads settings from localStorage
+   */
+  private load(): GameSettings {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (!stored) return this.getDefaults();
+
+      const parsed = JSON.parse(stored) as Partial<GameSettings> & { version?: number };
+      if (parsed.version !== SETTINGS_VERSION) return this.getDefaults();
+
+      return {
+        musicEnabled: parsed.musicEnabled ?? DEFAULT_SETTINGS.musicEnabled,
+        soundEnabled: parsed.soundEnabled ?? DEFAULT_SETTINGS.soundEnabled,
+        keyBindings: isValidKeyBindings(parsed.keyBindings)
+          ? copyKeyBindings(parsed.keyBindings)
+          : copyKeyBindings(DEFAULT_SETTINGS.keyBindings),
+        touchControls: pickOption(parsed.touchControls, TouchControls, DEFAULT_SETTINGS.touchControls),
+        touchLayout: pickOption(parsed.touchLayout, TouchLayout, DEFAULT_SETTINGS.touchLayout),
+        touchButtonSize: pickOption(parsed.touchButtonSize, TouchButtonSize, DEFAULT_SETTINGS.touchButtonSize)
+      };
+    } catch (error) {
+      return this.getDefaults();
+    }
+  }
+
+  /**
+   * Get a fresh copy of the default settings
+   */
+  private getDefaults(): GameSettings {
+    return { ...DEFAULT_SETTINGS, keyBindings: copyKeyBindings(DEFAULT_SETTINGS.keyBindings) };
+  }
+
+  /**
+   * Safely saves settings to localStorage
+   */
+  private save(): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...this.settings }));
+    } catch (error) {
+      // Storage unavailable - keep settings in memory only
+    }
+  }
+}
+
+/**
+ * Use a stored value if it is one of a setting's options, otherwise the default
+ */
+function pickOption<T extends string>(value: unknown, options: Record<string, T>, fallback: T): T {
+  return Object.values(options).includes(value as T) ? value as T : fallback;
+}
@@ -0,0 +1,12 @@
+/**
+ * Format an elapsed time in milliseconds as a M:SS string
+ * @param elapsedMs - Elapsed time in milliseconds
+ * @returns Formatted time string in M:SS format (e.g., "2:34")
+ */
+export function formatElapsedTime(elapsedMs: number): string {
+  const elapsed = Math.floor(elapsedMs / 1000);
+  const minutes = Math.floor(elapsed / 60);
+  const seconds = elapsed % 60;
+  
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
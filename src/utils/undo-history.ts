@@ -0,0 +1,71 @@
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Undo/redo history of snapshots
+ * Callers record a snapshot of their state before each change, then trade the
+ * current state for a past or future snapshot when undoing or redoing
+ */
+export class UndoHistory<T> {
+  private past: T[] = [];
+  private future: T[] = [];
+  private limit: number;
+
+  /**
+   * @param limit - Maximum number of snapshots kept for undo
+   */
+  constructor(limit: number = DEFAULT_HISTORY_LIMIT) {
+    this.limit = limit;
+  }
+
+  /**
+   * Record the state from before a change
+   * Clears the redo history, since it no longer follows from the current state
+   */
+  record(snapshot: T): void {
+    this.past.push(snapshot);
+    if (this.past.length > this.limit) {
+      this.past.shift();
+    }
+    this.future = [];
+  }
+
+  /**
+   * Step back one change
+   * @param current - The current state, kept for redo
+   * @returns The state to restore, or undefined if there is nothing to undo
+   */
+  undo(current: T): T | undefined {
+    const snapshot = this.past.pop();
+    if (snapshot !== undefined) {
+      this.future.push(current);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Step forward one undone change
+   * @param current - The current state, kept for undo
+   * @returns The state to restore, or undefined if there is nothing to redo
+   */
+  redo(current: T): T | undefined {
+    const snapshot = this.future.pop();
+    if (snapshot !== undefined) {
+      this.past.push(current);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Check whether there is a change to undo
+   */
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  /**
+   * Check whether there is an undone change to redo
+   */
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+}
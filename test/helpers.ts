@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Helpers shared by the game simulation tests
+ * Builds small levels around the ant and plays hops out step by step
+ */
+
+import { Direction } from '../src/config/constants';
+import { createLevelConfig, LaneSettings, LevelConfig } from '../src/config/level-config';
+import { GameSimulation } from '../src/game/simulation';
+
+/** Most steps a single hop is allowed to take before a test gives up on it */
+const MAX_HOP_STEPS = 60;
+
+/**
+ * Build a level from a grid and optional lane settings
+ * @param grid - Rows in the level character format, top to bottom
+ * @param options - Lane settings and lives for the level
+ */
+export function makeLevel(
+  grid: string[],
+  options: { lanes?: LaneSettings[]; lives?: number } = {}
+): LevelConfig {
+  return createLevelConfig({ id: 'test-level', name: 'Test Level', grid, ...options });
+}
+
+/**
+ * Make a move and step the run until the hop lands
+ * @returns The number of steps taken, including the one that started the hop
+ */
+export function hop(simulation: GameSimulation, direction: Direction): number {
+  simulation.step(direction);
+  let steps = 1;
+
+  while (simulation.getPlayer().hop && steps < MAX_HOP_STEPS) {
+    simulation.step();
+    steps++;
+  }
+  return steps;
+}
+
+/**
+ * Step the run a number of times without moving the ant
+ */
+export function wait(simulation: GameSimulation, steps: number): void {
+  for (let i = 0; i < steps; i++) {
+    simulation.step();
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Tests for the lane layout model
+ * The level solver places lanes with getEntityX while the simulation steps them, so the two
+ * must agree however many times an entity wraps
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LEVEL_1_CONFIG } from '../src/config/level1';
+import { FIXED_STEP_MS } from '../src/game/fixed-timestep';
+import { GridObjectType } from '../src/game/grid-system';
+import { getEntityX, isFrogEntity, LaneEntity, stepEntityX } from '../src/game/lane-layout';
+import { GameSimulation } from '../src/game/simulation';
+
+/** Steps to play (two minutes, long enough for every lane to wrap several times) */
+const STEPS = 60 * 120;
+
+/**
+ * Build an obstacle in the middle of the screen that wraps just past either edge
+ */
+function makeEntity(velocity: number): LaneEntity {
+  return { row: 0, objectType: GridObjectType.POISON, startX: 400, width: 48, velocity, wrapMinX: -50, wrapMaxX: 850 };
+}
+
+describe('stepEntityX', () => {
+  [80, -80].forEach(velocity => {
+    it(`stays in phase with getEntityX across wraps at ${velocity}px/s`, () => {
+      const entity = makeEntity(velocity);
+      let x = entity.startX;
+
+      for (let step = 1; step <= STEPS; step++) {
+        x = stepEntityX(entity, x, FIXED_STEP_MS);
+        const expected = getEntityX(entity, step * FIXED_STEP_MS);
+        // Both sides of the wrap are the same place
+        const offset = Math.abs(x - expected) % (entity.wrapMaxX - entity.wrapMinX);
+        assert.ok(Math.min(offset, entity.wrapMaxX - entity.wrapMinX - offset) < 1e-6, `step ${step}: ${x} vs ${expected}`);
+      }
+    });
+  });
+
+  it('keeps stationary entities where they are', () => {
+    const entity = makeEntity(0);
+
+    assert.equal(stepEntityX(entity, entity.startX, FIXED_STEP_MS), entity.startX);
+    assert.equal(getEntityX(entity, 10000), entity.startX);
+  });
+});
+
+describe('lanes in the simulation', () => {
+  it('moves every lane to where the level solver expects it', () => {
+    const simulation = new GameSimulation(LEVEL_1_CONFIG);
+    for (let step = 0; step < STEPS; step++) {
+      simulation.step();
+    }
+
+    simulation.getEntities().filter(entity => !isFrogEntity(entity)).forEach(entity => {
+      const expected = getEntityX(entity, STEPS * FIXED_STEP_MS);
+      assert.ok(Math.abs(entity.x - expected) < 1e-6, `entity ${entity.id}: ${entity.x} vs ${expected}`);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Tests for the level solver and level validation
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { validateLevel } from '../src/config/level-config';
+import { parseLevelFile } from '../src/config/level-loader';
+import { LEVEL_1_CONFIG } from '../src/config/level1';
+import { solveLevel } from '../src/game/level-solver';
+import { makeLevel } from './helpers';
+
+describe('solveLevel', () => {
+  it('solves the built-in level', () => {
+    const solution = solveLevel(LEVEL_1_CONFIG);
+
+    assert.equal(solution.solvable, true);
+    assert.ok(solution.minMoves !== null && solution.minMoves >= LEVEL_1_CONFIG.antStartRow - LEVEL_1_CONFIG.antHillRow);
+  });
+
+  it('counts the fewest moves on open grass', () => {
+    const level = makeLevel(['GGGGGGGHGGGGGGGG', 'GGGGGGGGGGGGGGGG', 'GGGGGGGGGAGGGGGG']);
+
+    assert.deepEqual(solveLevel(level), { solvable: true, minMoves: 4, blockedRow: null });
+  });
+
+  it('finds the row that can never be crossed', () => {
+    const level = makeLevel(
+      ['GGGGGGGHGGGGGGGG', 'WWWWWWWWWWWWWWWW', 'GGGGGGGAGGGGGGGG'],
+      { lanes: [{ row: 1, count: 0 }] }
+    );
+
+    assert.deepEqual(solveLevel(level), { solvable: false, minMoves: null, blockedRow: 1 });
+  });
+
+  describe('frogs', () => {
+    it('waits for a frog to hop out of the only way through', () => {
+      const level = makeLevel([
+        'KKKKKKKHKKKKKKKK',
+        'WWWWWWWTWWWWWWWW',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGGAGGGGGGG'
+      ], { lanes: [{ row: 1, count: 0 }] });
+
+      assert.deepEqual(solveLevel(level), { solvable: true, minMoves: 4, blockedRow: null });
+    });
+
+    it('solves the level file built around frogs', () => {
+      const data = JSON.parse(readFileSync(join(__dirname, '../../src/assets/levels/level-4.json'), 'utf8'));
+      const { level, errors } = parseLevelFile(data);
+
+      assert.deepEqual(errors, []);
+      assert.ok(level);
+      assert.equal(level.grid.some(row => row.includes('T')), true);
+      assert.equal(solveLevel(level).solvable, true);
+    });
+
+    it('blocks the cells of frogs that can never hop away', () => {
+      const level = makeLevel([
+        'KKHKKKKKKKKKKKKK',
+        'TTTTTTTTTTTTTTTT',
+        'CCCCCCCCCCCCCCCC',
+        'GGAGGGGGGGGGGGGG'
+      ]);
+
+      assert.deepEqual(solveLevel(level), { solvable: false, minMoves: null, blockedRow: 1 });
+    });
+  });
+});
+
+describe('validateLevel', () => {
+  it('accepts the built-in level', () => {
+    assert.deepEqual(validateLevel(LEVEL_1_CONFIG), []);
+  });
+
+  it('rejects a level walled off by frogs that can never move', () => {
+    const level = makeLevel([
+      'KKHKKKKKKKKKKKKK',
+      'TTTTTTTTTTTTTTTT',
+      'CCCCCCCCCCCCCCCC',
+      'GGAGGGGGGGGGGGGG'
+    ]);
+
+    assert.deepEqual(validateLevel(level), [
+      'Ant hill cannot be reached from the ant start position',
+      'Row 1 can never be crossed'
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Property tests for the headless game simulation
+ * Plays seeded random input sequences through real levels and checks the rules every run
+ * must keep, whatever the player does
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Direction } from '../src/config/constants';
+import { LevelConfig } from '../src/config/level-config';
+import { LEVEL_1_CONFIG } from '../src/config/level1';
+import { GridObjectType } from '../src/game/grid-system';
+import { GameSimulation, RunStatus } from '../src/game/simulation';
+import { SeededRandom } from '../src/utils/seeded-random';
+import { makeLevel } from './helpers';
+
+/** Number of random runs played per level */
+const RUNS_PER_LEVEL = 20;
+/** Steps in each random run (30 seconds of play) */
+const STEPS_PER_RUN = 1800;
+/** Chance of a move in any one step */
+const MOVE_CHANCE = 0.12;
+/** Moves drawn from, weighted towards the ant hill so some runs get far enough to win */
+const MOVES = [Direction.UP, Direction.UP, Direction.UP, Direction.LEFT, Direction.RIGHT, Direction.DOWN];
+
+const SMALL_LEVEL = makeLevel(
+  [
+    'GGGGGGGHGGGGGGGG',
+    'GCGGGGGGGGGGKGGG',
+    'WWWWWWWWWWWWWWWW',
+    'GGGGGGGGGGGGGGGG',
+    'RRPRRRRRRPRRRRRR',
+    'GGCGGGGSGGGGGGGG',
+    'GGGGGGGAGGGGGGGG'
+  ],
+  { lanes: [{ row: 2, speed: 50, platform: 'leaf', gap: 48 }] }
+);
+
+/**
+ * Draw a random input for every step of a run
+ */
+function makeInputs(seed: number): (Direction | undefined)[] {
+  const random = new SeededRandom(seed);
+  return Array.from({ length: STEPS_PER_RUN }, () => random.chance(MOVE_CHANCE) ? random.pick(MOVES) : undefined);
+}
+
+/**
+ * Snapshot of a run's visible state, for comparing two runs
+ */
+function snapshot(simulation: GameSimulation): unknown {
+  const { row, col, x, y, dead } = simulation.getPlayer();
+  return {
+    player: { row, col, x, y, dead },
+    status: simulation.getStatus(),
+    lives: simulation.getLives(),
+    score: simulation.getScore(),
+    collected: simulation.getCollectedCount(),
+    entities: simulation.getEntities().map(entity => [entity.id, entity.row, entity.x])
+  };
+}
+
+/**
+ * Play a run, checking every rule after each step
+ */
+function checkRun(level: LevelConfig, seed: number): void {
+  const simulation = new GameSimulation(level, { seed });
+  const collectibles = simulation.getGridSystem().getAllCellsOfType(GridObjectType.CHERRY).length +
+    simulation.getGridSystem().getAllCellsOfType(GridObjectType.COOKIE).length;
+  let respawned = false;
+  simulation.setCallbacks({ onRespawn: () => { respawned = true; } });
+
+  let lives = simulation.getLives();
+  let score = simulation.getScore();
+  let finalStatus: RunStatus | undefined;
+
+  makeInputs(seed).forEach((input, step) => {
+    respawned = false;
+    simulation.step(input);
+    const context = `seed ${seed}, step ${step}`;
+    const player = simulation.getPlayer();
+    const status = simulation.getStatus();
+
+    // Lives only go down, and the run is lost exactly when they run out
+    assert.ok(simulation.getLives() <= lives, `lives went up (${context})`);
+    assert.ok(simulation.getLives() >= 0, `lives below zero (${context})`);
+    assert.equal(status === RunStatus.LOST, simulation.getLives() === 0, `lost without running out of lives (${context})`);
+    lives = simulation.getLives();
+
+    // Score only goes down when returning to a checkpoint rolls it back
+    assert.ok(simulation.getScore() >= score || respawned, `score went down (${context})`);
+    assert.ok(simulation.getScore() >= 0, `negative score (${context})`);
+    score = simulation.getScore();
+
+    assert.ok(simulation.getCollectedCount() <= collectibles, `collected more than the level holds (${context})`);
+
+    // The ant never leaves the rows of the grid
+    const gridSystem = simulation.getGridSystem();
+    assert.ok(player.row >= gridSystem.getTopRow() && player.row <= gridSystem.getBottomRow(), `ant off the grid (${context})`);
+
+    // A won or lost run stays that way
+    if (finalStatus) {
+      assert.equal(status, finalStatus, `run changed after ending (${context})`);
+    } else if (simulation.isOver()) {
+      finalStatus = status;
+    }
+
+    if (status === RunStatus.WON) {
+      assert.equal(gridSystem.getCell(player.row, player.col)?.object, GridObjectType.ANT_HILL, `won away from the ant hill (${context})`);
+    }
+  });
+}
+
+describe('GameSimulation properties', () => {
+  [LEVEL_1_CONFIG, SMALL_LEVEL].forEach(level => {
+    it(`keeps the rules of a run over random inputs on ${level.id}`, () => {
+      for (let seed = 1; seed <= RUNS_PER_LEVEL; seed++) {
+        checkRun(level, seed);
+      }
+    });
+
+    it(`plays the same seed and inputs out the same way on ${level.id}`, () => {
+      for (let seed = 1; seed <= RUNS_PER_LEVEL; seed++) {
+        const runs = [new GameSimulation(level, { seed }), new GameSimulation(level, { seed })];
+        const inputs = makeInputs(seed);
+
+        runs.forEach(simulation => inputs.forEach(input => simulation.step(input)));
+
+        assert.deepEqual(snapshot(runs[0]), snapshot(runs[1]), `runs differ for seed ${seed}`);
+      }
+    });
+  });
+
+  it('wins some random runs of the small level', () => {
+    let wins = 0;
+    for (let seed = 1; seed <= RUNS_PER_LEVEL; seed++) {
+      const simulation = new GameSimulation(SMALL_LEVEL, { seed });
+      makeInputs(seed).forEach(input => simulation.step(input));
+      if (simulation.getStatus() === RunStatus.WON) wins++;
+    }
+    assert.ok(wins > 0, 'no random run reached the ant hill');
+  });
+});
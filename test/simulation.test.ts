@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Unit tests for the headless game simulation
+ * Covers dying, riding platforms, collecting, and winning, driven only through `step`
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Direction, GRID_SIZE } from '../src/config/constants';
+import { FIXED_STEP_MS, FIXED_STEP_SECONDS } from '../src/game/fixed-timestep';
+import { GridObjectType } from '../src/game/grid-system';
+import { GameSimulation, RunStatus } from '../src/game/simulation';
+import { hop, makeLevel, wait } from './helpers';
+
+describe('GameSimulation', () => {
+  describe('dying', () => {
+    it('loses a life when the ant lands on an obstacle', () => {
+      const level = makeLevel(
+        ['GGGGGGGHGGGGGGGG', 'RRRRRRRPRRRRRRRR', 'GGGGGGGAGGGGGGGG'],
+        { lanes: [{ row: 1, speed: 0 }] }
+      );
+      const simulation = new GameSimulation(level);
+      const deaths: number[] = [];
+      simulation.setCallbacks({ onDeath: livesLeft => deaths.push(livesLeft) });
+
+      hop(simulation, Direction.UP);
+
+      assert.deepEqual(deaths, [2]);
+      assert.equal(simulation.getLives(), 2);
+      assert.equal(simulation.getStatus(), RunStatus.RESPAWNING);
+      assert.equal(simulation.getPlayer().dead, true);
+    });
+
+    it('keeps the ant alive until its hop lands', () => {
+      const level = makeLevel(
+        ['GGGGGGGHGGGGGGGG', 'RRRRRRRPRRRRRRRR', 'GGGGGGGAGGGGGGGG'],
+        { lanes: [{ row: 1, speed: 0 }] }
+      );
+      const simulation = new GameSimulation(level);
+
+      simulation.step(Direction.UP);
+      assert.ok(simulation.getPlayer().hop);
+      assert.equal(simulation.getStatus(), RunStatus.PLAYING);
+    });
+
+    it('loses a life when the ant lands in water with no platform', () => {
+      const level = makeLevel(
+        ['GGGGGGGHGGGGGGGG', 'WWWWWWWWWWWWWWWW', 'GGGGGGGAGGGGGGGG'],
+        { lanes: [{ row: 1, count: 0 }] }
+      );
+      const simulation = new GameSimulation(level);
+
+      hop(simulation, Direction.UP);
+
+      assert.equal(simulation.getLives(), 2);
+      assert.equal(simulation.getStatus(), RunStatus.RESPAWNING);
+    });
+
+    it('ends the run when the last life is lost', () => {
+      const level = makeLevel(
+        ['GGGGGGGHGGGGGGGG', 'WWWWWWWWWWWWWWWW', 'GGGGGGGAGGGGGGGG'],
+        { lanes: [{ row: 1, count: 0 }], lives: 1 }
+      );
+      const simulation = new GameSimulation(level);
+
+      hop(simulation, Direction.UP);
+
+      assert.equal(simulation.getLives(), 0);
+      assert.equal(simulation.getStatus(), RunStatus.LOST);
+      assert.equal(simulation.isOver(), true);
+    });
+
+    it('brings the ant back on the last grass cell it stood on', () => {
+      const level = makeLevel(
+        ['GGGGGGGHGGGGGGGG', 'WWWWWWWWWWWWWWWW', 'GGGGGGGAGGGGGGGG'],
+        { lanes: [{ row: 1, count: 0 }] }
+      );
+      const simulation = new GameSimulation(level);
+      let respawns = 0;
+      simulation.setCallbacks({ onRespawn: () => respawns++ });
+
+      hop(simulation, Direction.UP);
+      wait(simulation, 120);
+
+      assert.equal(respawns, 1);
+      assert.equal(simulation.getStatus(), RunStatus.PLAYING);
+      assert.equal(simulation.getPlayer().row, 2);
+      assert.equal(simulation.getPlayer().col, 7);
+      assert.equal(simulation.isPlayerInvulnerable(), true);
+    });
+  });
+
+  describe('riding', () => {
+    const level = makeLevel(
+      ['GGGGGGGHGGGGGGGG', 'WWWWWWWWWWWWWWWW', 'GGGGGGGAGGGGGGGG'],
+      { lanes: [{ row: 1, speed: 60, direction: Direction.RIGHT, platform: 'log', gap: 0 }] }
+    );
+
+    it('carries the ant along with the platform it lands on', () => {
+      const simulation = new GameSimulation(level);
+      hop(simulation, Direction.UP);
+      assert.equal(simulation.getStatus(), RunStatus.PLAYING);
+      assert.equal(simulation.getPlayer().row, 1);
+
+      const startX = simulation.getPlayer().x;
+      wait(simulation, 30);
+
+      const drift = simulation.getPlayer().x - startX;
+      assert.ok(Math.abs(drift - 30 * 60 * FIXED_STEP_SECONDS) < 1e-6, `drifted ${drift}px`);
+      assert.equal(simulation.getPlayer().col, Math.round((simulation.getPlayer().x - GRID_SIZE / 2) / GRID_SIZE));
+    });
+
+    it('loses a life when the platform carries the ant off screen', () => {
+      const simulation = new GameSimulation(level);
+      hop(simulation, Direction.UP);
+
+      wait(simulation, 60 * 10);
+
+      assert.ok(simulation.getLives() < 3);
+    });
+  });
+
+  describe('moving', () => {
+    it('makes every hop of quick presses made mid-hop', () => {
+      const level = makeLevel([
+        'GGGGGGGHGGGGGGGG',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGAGGGGGGGG'
+      ]);
+      const simulation = new GameSimulation(level);
+
+      simulation.step(Direction.UP);
+      simulation.step();
+      simulation.step(Direction.UP);
+      simulation.step();
+      simulation.step(Direction.UP);
+      wait(simulation, 60);
+
+      assert.equal(simulation.getPlayer().row, 2);
+    });
+
+    it('keeps only the latest two presses waiting on a hop', () => {
+      const level = makeLevel([
+        'GGGGGGGHGGGGGGGG',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGGGGGGGGGG',
+        'GGGGGGGAGGGGGGGG'
+      ]);
+      const simulation = new GameSimulation(level);
+
+      simulation.step(Direction.UP);
+      simulation.step(Direction.LEFT);
+      simulation.step(Direction.UP);
+      simulation.step(Direction.UP);
+      wait(simulation, 60);
+
+      assert.equal(simulation.getPlayer().row, 2);
+      assert.equal(simulation.getPlayer().col, 7);
+    });
+  });
+
+  describe('collecting', () => {
+    it('scores a cherry and removes it from the grid', () => {
+      const level = makeLevel(['GGGGGGGHGGGGGGGG', 'GGGGGGGCGGGGGGGG', 'GGGGGGGAGGGGGGGG']);
+      const simulation = new GameSimulation(level);
+      const collected: { type: GridObjectType; points: number }[] = [];
+      simulation.setCallbacks({ onCollect: (item, points) => collected.push({ type: item.type, points }) });
+
+      hop(simulation, Direction.UP);
+
+      assert.deepEqual(collected, [{ type: GridObjectType.CHERRY, points: 10 }]);
+      assert.equal(simulation.getScore(), 10);
+      assert.equal(simulation.getCollectedCount(), 1);
+      assert.equal(simulation.getGridSystem().getCell(1, 7)?.object, GridObjectType.NONE);
+    });
+
+    it('scores a cookie on top of the score carried over', () => {
+      const level = makeLevel(['GGGGGGGHGGGGGGGG', 'GGGGGGGKGGGGGGGG', 'GGGGGGGAGGGGGGGG']);
+      const simulation = new GameSimulation(level, { score: 100 });
+
+      hop(simulation, Direction.UP);
+
+      assert.equal(simulation.getScore(), 120);
+    });
+
+    it('only scores a collectible once', () => {
+      const level = makeLevel(['GGGGGGGHGGGGGGGG', 'GGGGGGGCGGGGGGGG', 'GGGGGGGAGGGGGGGG']);
+      const simulation = new GameSimulation(level);
+
+      hop(simulation, Direction.UP);
+      hop(simulation, Direction.DOWN);
+      hop(simulation, Direction.UP);
+
+      assert.equal(simulation.getScore(), 10);
+      assert.equal(simulation.getCollectedCount(), 1);
+    });
+  });
+
+  describe('winning', () => {
+    it('wins the run when the ant reaches the ant hill', () => {
+      const level = makeLevel(['GGGGGGGHGGGGGGGG', 'GGGGGGGAGGGGGGGG']);
+      const simulation = new GameSimulation(level);
+      let wins = 0;
+      simulation.setCallbacks({ onWin: () => wins++ });
+
+      hop(simulation, Direction.UP);
+      wait(simulation, 30);
+
+      assert.equal(wins, 1);
+      assert.equal(simulation.getStatus(), RunStatus.WON);
+      assert.equal(simulation.isOver(), true);
+    });
+
+    it('times the run in steps, stopping when it is won', () => {
+      const level = makeLevel(['GGGGGGGHGGGGGGGG', 'GGGGGGGAGGGGGGGG']);
+      const simulation = new GameSimulation(level);
+
+      wait(simulation, 90);
+      const steps = 90 + hop(simulation, Direction.UP);
+      assert.equal(simulation.getStatus(), RunStatus.WON);
+      wait(simulation, 30);
+
+      assert.equal(simulation.getElapsedMs(), steps * FIXED_STEP_MS);
+    });
+
+    it('ignores moves once the run is won', () => {
+      const level = makeLevel(['GGGGGGGHGGGGGGGG', 'GGGGGGGAGGGGGGGG']);
+      const simulation = new GameSimulation(level);
+
+      hop(simulation, Direction.UP);
+      const { row, col } = simulation.getPlayer();
+      hop(simulation, Direction.DOWN);
+
+      assert.equal(simulation.getPlayer().row, row);
+      assert.equal(simulation.getPlayer().col, col);
+    });
+  });
+});